@@ -11,6 +11,7 @@ import ProductDetail from "./pages/ProductDetail";
 import Cart from "./pages/Cart";
 import Checkout from "./pages/Checkout";
 import Orders from "./pages/Orders";
+import Subscriptions from "./pages/Subscriptions";
 import Wishlist from "./pages/Wishlist";
 import AdminDashboard from "./pages/admin/Dashboard";
 import AdminProducts from "./pages/admin/Products";
@@ -18,12 +19,24 @@ import AdminOrders from "./pages/admin/Orders";
 import AdminCoupons from "./pages/admin/Coupons";
 import AdminUsers from "./pages/admin/Users";
 import AdminCategories from "./pages/admin/Categories";
+import AdminShipping from "./pages/admin/Shipping";
+import AdminTax from "./pages/admin/Tax";
+import AdminPayments from "./pages/admin/Payments";
+import AdminPaymentVerification from "./pages/admin/PaymentVerification";
+import AdminReconciliation from "./pages/admin/Reconciliation";
+import AdminReturns from "./pages/admin/Returns";
+import AdminSubscriptions from "./pages/admin/Subscriptions";
+import AdminSettings from "./pages/admin/Settings";
 import NotFound from "./pages/NotFound";
 import Payment from "./pages/Payment";
 import PaymentConfirmation from "./pages/PaymentConfirmation";
+import OrderPlaced from "./pages/OrderPlaced";
+import PaymentCallback from "./pages/PaymentCallback";
+import MockGateway from "./pages/MockGateway";
 import About from "./pages/About";
 import Contact from "./pages/Contact";
 import Policy from "./pages/Policy";
+import Account from "./pages/Account";
 
 const queryClient = new QueryClient();
 
@@ -45,8 +58,13 @@ const App = () => (
             <Route path="/cart" element={<Cart />} />
             <Route path="/checkout" element={<Checkout />} />
             <Route path="/orders" element={<Orders />} />
+            <Route path="/subscriptions" element={<Subscriptions />} />
+            <Route path="/account" element={<Account />} />
             <Route path="/payment" element={<Payment />} />
             <Route path="/payment/confirm" element={<PaymentConfirmation />} />
+            <Route path="/payment/callback" element={<PaymentCallback />} />
+            <Route path="/payment/mock-gateway" element={<MockGateway />} />
+            <Route path="/order-placed" element={<OrderPlaced />} />
             <Route path="/wishlist" element={<Wishlist />} />
             <Route path="/admin" element={<AdminDashboard />} />
             <Route path="/admin/users" element={<AdminUsers />} />
@@ -54,6 +72,14 @@ const App = () => (
             <Route path="/admin/orders" element={<AdminOrders />} />
             <Route path="/admin/categories" element={<AdminCategories />} />
             <Route path="/admin/coupons" element={<AdminCoupons />} />
+            <Route path="/admin/shipping" element={<AdminShipping />} />
+            <Route path="/admin/tax" element={<AdminTax />} />
+            <Route path="/admin/payments" element={<AdminPayments />} />
+            <Route path="/admin/payment-verification" element={<AdminPaymentVerification />} />
+            <Route path="/admin/reconciliation" element={<AdminReconciliation />} />
+            <Route path="/admin/returns" element={<AdminReturns />} />
+            <Route path="/admin/subscriptions" element={<AdminSubscriptions />} />
+            <Route path="/admin/settings" element={<AdminSettings />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { z } from 'zod';
+import { addressSchema, emptyAddressFields } from '@/lib/address';
+import type { Address, AddressFields } from '@/types/address';
+
+interface AddressFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  address?: Address | null;
+  onSaved?: (address: Address) => void;
+}
+
+export default function AddressFormDialog({ open, onOpenChange, address, onSaved }: AddressFormDialogProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<AddressFields>(emptyAddressFields());
+  const [isDefault, setIsDefault] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    if (address) {
+      setFormData({
+        full_name: address.full_name,
+        phone: address.phone,
+        line1: address.line1,
+        line2: address.line2 || '',
+        city: address.city,
+        state: address.state,
+        pincode: address.pincode,
+        landmark: address.landmark || '',
+      });
+      setIsDefault(address.is_default);
+    } else {
+      setFormData(emptyAddressFields());
+      setIsDefault(false);
+    }
+  }, [open, address]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error('Please login');
+
+      let parsed: z.infer<typeof addressSchema>;
+      try {
+        parsed = addressSchema.parse(formData);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          throw new Error(error.errors[0].message);
+        }
+        throw error;
+      }
+
+      const payload = {
+        full_name: parsed.full_name,
+        phone: parsed.phone,
+        line1: parsed.line1,
+        line2: parsed.line2 || null,
+        city: parsed.city,
+        state: parsed.state,
+        pincode: parsed.pincode,
+        landmark: parsed.landmark || null,
+        is_default: isDefault,
+      };
+
+      if (address) {
+        const { data, error } = await supabase
+          .from('addresses')
+          .update(payload)
+          .eq('id', address.id)
+          .select()
+          .single();
+        if (error) throw error;
+        return data;
+      }
+
+      const { data, error } = await supabase
+        .from('addresses')
+        .insert({ ...payload, user_id: user.id })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (saved) => {
+      toast.success(address ? 'Address updated' : 'Address added');
+      queryClient.invalidateQueries({ queryKey: ['addresses'] });
+      onSaved?.(saved);
+      onOpenChange(false);
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const field = (key: keyof AddressFields, label: string, props: React.ComponentProps<typeof Input> = {}) => (
+    <div>
+      <Label htmlFor={`address-${key}`}>{label}</Label>
+      <Input
+        id={`address-${key}`}
+        value={formData[key] || ''}
+        onChange={(e) => setFormData({ ...formData, [key]: e.target.value })}
+        {...props}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{address ? 'Edit Address' : 'Add Address'}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid sm:grid-cols-2 gap-4">
+            {field('full_name', 'Full Name')}
+            {field('phone', 'Mobile Number', { inputMode: 'numeric', maxLength: 10 })}
+          </div>
+          {field('line1', 'Address Line 1', { placeholder: 'House / flat no., street' })}
+          {field('line2', 'Address Line 2 (optional)', { placeholder: 'Area, village' })}
+          {field('landmark', 'Landmark (optional)')}
+          <div className="grid sm:grid-cols-3 gap-4">
+            {field('city', 'City')}
+            {field('state', 'State')}
+            {field('pincode', 'Pincode', { inputMode: 'numeric', maxLength: 6 })}
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="address-default" checked={isDefault} onCheckedChange={setIsDefault} />
+            <Label htmlFor="address-default">Use as my default address</Label>
+          </div>
+          <Button className="w-full" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : address ? 'Update Address' : 'Save Address'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { CANCELLATION_REASONS } from '@/lib/order-status';
+import type { Tables } from '@/integrations/supabase/types';
+
+interface CancelOrderDialogProps {
+  order: Pick<Tables<'orders'>, 'id' | 'order_number' | 'payment_status' | 'net_paid_amount'> | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const OTHER_REASON = 'other';
+
+// Stock, coupon and any pending parcel are released by cancel_order; a paid order's refund is sent by the store
+export default function CancelOrderDialog({ order, onOpenChange }: CancelOrderDialogProps) {
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState(CANCELLATION_REASONS[0]);
+  const [otherReason, setOtherReason] = useState('');
+
+  const orderId = order?.id;
+  useEffect(() => {
+    if (!orderId) return;
+    setReason(CANCELLATION_REASONS[0]);
+    setOtherReason('');
+  }, [orderId]);
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      if (!order) return;
+      const cancellationReason = reason === OTHER_REASON ? otherReason.trim() : reason;
+      if (!cancellationReason) throw new Error('Tell us why you are cancelling the order');
+
+      const { error } = await supabase.rpc('cancel_order', { _order_id: order.id, _reason: cancellationReason });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success(
+        order?.payment_status === 'paid'
+          ? 'Order cancelled. Your refund will be sent to your original payment method.'
+          : 'Order cancelled',
+      );
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to cancel order'),
+  });
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cancel Order #{order?.order_number}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <RadioGroup value={reason} onValueChange={setReason} className="space-y-2">
+            {[...CANCELLATION_REASONS, OTHER_REASON].map((value) => (
+              <Label key={value} htmlFor={`cancel-${value}`} className="flex items-center gap-3 font-normal cursor-pointer">
+                <RadioGroupItem value={value} id={`cancel-${value}`} />
+                {value === OTHER_REASON ? 'Other' : value}
+              </Label>
+            ))}
+          </RadioGroup>
+          {reason === OTHER_REASON && (
+            <Textarea
+              rows={2}
+              placeholder="Tell us why you are cancelling"
+              value={otherReason}
+              onChange={(e) => setOtherReason(e.target.value)}
+            />
+          )}
+          {order?.payment_status === 'paid' && (
+            <p className="text-sm text-muted-foreground">
+              ₹{Number(order.net_paid_amount).toFixed(2)} will be refunded to your original payment method.
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Keep Order
+          </Button>
+          <Button variant="destructive" onClick={() => cancelMutation.mutate()} disabled={cancelMutation.isPending}>
+            {cancelMutation.isPending ? 'Cancelling...' : 'Cancel Order'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,29 @@
+import { Button } from '@/components/ui/button';
+import { FileText } from 'lucide-react';
+import { toast } from 'sonner';
+import { downloadCreditNotePdf } from '@/lib/credit-note';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RefundWithItems } from '@/types/refunds';
+
+interface CreditNoteButtonProps {
+  refund: RefundWithItems;
+  order: Tables<'orders'>;
+}
+
+// Credit notes are numbered when the refund is recorded, so this only renders the PDF.
+export default function CreditNoteButton({ refund, order }: CreditNoteButtonProps) {
+  const download = () => {
+    try {
+      downloadCreditNotePdf(refund, order);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to generate credit note');
+    }
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={download}>
+      <FileText className="mr-2 h-4 w-4" />
+      Credit Note
+    </Button>
+  );
+}
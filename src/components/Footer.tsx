@@ -1,7 +1,12 @@
 import { Link } from 'react-router-dom';
 import { Facebook, Instagram, Twitter, MapPin, Phone, Mail } from 'lucide-react';
+import { useStoreSettings } from '@/hooks/use-store-settings';
+import { splitLines } from '@/lib/store-settings';
 
 export default function Footer() {
+  const { data: settings } = useStoreSettings();
+  const storeName = settings?.store_name || 'Sri Aarumugan Oil Mills';
+
   return (
     <footer className="border-t bg-muted/20">
       <div className="container mx-auto px-4 py-12">
@@ -9,12 +14,10 @@ export default function Footer() {
           {/* Brand */}
           <div>
             <div className="flex items-center gap-2 mb-4">
-              <img src="/oil-drop.svg" alt="Sri Aarumugan Oil Mills" className="h-6 w-6" />
-              <span className="text-xl font-semibold">Sri Aarumugan Oil Mills</span>
+              <img src="/oil-drop.svg" alt={storeName} className="h-6 w-6" />
+              <span className="text-xl font-semibold">{storeName}</span>
             </div>
-            <p className="text-muted-foreground">
-              Premium manufacturer of cold-pressed sesame oil and quality seeds since 2022. Tradition meets purity.
-            </p>
+            {settings?.tagline && <p className="text-muted-foreground">{settings.tagline}</p>}
             <div className="flex items-center gap-3 mt-4">
               <a href="#" aria-label="Facebook" className="h-9 w-9 rounded-full bg-background border flex items-center justify-center hover:bg-muted transition-colors">
                 <Facebook className="h-4 w-4" />
@@ -54,16 +57,20 @@ export default function Footer() {
           <div>
             <h3 className="text-lg font-semibold mb-4">Contact Us</h3>
             <ul className="space-y-3 text-muted-foreground">
-              <li className="flex items-start gap-3"><MapPin className="h-4 w-4 mt-1" /><span>158Z-2/4, Vijayapuri Road, East Pandavarmangalam, Kovilpatti, Thoothukudi - 628501, Tamil Nadu, India</span></li>
-              <li className="flex items-center gap-3"><Phone className="h-4 w-4" /><span>Contact us for inquiries</span></li>
-              <li className="flex items-center gap-3"><Mail className="h-4 w-4" /><span>info@sriaarumuganoilmills.com</span></li>
+              {settings?.address && (
+                <li className="flex items-start gap-3"><MapPin className="h-4 w-4 mt-1 shrink-0" /><span>{splitLines(settings.address).join(', ')}</span></li>
+              )}
+              <li className="flex items-center gap-3"><Phone className="h-4 w-4" /><span>{settings?.contact_phone || 'Contact us for inquiries'}</span></li>
+              {settings?.contact_email && (
+                <li className="flex items-center gap-3"><Mail className="h-4 w-4" /><span>{settings.contact_email}</span></li>
+              )}
             </ul>
           </div>
         </div>
       </div>
       <div className="border-t">
         <div className="container mx-auto px-4 py-6 text-center text-sm text-muted-foreground">
-          © {new Date().getFullYear()} Sri Aarumugan Oil Mills. All rights reserved. GST: 33AEMFS3450E1Z5
+          © {new Date().getFullYear()} {storeName}. All rights reserved.{settings?.gstin && ` GST: ${settings.gstin}`}
         </div>
       </div>
     </footer>
@@ -0,0 +1,39 @@
+import { useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { FileText, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { downloadInvoicePdf, type InvoiceOrder } from '@/lib/invoice';
+
+interface InvoiceButtonProps {
+  order: InvoiceOrder;
+  regenerate?: boolean;
+}
+
+// Issues the order's invoice number on first use, then renders the PDF in the browser.
+export default function InvoiceButton({ order, regenerate = false }: InvoiceButtonProps) {
+  const invoiceMutation = useMutation({
+    mutationFn: async () => {
+      const { data: invoice, error } = await supabase.rpc('issue_invoice', {
+        _order_id: order.id,
+        _regenerate: regenerate,
+      });
+      if (error) throw error;
+      await downloadInvoicePdf(invoice, order);
+      return invoice;
+    },
+    onSuccess: (invoice) => {
+      toast.success(regenerate ? `Invoice ${invoice.invoice_number} regenerated` : `Invoice ${invoice.invoice_number} downloaded`);
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to generate invoice'),
+  });
+
+  const Icon = regenerate ? RefreshCw : FileText;
+
+  return (
+    <Button variant="outline" size="sm" onClick={() => invoiceMutation.mutate()} disabled={invoiceMutation.isPending}>
+      <Icon className="mr-2 h-4 w-4" />
+      {invoiceMutation.isPending ? 'Generating...' : regenerate ? 'Regenerate Invoice' : 'Download Invoice'}
+    </Button>
+  );
+}
@@ -1,5 +1,5 @@
 import { Link, useNavigate, useLocation } from 'react-router-dom';
-import { ShoppingCart, Heart, User, LogOut, LayoutDashboard, Shield, House, Package, Info, Phone, FileText, Menu } from 'lucide-react';
+import { ShoppingCart, Heart, User, LogOut, LayoutDashboard, Shield, House, Package, Info, Phone, FileText, Menu, Repeat } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
 import { useQuery } from '@tanstack/react-query';
@@ -11,6 +11,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { cn } from '@/lib/utils';
+import { getGuestCart } from '@/lib/guest-cart';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 
 export default function Navbar() {
@@ -21,14 +22,13 @@ export default function Navbar() {
   const { data: cartCount } = useQuery({
     queryKey: ['cart-count', user?.id],
     queryFn: async () => {
-      if (!user) return 0;
+      if (!user) return getGuestCart().length;
       const { count } = await supabase
         .from('cart_items')
         .select('*', { count: 'exact', head: true })
         .eq('user_id', user.id);
       return count || 0;
     },
-    enabled: !!user,
   });
 
   return (
@@ -162,6 +162,14 @@ export default function Navbar() {
                       <ShoppingCart className="mr-2 h-4 w-4" />
                       My Orders
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => navigate('/subscriptions')}>
+                      <Repeat className="mr-2 h-4 w-4" />
+                      My Subscriptions
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => navigate('/account')}>
+                      <User className="mr-2 h-4 w-4" />
+                      My Account
+                    </DropdownMenuItem>
                     <DropdownMenuItem onClick={signOut}>
                       <LogOut className="mr-2 h-4 w-4" />
                       Logout
@@ -171,6 +179,19 @@ export default function Navbar() {
               </>
             ) : (
               <div className="flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => navigate('/cart')}
+                  className="relative"
+                >
+                  <ShoppingCart className="h-5 w-5" />
+                  {cartCount > 0 && (
+                    <span className="absolute -top-1 -right-1 bg-primary text-primary-foreground text-xs rounded-full h-5 w-5 flex items-center justify-center">
+                      {cartCount}
+                    </span>
+                  )}
+                </Button>
                 {/* Hide products shortcut on mobile; available in menu */}
                 <Button
                   variant="ghost"
@@ -219,6 +240,16 @@ export default function Navbar() {
                   <Button variant="ghost" className="justify-start gap-2" onClick={() => navigate('/orders')}> 
                     <ShoppingCart className="h-4 w-4" /> My Orders
                   </Button>
+                  {user && (
+                    <Button variant="ghost" className="justify-start gap-2" onClick={() => navigate('/subscriptions')}>
+                      <Repeat className="h-4 w-4" /> My Subscriptions
+                    </Button>
+                  )}
+                  {user && (
+                    <Button variant="ghost" className="justify-start gap-2" onClick={() => navigate('/account')}> 
+                      <User className="h-4 w-4" /> My Account
+                    </Button>
+                  )}
                   {isAdmin && (
                     <Button variant="ghost" className="justify-start gap-2" onClick={() => navigate('/admin')}> 
                       <LayoutDashboard className="h-4 w-4" /> Admin Dashboard
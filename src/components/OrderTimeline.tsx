@@ -0,0 +1,46 @@
+import { describeHistoryEntry } from '@/lib/order-status';
+import { cn } from '@/lib/utils';
+import type { OrderStatusHistoryEntry } from '@/types/order-status';
+
+interface OrderTimelineProps {
+  history: OrderStatusHistoryEntry[];
+  /** The order's customer, whose own changes are shown as customerLabel */
+  customerId: string;
+  customerLabel?: string;
+  /** Names to show for other users who changed the order; anyone else is shown as the store */
+  actorNames?: Map<string, string>;
+}
+
+export default function OrderTimeline({ history, customerId, customerLabel = 'Customer', actorNames }: OrderTimelineProps) {
+  const entries = [...history].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  const describeActor = (changedBy: string | null) => {
+    if (!changedBy) return 'Automatic';
+    if (changedBy === customerId) return customerLabel;
+    return actorNames?.get(changedBy) || 'Store';
+  };
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No status changes recorded</p>;
+  }
+
+  return (
+    <ol className="relative border-l ml-1.5 space-y-3">
+      {entries.map((entry, index) => (
+        <li key={entry.id} className="pl-4 text-sm">
+          <span
+            className={cn(
+              'absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background',
+              index === entries.length - 1 && 'bg-primary border-primary',
+            )}
+          />
+          <p className="font-medium">{describeHistoryEntry(entry)}</p>
+          <p className="text-xs text-muted-foreground">
+            {new Date(entry.created_at).toLocaleString()} • {describeActor(entry.changed_by)}
+          </p>
+          {entry.note && <p className="text-xs text-muted-foreground italic">{entry.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
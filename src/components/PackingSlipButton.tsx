@@ -0,0 +1,29 @@
+import { useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Package } from 'lucide-react';
+import { toast } from 'sonner';
+import { downloadPackingSlipPdf } from '@/lib/packing-slip';
+import type { InvoiceOrder } from '@/lib/invoice';
+
+interface PackingSlipButtonProps {
+  order: InvoiceOrder;
+}
+
+export default function PackingSlipButton({ order }: PackingSlipButtonProps) {
+  const slipMutation = useMutation({
+    mutationFn: async () => {
+      const { data: settings, error } = await supabase.from('store_settings').select('store_name').maybeSingle();
+      if (error) throw error;
+      await downloadPackingSlipPdf(order, settings?.store_name || 'Sri Aarumugan Oil Mills');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to generate packing slip'),
+  });
+
+  return (
+    <Button variant="outline" size="sm" onClick={() => slipMutation.mutate()} disabled={slipMutation.isPending}>
+      <Package className="mr-2 h-4 w-4" />
+      {slipMutation.isPending ? 'Generating...' : 'Packing Slip'}
+    </Button>
+  );
+}
@@ -0,0 +1,25 @@
+import { useQuery } from '@tanstack/react-query';
+import { toQrDataUrl } from '@/lib/qr';
+import { cn } from '@/lib/utils';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+  alt: string;
+  className?: string;
+}
+
+export default function QrCode({ value, size = 240, alt, className }: QrCodeProps) {
+  const { data: src } = useQuery({
+    queryKey: ['qr-code', value, size],
+    queryFn: () => toQrDataUrl(value, size),
+    enabled: !!value,
+    staleTime: Infinity,
+  });
+
+  return src ? (
+    <img src={src} alt={alt} className={cn('object-contain', className)} />
+  ) : (
+    <div className={cn('bg-muted animate-pulse rounded', className)} />
+  );
+}
@@ -0,0 +1,244 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { getPaymentProvider } from '@/lib/payment-providers';
+import { REFUND_METHOD_LABELS, calculateRefundLine, getRefundableLitres } from '@/lib/refunds';
+import type { InvoiceOrder } from '@/lib/invoice';
+import type { RefundMethod, RefundWithItems } from '@/types/refunds';
+import type { ReturnWithItems } from '@/types/returns';
+
+export type RefundableOrder = InvoiceOrder & { refunds: RefundWithItems[] };
+
+interface RefundDialogProps {
+  order: RefundableOrder | null;
+  /** A received return to refund; its lines and reason are fixed and it is marked refunded */
+  returnRequest?: ReturnWithItems | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const defaultMethod = (order: RefundableOrder): RefundMethod =>
+  order.payment_method === 'gateway' ? 'gateway' : order.payment_method === 'cod' ? 'cash' : 'upi';
+
+// Gateway refunds are sent to the gateway first and recorded with its reference; other methods are
+// recorded after the admin has returned the money by hand.
+export default function RefundDialog({ order, returnRequest, onOpenChange }: RefundDialogProps) {
+  const queryClient = useQueryClient();
+  const [litres, setLitres] = useState<Record<string, string>>({});
+  const [additionalAmount, setAdditionalAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [method, setMethod] = useState<RefundMethod>('upi');
+  const [reference, setReference] = useState('');
+
+  useEffect(() => {
+    if (!order) return;
+    if (returnRequest) {
+      setLitres(
+        Object.fromEntries(
+          returnRequest.return_request_items.map((line) => [line.order_item_id, String(line.quantity_litres)]),
+        ),
+      );
+      setAdditionalAmount('');
+      setReason(`Returned: ${returnRequest.reason}`);
+    } else if (order.status === 'cancelled') {
+      // A cancelled order is refunded in full, shipping and fees included
+      const remaining = order.order_items
+        .map((item) => ({ item, quantity: getRefundableLitres(item, order.refunds) }))
+        .filter(({ quantity }) => quantity > 0);
+      const itemsTotal = remaining.reduce(
+        (sum, { item, quantity }) => sum + calculateRefundLine(item, quantity, order.refunds).amount,
+        0,
+      );
+      const extra = Math.round((order.final_amount - order.refunded_amount - itemsTotal) * 100) / 100;
+      setLitres(Object.fromEntries(remaining.map(({ item, quantity }) => [item.id, String(quantity)])));
+      setAdditionalAmount(extra > 0 ? extra.toFixed(2) : '');
+      setReason(order.cancellation_reason ? `Order cancelled: ${order.cancellation_reason}` : 'Order cancelled');
+    } else {
+      setLitres({});
+      setAdditionalAmount('');
+      setReason('');
+    }
+    setMethod(defaultMethod(order));
+    setReference('');
+  }, [order, returnRequest]);
+
+  const lines = useMemo(() => {
+    if (!order) return [];
+    return order.order_items
+      .filter((item) => Number(litres[item.id]) > 0)
+      .map((item) => calculateRefundLine(item, Number(litres[item.id]), order.refunds));
+  }, [order, litres]);
+
+  const total = lines.reduce((sum, line) => sum + line.amount, 0) + (Number(additionalAmount) || 0);
+  const refundable = order ? order.final_amount - order.refunded_amount : 0;
+  const methods = (Object.keys(REFUND_METHOD_LABELS) as RefundMethod[]).filter(
+    (value) => value !== 'gateway' || order?.payment_method === 'gateway',
+  );
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      if (!order) return null;
+      const amount = Math.round(total * 100) / 100;
+      if (amount <= 0) throw new Error('Select items or enter an amount to refund');
+      if (amount > refundable) throw new Error(`Only ₹${refundable.toFixed(2)} can still be refunded`);
+      if (!reason.trim()) throw new Error('Enter a reason for the refund');
+
+      let refundReference = reference.trim();
+      if (method === 'gateway') {
+        const result = await getPaymentProvider(order.payment_method).refund(order, amount);
+        refundReference = result.reference ?? '';
+      } else if (method !== 'cash' && !refundReference) {
+        throw new Error('Enter the refund transaction reference');
+      }
+
+      const { data, error } = returnRequest
+        ? await supabase.rpc('refund_return', {
+            _return_id: returnRequest.id,
+            _additional_amount: Number(additionalAmount) || 0,
+            _method: method,
+            _reference: refundReference || undefined,
+          })
+        : await supabase.rpc('record_refund', {
+            _order_id: order.id,
+            _items: lines.map(({ order_item_id, quantity_litres }) => ({ order_item_id, quantity_litres })),
+            _additional_amount: Number(additionalAmount) || 0,
+            _reason: reason.trim(),
+            _method: method,
+            _reference: refundReference || undefined,
+          });
+      if (error) {
+        // The gateway has already returned the money, so keep its reference for the admin to record by hand
+        throw method === 'gateway'
+          ? new Error(`Gateway refund ${refundReference} succeeded but could not be recorded: ${error.message}`)
+          : error;
+      }
+      return data;
+    },
+    onSuccess: (refund) => {
+      if (refund) toast.success(`Refunded ₹${refund.amount} (credit note ${refund.credit_note_number})`);
+      queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-returns'] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to record refund'),
+  });
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Refund Order #{order?.order_number}</DialogTitle>
+        </DialogHeader>
+        {order && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Paid ₹{order.final_amount}
+              {order.refunded_amount > 0 && `, ₹${order.refunded_amount} already refunded`}. Up to ₹
+              {refundable.toFixed(2)} can be refunded.
+            </p>
+
+            <div className="space-y-3">
+              {order.order_items.map((item) => {
+                const available = getRefundableLitres(item, order.refunds);
+                return (
+                  <div key={item.id} className="flex items-center justify-between gap-4 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{item.product_name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {available} of {item.quantity_litres}L refundable • ₹{item.total_price}
+                      </p>
+                    </div>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={available}
+                      step="0.5"
+                      className="w-24"
+                      placeholder="0"
+                      disabled={available <= 0 || !!returnRequest}
+                      value={litres[item.id] ?? ''}
+                      onChange={(e) => setLitres((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            <div>
+              <Label htmlFor="refund-additional">Additional Amount (₹)</Label>
+              <Input
+                id="refund-additional"
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="0.00"
+                value={additionalAmount}
+                onChange={(e) => setAdditionalAmount(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground mt-1">Shipping, COD fee or goodwill not tied to an item.</p>
+            </div>
+
+            <div>
+              <Label htmlFor="refund-reason">Reason *</Label>
+              <Textarea
+                id="refund-reason"
+                rows={2}
+                disabled={!!returnRequest}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div>
+                <Label>Method</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as RefundMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {methods.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {REFUND_METHOD_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {method !== 'gateway' && (
+                <div>
+                  <Label htmlFor="refund-reference">Reference{method !== 'cash' && ' *'}</Label>
+                  <Input
+                    id="refund-reference"
+                    placeholder={method === 'upi' ? 'UTR' : method === 'bank_transfer' ? 'Transaction ID' : 'Optional'}
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-between border-t pt-3 font-semibold">
+              <span>Refund Total</span>
+              <span>₹{total.toFixed(2)}</span>
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => refundMutation.mutate()} disabled={refundMutation.isPending}>
+            {refundMutation.isPending ? 'Refunding...' : method === 'gateway' ? 'Refund via Gateway' : 'Record Refund'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
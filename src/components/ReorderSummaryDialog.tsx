@@ -0,0 +1,60 @@
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { ReorderResult } from '@/types/cart';
+
+interface ReorderSummaryDialogProps {
+  result: ReorderResult | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Shown after Buy again when some lines could not be copied to the cart as they were
+export default function ReorderSummaryDialog({ result, onOpenChange }: ReorderSummaryDialogProps) {
+  const navigate = useNavigate();
+
+  return (
+    <Dialog open={!!result} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {result?.added ? `${result.added} item${result.added === 1 ? '' : 's'} added to your cart` : 'Nothing added'}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 text-sm">
+          {!!result?.changed.length && (
+            <div>
+              <p className="font-semibold mb-1">Changed since your order</p>
+              <ul className="space-y-1">
+                {result.changed.map((issue, index) => (
+                  <li key={index}>
+                    <span className="font-medium">{issue.product_name}</span>{' '}
+                    <span className="text-muted-foreground">— {issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {!!result?.skipped.length && (
+            <div>
+              <p className="font-semibold mb-1">Not added</p>
+              <ul className="space-y-1">
+                {result.skipped.map((issue, index) => (
+                  <li key={index}>
+                    <span className="font-medium">{issue.product_name}</span>{' '}
+                    <span className="text-muted-foreground">— {issue.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {!!result?.added && <Button onClick={() => navigate('/cart')}>Go to Cart</Button>}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
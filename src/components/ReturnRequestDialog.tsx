@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { MAX_RETURN_PHOTOS, getReturnableLitres, uploadReturnPhoto } from '@/lib/returns';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ReturnWithItems } from '@/types/returns';
+
+export type ReturnableOrder = Pick<Tables<'orders'>, 'id' | 'order_number'> & {
+  order_items: Tables<'order_items'>[];
+  return_requests: ReturnWithItems[];
+};
+
+interface ReturnRequestDialogProps {
+  order: ReturnableOrder | null;
+  /** Last day a return can be requested, shown to the customer */
+  deadline: Date | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ReturnRequestDialog({ order, deadline, onOpenChange }: ReturnRequestDialogProps) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [litres, setLitres] = useState<Record<string, string>>({});
+  const [reason, setReason] = useState('');
+  const [photos, setPhotos] = useState<File[]>([]);
+
+  const orderId = order?.id;
+  useEffect(() => {
+    if (!orderId) return;
+    setLitres({});
+    setReason('');
+    setPhotos([]);
+  }, [orderId]);
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      if (!order || !user) return;
+      const items = order.order_items
+        .filter((item) => Number(litres[item.id]) > 0)
+        .map((item) => ({ order_item_id: item.id, quantity_litres: Number(litres[item.id]) }));
+      if (items.length === 0) throw new Error('Select the items you want to return');
+      if (!reason.trim()) throw new Error('Tell us why you are returning the items');
+
+      const photoPaths = await Promise.all(photos.map((photo) => uploadReturnPhoto(user.id, order.id, photo)));
+      const { error } = await supabase.rpc('request_return', {
+        _order_id: order.id,
+        _items: items,
+        _reason: reason.trim(),
+        _photo_paths: photoPaths,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Return requested. We will let you know once it is reviewed.');
+      queryClient.invalidateQueries({ queryKey: ['orders'] });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to request return'),
+  });
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Return Items from #{order?.order_number}</DialogTitle>
+        </DialogHeader>
+        {order && (
+          <div className="space-y-4">
+            {deadline && (
+              <p className="text-sm text-muted-foreground">
+                Returns for this order can be requested until {deadline.toLocaleDateString()}.
+              </p>
+            )}
+
+            <div className="space-y-3">
+              <Label>Litres to return</Label>
+              {order.order_items.map((item) => {
+                const available = getReturnableLitres(item, order.return_requests);
+                return (
+                  <div key={item.id} className="flex items-center justify-between gap-4 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{item.product_name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {available} of {item.quantity_litres}L can be returned
+                      </p>
+                    </div>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={available}
+                      step="0.5"
+                      className="w-24"
+                      placeholder="0"
+                      disabled={available <= 0}
+                      value={litres[item.id] ?? ''}
+                      onChange={(e) => setLitres((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
+            <div>
+              <Label htmlFor="return-reason">Reason *</Label>
+              <Textarea
+                id="return-reason"
+                rows={3}
+                placeholder="Leaking tin, wrong product, damaged in transit..."
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="return-photos">Photos (optional, up to {MAX_RETURN_PHOTOS})</Label>
+              <Input
+                id="return-photos"
+                type="file"
+                accept="image/*"
+                multiple
+                onChange={(e) => setPhotos(Array.from(e.target.files ?? []).slice(0, MAX_RETURN_PHOTOS))}
+              />
+              <p className="text-xs text-muted-foreground mt-1">Photos of the damage help us approve your return faster.</p>
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => requestMutation.mutate()} disabled={requestMutation.isPending}>
+            {requestMutation.isPending ? 'Submitting...' : 'Request Return'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,288 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ExternalLink } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  CARRIERS,
+  OWN_DELIVERY,
+  SHIPMENT_STATUS_LABELS,
+  getNextShipmentStatuses,
+  getTrackingUrl,
+  getUnshippedLitres,
+} from '@/lib/shipments';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ShipmentStatus, ShipmentWithItems } from '@/types/shipments';
+
+export type ShippableOrder = Pick<Tables<'orders'>, 'id' | 'order_number' | 'status'> & {
+  order_items: Tables<'order_items'>[];
+  shipments: ShipmentWithItems[];
+};
+
+interface ShipmentsDialogProps {
+  order: ShippableOrder | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const OTHER_CARRIER = 'other';
+
+const ACTION_LABELS: Record<ShipmentStatus, string> = {
+  pending: 'Pending',
+  shipped: 'Mark Shipped',
+  delivered: 'Mark Delivered',
+  cancelled: 'Cancel',
+};
+
+// Shipping or delivering a parcel moves the order along with it (see sync_order_status_from_shipments)
+export default function ShipmentsDialog({ order, onOpenChange }: ShipmentsDialogProps) {
+  const queryClient = useQueryClient();
+  const [carrier, setCarrier] = useState(CARRIERS[0].name);
+  const [otherCarrier, setOtherCarrier] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  // null until the admin edits the link, so it follows the carrier's suggestion
+  const [trackingUrl, setTrackingUrl] = useState<string | null>(null);
+  const [shipNow, setShipNow] = useState(true);
+  // Litres per order item in the new parcel; untouched lines default to everything left to ship
+  const [litres, setLitres] = useState<Record<string, string>>({});
+
+  // Reset the form per order, not on every refetch of the same order
+  const orderId = order?.id;
+  useEffect(() => {
+    if (!orderId) return;
+    setCarrier(CARRIERS[0].name);
+    setOtherCarrier('');
+    setTrackingNumber('');
+    setTrackingUrl(null);
+    setShipNow(true);
+    setLitres({});
+  }, [orderId]);
+
+  const carrierName = carrier === OTHER_CARRIER ? otherCarrier.trim() : carrier;
+  const link = trackingUrl ?? getTrackingUrl(carrierName, trackingNumber);
+
+  const allocation = (order?.order_items ?? []).map((item) => {
+    const unshipped = getUnshippedLitres(item, order?.shipments ?? []);
+    return { item, unshipped, value: litres[item.id] ?? String(unshipped) };
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      if (!order) return;
+      if (!carrierName) throw new Error('Enter the carrier name');
+      if (carrierName !== OWN_DELIVERY && !trackingNumber.trim()) throw new Error('Enter the tracking number');
+      if (link.trim() && !/^https?:\/\//.test(link.trim())) {
+        throw new Error('Tracking link must start with http:// or https://');
+      }
+
+      const { error } = await supabase.rpc('create_shipment', {
+        _order_id: order.id,
+        _items: allocation
+          .filter(({ value }) => Number(value) > 0)
+          .map(({ item, value }) => ({ order_item_id: item.id, quantity_litres: Number(value) })),
+        _carrier: carrierName,
+        _tracking_number: trackingNumber.trim() || undefined,
+        _tracking_url: link.trim() || undefined,
+        _ship_now: shipNow,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success(shipNow ? 'Shipment created and marked shipped' : 'Shipment created');
+      setTrackingNumber('');
+      setTrackingUrl(null);
+      setLitres({});
+      invalidate();
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to create shipment'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: ShipmentStatus }) => {
+      const { error } = await supabase.from('shipments').update({ status }).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Shipment updated');
+      invalidate();
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to update shipment'),
+  });
+
+  const canShip =
+    order &&
+    ['confirmed', 'processing', 'partially_shipped', 'shipped'].includes(order.status) &&
+    allocation.some(({ unshipped }) => unshipped > 0);
+
+  return (
+    <Dialog open={!!order} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Shipments for #{order?.order_number}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {order?.shipments.map((shipment) => (
+            <div key={shipment.id} className="border rounded-md p-3 text-sm space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{shipment.carrier || 'Unknown carrier'}</span>
+                <Badge variant="secondary">
+                  {SHIPMENT_STATUS_LABELS[shipment.status as ShipmentStatus] ?? shipment.status}
+                </Badge>
+              </div>
+              <ul className="text-muted-foreground">
+                {shipment.shipment_items.map((line) => (
+                  <li key={line.id}>
+                    {order?.order_items.find((item) => item.id === line.order_item_id)?.product_name} ×{' '}
+                    {line.quantity_litres}L
+                  </li>
+                ))}
+              </ul>
+              {shipment.tracking_number && (
+                <p className="text-muted-foreground">
+                  Tracking: {shipment.tracking_number}
+                  {shipment.tracking_url && (
+                    <a
+                      href={shipment.tracking_url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-flex items-center ml-2 text-primary hover:underline"
+                    >
+                      Track <ExternalLink className="ml-1 h-3 w-3" />
+                    </a>
+                  )}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {shipment.shipped_at && `Shipped ${new Date(shipment.shipped_at).toLocaleString()}`}
+                {shipment.delivered_at && ` • Delivered ${new Date(shipment.delivered_at).toLocaleString()}`}
+              </p>
+              {getNextShipmentStatuses(shipment.status).length > 0 && (
+                <div className="flex gap-2">
+                  {getNextShipmentStatuses(shipment.status).map((status) => (
+                    <Button
+                      key={status}
+                      size="sm"
+                      variant={status === 'cancelled' ? 'outline' : 'default'}
+                      onClick={() => updateMutation.mutate({ id: shipment.id, status })}
+                      disabled={updateMutation.isPending}
+                    >
+                      {ACTION_LABELS[status]}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          {order && order.shipments.length === 0 && <p className="text-sm text-muted-foreground">No shipments yet</p>}
+        </div>
+
+        {canShip ? (
+          <div className="border-t pt-4 space-y-4">
+            <p className="font-semibold text-sm">New Shipment</p>
+            <div className="space-y-2">
+              <Label>Items in this parcel (litres)</Label>
+              {allocation.map(({ item, unshipped, value }) => (
+                <div key={item.id} className="flex items-center justify-between gap-4 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{item.product_name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {unshipped} of {item.quantity_litres}L left to ship
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={unshipped}
+                    step="0.5"
+                    className="w-24"
+                    disabled={unshipped <= 0}
+                    value={value}
+                    onChange={(e) => setLitres((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="grid sm:grid-cols-2 gap-4">
+              <div>
+                <Label>Carrier</Label>
+                <Select
+                  value={carrier}
+                  onValueChange={(value) => {
+                    setCarrier(value);
+                    setTrackingUrl(null);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CARRIERS.map(({ name }) => (
+                      <SelectItem key={name} value={name}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                    <SelectItem value={OTHER_CARRIER}>Other</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {carrier === OTHER_CARRIER && (
+                <div>
+                  <Label htmlFor="shipment-carrier">Carrier Name</Label>
+                  <Input id="shipment-carrier" value={otherCarrier} onChange={(e) => setOtherCarrier(e.target.value)} />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="shipment-tracking">
+                  Tracking Number{carrierName !== OWN_DELIVERY && ' *'}
+                </Label>
+                <Input
+                  id="shipment-tracking"
+                  value={trackingNumber}
+                  onChange={(e) => setTrackingNumber(e.target.value)}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="shipment-url">Tracking Link</Label>
+              <Input
+                id="shipment-url"
+                placeholder="https://"
+                value={link}
+                onChange={(e) => setTrackingUrl(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground mt-1">Shown to the customer on their Orders page.</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="shipment-ship-now" checked={shipNow} onCheckedChange={setShipNow} />
+              <Label htmlFor="shipment-ship-now">Handed to the carrier now</Label>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+                {createMutation.isPending ? 'Saving...' : 'Create Shipment'}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          order && (
+            <p className="text-sm text-muted-foreground border-t pt-4">
+              {order.status === 'pending'
+                ? 'Confirm the order before shipping it.'
+                : ['cancelled', 'delivered'].includes(order.status)
+                  ? `New shipments cannot be added to a ${order.status} order.`
+                  : 'Every item is already packed in a parcel.'}
+            </p>
+          )
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
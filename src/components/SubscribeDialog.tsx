@@ -0,0 +1,210 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { useAddresses } from '@/hooks/use-addresses';
+import { getAddressLines } from '@/lib/address';
+import { getPaymentProvider } from '@/lib/payment-providers';
+import { describeFrequency, toDateInputValue } from '@/lib/subscriptions';
+import type { OrderItemInput, OrderQuote } from '@/types/orders';
+import type { PaymentMethod } from '@/types/payments';
+import type { IntervalUnit } from '@/types/subscriptions';
+
+interface SubscribeDialogProps {
+  /** Lines to deliver on every run; the dialog is open while this is set */
+  items: OrderItemInput[] | null;
+  /** Past order the subscription was started from */
+  sourceOrderId?: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+const inDays = (days: number) => toDateInputValue(new Date(Date.now() + days * 24 * 60 * 60 * 1000));
+
+// Each delivery is placed by run_due_subscriptions at the prices of that day; the quote shown is today's
+export default function SubscribeDialog({ items, sourceOrderId, onOpenChange }: SubscribeDialogProps) {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: addresses } = useAddresses();
+  const [intervalCount, setIntervalCount] = useState('1');
+  const [intervalUnit, setIntervalUnit] = useState<IntervalUnit>('month');
+  const [startOn, setStartOn] = useState(inDays(7));
+  const [addressId, setAddressId] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('upi');
+
+  const open = !!items;
+  useEffect(() => {
+    if (!open) return;
+    setIntervalCount('1');
+    setIntervalUnit('month');
+    setStartOn(inDays(7));
+    setPaymentMethod('upi');
+  }, [open]);
+
+  useEffect(() => {
+    if (!addressId && addresses?.length) setAddressId(addresses[0].id);
+  }, [addresses, addressId]);
+
+  const { data: quote, error: quoteError } = useQuery({
+    queryKey: ['subscription-quote', items, addressId, paymentMethod],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('quote_order', {
+        _items: items ?? [],
+        _address_id: addressId || undefined,
+        _payment_method: paymentMethod,
+      });
+      if (error) throw error;
+      return data as unknown as OrderQuote;
+    },
+    enabled: open && !!addressId,
+    retry: false,
+  });
+
+  const count = parseInt(intervalCount, 10);
+
+  const subscribeMutation = useMutation({
+    mutationFn: async () => {
+      if (!items) return;
+      if (!addressId) throw new Error('Please select a shipping address');
+      if (isNaN(count) || count < 1 || count > 52) throw new Error('Deliver every 1 to 52 weeks or months');
+
+      const { error } = await supabase.rpc('create_subscription', {
+        _items: items,
+        _address_id: addressId,
+        _payment_method: paymentMethod,
+        _interval_unit: intervalUnit,
+        _interval_count: count,
+        _start_on: startOn,
+        _source_order_id: sourceOrderId,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Subscription created');
+      queryClient.invalidateQueries({ queryKey: ['subscriptions'] });
+      onOpenChange(false);
+      navigate('/subscriptions');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to create subscription'),
+  });
+
+  const methods: PaymentMethod[] = quote?.gateway_available ? ['upi', 'gateway', 'cod'] : ['upi', 'cod'];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Subscribe & Deliver Regularly</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="subscription-count">Deliver every</Label>
+              <Input
+                id="subscription-count"
+                type="number"
+                min={1}
+                max={52}
+                step={1}
+                value={intervalCount}
+                onChange={(e) => setIntervalCount(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>&nbsp;</Label>
+              <Select value={intervalUnit} onValueChange={(value) => setIntervalUnit(value as IntervalUnit)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="week">{count === 1 ? 'Week' : 'Weeks'}</SelectItem>
+                  <SelectItem value="month">{count === 1 ? 'Month' : 'Months'}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="subscription-start">First Delivery Order On</Label>
+            <Input
+              id="subscription-start"
+              type="date"
+              min={toDateInputValue(new Date())}
+              value={startOn}
+              onChange={(e) => setStartOn(e.target.value)}
+            />
+          </div>
+
+          <div>
+            <Label>Shipping Address</Label>
+            {addresses && addresses.length > 0 ? (
+              <Select value={addressId} onValueChange={setAddressId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an address" />
+                </SelectTrigger>
+                <SelectContent>
+                  {addresses.map((address) => (
+                    <SelectItem key={address.id} value={address.id}>
+                      {getAddressLines(address).slice(0, 2).join(', ')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <p className="text-sm text-muted-foreground">Add a shipping address at checkout first.</p>
+            )}
+          </div>
+
+          <div>
+            <Label>Payment Method</Label>
+            <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {methods.map((method) => (
+                  <SelectItem key={method} value={method}>
+                    {getPaymentProvider(method).label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-1">
+              {paymentMethod === 'cod'
+                ? quote && !quote.cod_available
+                  ? quote.cod_unavailable_reason
+                  : 'Pay in cash on each delivery.'
+                : 'We will send you a payment request for each order; pay it within 3 days so we can dispatch.'}
+            </p>
+          </div>
+
+          {quoteError ? (
+            <p className="text-sm text-destructive">{(quoteError as Error).message}</p>
+          ) : (
+            quote && (
+              <div className="flex justify-between border-t pt-3 text-sm">
+                <span className="font-semibold">
+                  {describeFrequency(intervalUnit, isNaN(count) ? 1 : count)} at today's prices
+                </span>
+                <span className="font-semibold">₹{quote.final_amount.toFixed(2)}</span>
+              </div>
+            )
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => subscribeMutation.mutate()} disabled={subscribeMutation.isPending || !addressId}>
+            {subscribeMutation.isPending ? 'Subscribing...' : 'Subscribe'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
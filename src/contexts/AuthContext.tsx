@@ -2,7 +2,10 @@ import { createContext, useContext, useEffect, useState, ReactNode } from 'react
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
 import { playNotificationTone } from '@/lib/utils';
+import { mergeGuestCart } from '@/lib/guest-cart';
 
 interface AuthContextType {
   user: User | null;
@@ -20,6 +23,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [isAdmin, setIsAdmin] = useState(false);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
 
   useEffect(() => {
     // Set up auth state listener
@@ -42,6 +46,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             if (event === 'SIGNED_IN' && !!data) {
               playNotificationTone();
             }
+
+            if (event === 'SIGNED_IN') {
+              try {
+                const merged = await mergeGuestCart(session.user.id);
+                if (merged > 0) {
+                  toast.success('Items from your guest cart were added to your cart');
+                }
+              } catch {
+                // The guest cart is only cleared after a successful merge, so the next sign-in retries it
+                toast.error('Items from your guest cart could not be added to your cart. Please sign in again to retry.');
+              }
+              queryClient.invalidateQueries({ queryKey: ['cart'] });
+              queryClient.invalidateQueries({ queryKey: ['cart-count'] });
+            }
           }, 0);
         } else {
           setIsAdmin(false);
@@ -71,7 +89,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     });
 
     return () => subscription.unsubscribe();
-  }, []);
+  }, [queryClient]);
 
   const signOut = async () => {
     await supabase.auth.signOut();
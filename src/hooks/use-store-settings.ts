@@ -0,0 +1,10 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchStoreSettings } from '@/lib/store-settings';
+
+export function useStoreSettings() {
+  return useQuery({
+    queryKey: ['store-settings'],
+    queryFn: fetchStoreSettings,
+    staleTime: 5 * 60 * 1000,
+  });
+}
@@ -14,6 +14,54 @@ export type Database = {
   }
   public: {
     Tables: {
+      addresses: {
+        Row: {
+          city: string
+          created_at: string
+          full_name: string
+          id: string
+          is_default: boolean
+          landmark: string | null
+          line1: string
+          line2: string | null
+          phone: string
+          pincode: string
+          state: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          city: string
+          created_at?: string
+          full_name: string
+          id?: string
+          is_default?: boolean
+          landmark?: string | null
+          line1: string
+          line2?: string | null
+          phone: string
+          pincode: string
+          state: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          city?: string
+          created_at?: string
+          full_name?: string
+          id?: string
+          is_default?: boolean
+          landmark?: string | null
+          line1?: string
+          line2?: string | null
+          phone?: string
+          pincode?: string
+          state?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       cart_items: {
         Row: {
           created_at: string
@@ -58,45 +106,348 @@ export type Database = {
           },
         ]
       }
+      checkout_sessions: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          id: string
+          idempotency_key: string
+          order_id: string | null
+          request_hash: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          idempotency_key: string
+          order_id?: string | null
+          request_hash: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          idempotency_key?: string
+          order_id?: string | null
+          request_hash?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checkout_sessions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cod_settings: {
+        Row: {
+          created_at: string
+          fee: number
+          id: boolean
+          is_enabled: boolean
+          max_order_value: number | null
+          pincode_ranges: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          fee?: number
+          id?: boolean
+          is_enabled?: boolean
+          max_order_value?: number | null
+          pincode_ranges?: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          fee?: number
+          id?: boolean
+          is_enabled?: boolean
+          max_order_value?: number | null
+          pincode_ranges?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      coupon_redemptions: {
+        Row: {
+          coupon_id: string
+          created_at: string
+          discount_amount: number
+          id: string
+          order_id: string
+          user_id: string
+        }
+        Insert: {
+          coupon_id: string
+          created_at?: string
+          discount_amount: number
+          id?: string
+          order_id: string
+          user_id: string
+        }
+        Update: {
+          coupon_id?: string
+          created_at?: string
+          discount_amount?: number
+          id?: string
+          order_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coupon_redemptions_coupon_id_fkey"
+            columns: ["coupon_id"]
+            isOneToOne: false
+            referencedRelation: "coupons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coupon_redemptions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       coupons: {
         Row: {
+          category_ids: string[]
           code: string
           created_at: string
           discount_type: string
           discount_value: number
+          first_order_only: boolean
           id: string
           is_active: boolean
           max_discount_amount: number | null
+          max_redemptions: number | null
+          max_redemptions_per_user: number | null
           min_order_amount: number | null
+          product_ids: string[]
           valid_from: string
           valid_until: string | null
         }
         Insert: {
+          category_ids?: string[]
           code: string
           created_at?: string
           discount_type: string
           discount_value: number
+          first_order_only?: boolean
           id?: string
           is_active?: boolean
           max_discount_amount?: number | null
+          max_redemptions?: number | null
+          max_redemptions_per_user?: number | null
           min_order_amount?: number | null
+          product_ids?: string[]
           valid_from?: string
           valid_until?: string | null
         }
         Update: {
+          category_ids?: string[]
           code?: string
           created_at?: string
           discount_type?: string
           discount_value?: number
+          first_order_only?: boolean
           id?: string
           is_active?: boolean
           max_discount_amount?: number | null
+          max_redemptions?: number | null
+          max_redemptions_per_user?: number | null
           min_order_amount?: number | null
+          product_ids?: string[]
           valid_from?: string
           valid_until?: string | null
         }
         Relationships: []
       }
+      credit_note_series: {
+        Row: {
+          financial_year: string
+          last_number: number
+        }
+        Insert: {
+          financial_year: string
+          last_number?: number
+        }
+        Update: {
+          financial_year?: string
+          last_number?: number
+        }
+        Relationships: []
+      }
+      delivery_zone_rates: {
+        Row: {
+          charge: number
+          created_at: string
+          id: string
+          max_litres: number | null
+          min_litres: number
+          zone_id: string
+        }
+        Insert: {
+          charge: number
+          created_at?: string
+          id?: string
+          max_litres?: number | null
+          min_litres?: number
+          zone_id: string
+        }
+        Update: {
+          charge?: number
+          created_at?: string
+          id?: string
+          max_litres?: number | null
+          min_litres?: number
+          zone_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "delivery_zone_rates_zone_id_fkey"
+            columns: ["zone_id"]
+            isOneToOne: false
+            referencedRelation: "delivery_zones"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      delivery_zones: {
+        Row: {
+          created_at: string
+          free_shipping_threshold: number | null
+          id: string
+          is_active: boolean
+          name: string
+          pincode_ranges: Json
+          priority: number
+          states: string[]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          free_shipping_threshold?: number | null
+          id?: string
+          is_active?: boolean
+          name: string
+          pincode_ranges?: Json
+          priority?: number
+          states?: string[]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          free_shipping_threshold?: number | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          pincode_ranges?: Json
+          priority?: number
+          states?: string[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      gateway_settings: {
+        Row: {
+          created_at: string
+          id: boolean
+          is_enabled: boolean
+          provider: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: boolean
+          is_enabled?: boolean
+          provider?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: boolean
+          is_enabled?: boolean
+          provider?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      invoice_series: {
+        Row: {
+          financial_year: string
+          last_number: number
+        }
+        Insert: {
+          financial_year: string
+          last_number?: number
+        }
+        Update: {
+          financial_year?: string
+          last_number?: number
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          created_at: string
+          financial_year: string
+          id: string
+          invoice_number: string
+          issued_at: string
+          order_id: string
+          regenerated_at: string | null
+          seller_address: string
+          seller_gstin: string | null
+          seller_name: string
+          seller_state: string
+          sequence_number: number
+        }
+        Insert: {
+          created_at?: string
+          financial_year: string
+          id?: string
+          invoice_number: string
+          issued_at?: string
+          order_id: string
+          regenerated_at?: string | null
+          seller_address: string
+          seller_gstin?: string | null
+          seller_name: string
+          seller_state: string
+          sequence_number: number
+        }
+        Update: {
+          created_at?: string
+          financial_year?: string
+          id?: string
+          invoice_number?: string
+          issued_at?: string
+          order_id?: string
+          regenerated_at?: string | null
+          seller_address?: string
+          seller_gstin?: string | null
+          seller_name?: string
+          seller_state?: string
+          sequence_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           content: string
@@ -159,8 +510,12 @@ export type Database = {
       }
       order_items: {
         Row: {
+          cgst_amount: number
           created_at: string
+          gst_rate: number
+          hsn_code: string | null
           id: string
+          igst_amount: number
           measurement_label: string | null
           measurement_value: string | null
           order_id: string
@@ -168,12 +523,18 @@ export type Database = {
           product_id: string
           product_name: string
           quantity_litres: number
+          sgst_amount: number
+          taxable_amount: number
           total_price: number
           variant_selection: Json | null
         }
         Insert: {
+          cgst_amount?: number
           created_at?: string
+          gst_rate?: number
+          hsn_code?: string | null
           id?: string
+          igst_amount?: number
           measurement_label?: string | null
           measurement_value?: string | null
           order_id: string
@@ -181,12 +542,18 @@ export type Database = {
           product_id: string
           product_name: string
           quantity_litres: number
+          sgst_amount?: number
+          taxable_amount?: number
           total_price: number
           variant_selection?: Json | null
         }
         Update: {
+          cgst_amount?: number
           created_at?: string
+          gst_rate?: number
+          hsn_code?: string | null
           id?: string
+          igst_amount?: number
           measurement_label?: string | null
           measurement_value?: string | null
           order_id?: string
@@ -194,6 +561,8 @@ export type Database = {
           product_id?: string
           product_name?: string
           quantity_litres?: number
+          sgst_amount?: number
+          taxable_amount?: number
           total_price?: number
           variant_selection?: Json | null
         }
@@ -214,106 +583,315 @@ export type Database = {
           },
         ]
       }
+      order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          field: string
+          from_status: string | null
+          id: string
+          note: string | null
+          order_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          field: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id: string
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          field?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       orders: {
         Row: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          cash_collected_at: string | null
+          cgst_amount: number
+          cod_fee: number
           coupon_code: string | null
           created_at: string
           discount_amount: number | null
           final_amount: number
           id: string
+          igst_amount: number
+          net_paid_amount: number | null
           order_number: string
+          payment_due_at: string | null
+          payment_method: string
+          payment_reference: string | null
           payment_status: string
+          prices_include_tax: boolean
+          refund_due_amount: number
+          refunded_amount: number
+          sgst_amount: number
           shipping_address: string
+          shipping_address_snapshot: Json | null
+          shipping_amount: number
           status: string
+          stock_status: string
+          subscription_id: string | null
+          tax_amount: number
+          taxable_amount: number
           total_amount: number
           updated_at: string
           user_id: string
         }
         Insert: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          cash_collected_at?: string | null
+          cgst_amount?: number
+          cod_fee?: number
           coupon_code?: string | null
           created_at?: string
           discount_amount?: number | null
           final_amount: number
           id?: string
+          igst_amount?: number
+          net_paid_amount?: never
           order_number: string
+          payment_due_at?: string | null
+          payment_method?: string
+          payment_reference?: string | null
           payment_status?: string
+          prices_include_tax?: boolean
+          refund_due_amount?: number
+          refunded_amount?: number
+          sgst_amount?: number
           shipping_address: string
+          shipping_address_snapshot?: Json | null
+          shipping_amount?: number
           status?: string
+          stock_status?: string
+          subscription_id?: string | null
+          tax_amount?: number
+          taxable_amount?: number
           total_amount: number
           updated_at?: string
           user_id: string
         }
         Update: {
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          cash_collected_at?: string | null
+          cgst_amount?: number
+          cod_fee?: number
           coupon_code?: string | null
           created_at?: string
           discount_amount?: number | null
           final_amount?: number
           id?: string
+          igst_amount?: number
+          net_paid_amount?: never
           order_number?: string
+          payment_due_at?: string | null
+          payment_method?: string
+          payment_reference?: string | null
           payment_status?: string
+          prices_include_tax?: boolean
+          refund_due_amount?: number
+          refunded_amount?: number
+          sgst_amount?: number
           shipping_address?: string
+          shipping_address_snapshot?: Json | null
+          shipping_amount?: number
           status?: string
+          stock_status?: string
+          subscription_id?: string | null
+          tax_amount?: number
+          taxable_amount?: number
           total_amount?: number
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "orders_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      products: {
+      payment_transactions: {
         Row: {
-          category_id: string | null
+          amount: number
           created_at: string
-          description: string | null
-          featured_in_offers: boolean
           id: string
-          image_url: string | null
-          is_active: boolean
-          measurement_enabled: boolean
-          measurement_title: string | null
-          measurement_values: string[] | null
-          name: string
-          offer_price_per_litre: number | null
-          price_per_litre: number
-          stock_quantity: number
+          order_id: string
+          payer_vpa: string | null
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          screenshot_path: string | null
+          status: string
           updated_at: string
-          variant_enabled: boolean
-          variant_title: string | null
-          variant_values: Json | null
+          user_id: string
+          utr: string
         }
         Insert: {
-          category_id?: string | null
+          amount: number
           created_at?: string
-          description?: string | null
-          featured_in_offers?: boolean
           id?: string
-          image_url?: string | null
-          is_active?: boolean
-          measurement_enabled?: boolean
-          measurement_title?: string | null
-          measurement_values?: string[] | null
-          name: string
-          offer_price_per_litre?: number | null
-          price_per_litre: number
-          stock_quantity?: number
+          order_id: string
+          payer_vpa?: string | null
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          screenshot_path?: string | null
+          status?: string
           updated_at?: string
-          variant_enabled?: boolean
-          variant_title?: string | null
-          variant_values?: Json | null
+          user_id: string
+          utr: string
         }
         Update: {
-          category_id?: string | null
+          amount?: number
           created_at?: string
-          description?: string | null
-          featured_in_offers?: boolean
           id?: string
-          image_url?: string | null
-          is_active?: boolean
+          order_id?: string
+          payer_vpa?: string | null
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          screenshot_path?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+          utr?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_transactions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_price_tiers: {
+        Row: {
+          created_at: string
+          id: string
+          min_litres: number
+          price_per_litre: number
+          product_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          min_litres: number
+          price_per_litre: number
+          product_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          min_litres?: number
+          price_per_litre?: number
+          product_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_price_tiers_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          category_id: string | null
+          created_at: string
+          description: string | null
+          featured_in_offers: boolean
+          gst_rate: number | null
+          hsn_code: string | null
+          id: string
+          image_url: string | null
+          is_active: boolean
+          measurement_enabled: boolean
+          measurement_title: string | null
+          measurement_values: string[] | null
+          name: string
+          offer_price_per_litre: number | null
+          price_per_litre: number
+          reserved_quantity: number
+          stock_quantity: number
+          updated_at: string
+          variant_enabled: boolean
+          variant_title: string | null
+          variant_values: Json | null
+        }
+        Insert: {
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          featured_in_offers?: boolean
+          gst_rate?: number | null
+          hsn_code?: string | null
+          id?: string
+          image_url?: string | null
+          is_active?: boolean
+          measurement_enabled?: boolean
+          measurement_title?: string | null
+          measurement_values?: string[] | null
+          name: string
+          offer_price_per_litre?: number | null
+          price_per_litre: number
+          reserved_quantity?: number
+          stock_quantity?: number
+          updated_at?: string
+          variant_enabled?: boolean
+          variant_title?: string | null
+          variant_values?: Json | null
+        }
+        Update: {
+          category_id?: string | null
+          created_at?: string
+          description?: string | null
+          featured_in_offers?: boolean
+          gst_rate?: number | null
+          hsn_code?: string | null
+          id?: string
+          image_url?: string | null
+          is_active?: boolean
           measurement_enabled?: boolean
           measurement_title?: string | null
           measurement_values?: string[] | null
           name?: string
           offer_price_per_litre?: number | null
           price_per_litre?: number
+          reserved_quantity?: number
           stock_quantity?: number
           updated_at?: string
           variant_enabled?: boolean
@@ -334,6 +912,8 @@ export type Database = {
         Row: {
           created_at: string
           description: string | null
+          gst_rate: number | null
+          hsn_code: string | null
           id: string
           is_active: boolean
           name: string
@@ -343,6 +923,8 @@ export type Database = {
         Insert: {
           created_at?: string
           description?: string | null
+          gst_rate?: number | null
+          hsn_code?: string | null
           id?: string
           is_active?: boolean
           name: string
@@ -352,6 +934,8 @@ export type Database = {
         Update: {
           created_at?: string
           description?: string | null
+          gst_rate?: number | null
+          hsn_code?: string | null
           id?: string
           is_active?: boolean
           name?: string
@@ -387,6 +971,236 @@ export type Database = {
         }
         Relationships: []
       }
+      refund_items: {
+        Row: {
+          amount: number
+          cgst_amount: number
+          id: string
+          igst_amount: number
+          order_item_id: string
+          product_name: string
+          quantity_litres: number
+          refund_id: string
+          sgst_amount: number
+          taxable_amount: number
+        }
+        Insert: {
+          amount: number
+          cgst_amount?: number
+          id?: string
+          igst_amount?: number
+          order_item_id: string
+          product_name: string
+          quantity_litres: number
+          refund_id: string
+          sgst_amount?: number
+          taxable_amount: number
+        }
+        Update: {
+          amount?: number
+          cgst_amount?: number
+          id?: string
+          igst_amount?: number
+          order_item_id?: string
+          product_name?: string
+          quantity_litres?: number
+          refund_id?: string
+          sgst_amount?: number
+          taxable_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refund_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "refund_items_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      refunds: {
+        Row: {
+          additional_amount: number
+          amount: number
+          created_at: string
+          created_by: string | null
+          credit_note_number: string
+          financial_year: string
+          id: string
+          invoice_number: string | null
+          method: string
+          order_id: string
+          reason: string
+          reference: string | null
+          seller_address: string
+          seller_gstin: string | null
+          seller_name: string
+          seller_state: string
+          sequence_number: number
+        }
+        Insert: {
+          additional_amount?: number
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          credit_note_number: string
+          financial_year: string
+          id?: string
+          invoice_number?: string | null
+          method: string
+          order_id: string
+          reason: string
+          reference?: string | null
+          seller_address: string
+          seller_gstin?: string | null
+          seller_name: string
+          seller_state: string
+          sequence_number: number
+        }
+        Update: {
+          additional_amount?: number
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          credit_note_number?: string
+          financial_year?: string
+          id?: string
+          invoice_number?: string | null
+          method?: string
+          order_id?: string
+          reason?: string
+          reference?: string | null
+          seller_address?: string
+          seller_gstin?: string | null
+          seller_name?: string
+          seller_state?: string
+          sequence_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      return_request_items: {
+        Row: {
+          id: string
+          order_item_id: string
+          product_name: string
+          quantity_litres: number
+          return_request_id: string
+        }
+        Insert: {
+          id?: string
+          order_item_id: string
+          product_name: string
+          quantity_litres: number
+          return_request_id: string
+        }
+        Update: {
+          id?: string
+          order_item_id?: string
+          product_name?: string
+          quantity_litres?: number
+          return_request_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "return_request_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_request_items_return_request_id_fkey"
+            columns: ["return_request_id"]
+            isOneToOne: false
+            referencedRelation: "return_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      return_requests: {
+        Row: {
+          admin_note: string | null
+          created_at: string
+          id: string
+          order_id: string
+          photo_paths: string[]
+          reason: string
+          received_at: string | null
+          refund_id: string | null
+          released_from_reservation: boolean
+          restocked: boolean
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          admin_note?: string | null
+          created_at?: string
+          id?: string
+          order_id: string
+          photo_paths?: string[]
+          reason: string
+          received_at?: string | null
+          refund_id?: string | null
+          released_from_reservation?: boolean
+          restocked?: boolean
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          admin_note?: string | null
+          created_at?: string
+          id?: string
+          order_id?: string
+          photo_paths?: string[]
+          reason?: string
+          received_at?: string | null
+          refund_id?: string | null
+          released_from_reservation?: boolean
+          restocked?: boolean
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "return_requests_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "return_requests_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "refunds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       reviews: {
         Row: {
           comment: string | null
@@ -425,6 +1239,42 @@ export type Database = {
           },
         ]
       }
+      shipment_items: {
+        Row: {
+          id: string
+          order_item_id: string
+          quantity_litres: number
+          shipment_id: string
+        }
+        Insert: {
+          id?: string
+          order_item_id: string
+          quantity_litres: number
+          shipment_id: string
+        }
+        Update: {
+          id?: string
+          order_item_id?: string
+          quantity_litres?: number
+          shipment_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shipment_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shipment_items_shipment_id_fkey"
+            columns: ["shipment_id"]
+            isOneToOne: false
+            referencedRelation: "shipments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       shipments: {
         Row: {
           carrier: string | null
@@ -435,6 +1285,7 @@ export type Database = {
           shipped_at: string | null
           status: string
           tracking_number: string | null
+          tracking_url: string | null
           updated_at: string
         }
         Insert: {
@@ -446,6 +1297,7 @@ export type Database = {
           shipped_at?: string | null
           status?: string
           tracking_number?: string | null
+          tracking_url?: string | null
           updated_at?: string
         }
         Update: {
@@ -457,6 +1309,7 @@ export type Database = {
           shipped_at?: string | null
           status?: string
           tracking_number?: string | null
+          tracking_url?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -469,6 +1322,229 @@ export type Database = {
           },
         ]
       }
+      store_settings: {
+        Row: {
+          address: string
+          business_hours: string | null
+          contact_email: string | null
+          contact_phone: string | null
+          created_at: string
+          established: string | null
+          gst_registration_date: string | null
+          id: boolean
+          legal_status: string | null
+          payment_window_minutes: number
+          privacy_policy: string | null
+          proprietor: string | null
+          refund_policy: string | null
+          return_window_days: number
+          shipping_policy: string | null
+          store_name: string
+          tagline: string | null
+          terms_and_conditions: string | null
+          updated_at: string
+          upi_id: string
+          upi_payee_name: string
+          whatsapp_number: string
+        }
+        Insert: {
+          address: string
+          business_hours?: string | null
+          contact_email?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          established?: string | null
+          gst_registration_date?: string | null
+          id?: boolean
+          legal_status?: string | null
+          payment_window_minutes?: number
+          privacy_policy?: string | null
+          proprietor?: string | null
+          refund_policy?: string | null
+          return_window_days?: number
+          shipping_policy?: string | null
+          store_name: string
+          tagline?: string | null
+          terms_and_conditions?: string | null
+          updated_at?: string
+          upi_id: string
+          upi_payee_name: string
+          whatsapp_number: string
+        }
+        Update: {
+          address?: string
+          business_hours?: string | null
+          contact_email?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          established?: string | null
+          gst_registration_date?: string | null
+          id?: boolean
+          legal_status?: string | null
+          payment_window_minutes?: number
+          privacy_policy?: string | null
+          proprietor?: string | null
+          refund_policy?: string | null
+          return_window_days?: number
+          shipping_policy?: string | null
+          store_name?: string
+          tagline?: string | null
+          terms_and_conditions?: string | null
+          updated_at?: string
+          upi_id?: string
+          upi_payee_name?: string
+          whatsapp_number?: string
+        }
+        Relationships: []
+      }
+      subscription_items: {
+        Row: {
+          id: string
+          measurement_label: string | null
+          measurement_value: string | null
+          product_id: string
+          quantity_litres: number
+          subscription_id: string
+          variant_selection: Json | null
+        }
+        Insert: {
+          id?: string
+          measurement_label?: string | null
+          measurement_value?: string | null
+          product_id: string
+          quantity_litres: number
+          subscription_id: string
+          variant_selection?: Json | null
+        }
+        Update: {
+          id?: string
+          measurement_label?: string | null
+          measurement_value?: string | null
+          product_id?: string
+          quantity_litres?: number
+          subscription_id?: string
+          variant_selection?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscription_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscription_items_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subscriptions: {
+        Row: {
+          address_id: string | null
+          created_at: string
+          id: string
+          interval_count: number
+          interval_unit: string
+          last_error: string | null
+          last_order_id: string | null
+          last_run_at: string | null
+          next_run_on: string
+          payment_method: string
+          source_order_id: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          address_id?: string | null
+          created_at?: string
+          id?: string
+          interval_count: number
+          interval_unit: string
+          last_error?: string | null
+          last_order_id?: string | null
+          last_run_at?: string | null
+          next_run_on: string
+          payment_method?: string
+          source_order_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          address_id?: string | null
+          created_at?: string
+          id?: string
+          interval_count?: number
+          interval_unit?: string
+          last_error?: string | null
+          last_order_id?: string | null
+          last_run_at?: string | null
+          next_run_on?: string
+          payment_method?: string
+          source_order_id?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscriptions_address_id_fkey"
+            columns: ["address_id"]
+            isOneToOne: false
+            referencedRelation: "addresses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscriptions_last_order_id_fkey"
+            columns: ["last_order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "subscriptions_source_order_id_fkey"
+            columns: ["source_order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tax_settings: {
+        Row: {
+          created_at: string
+          default_gst_rate: number
+          id: boolean
+          prices_include_tax: boolean
+          seller_gstin: string | null
+          seller_state: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          default_gst_rate?: number
+          id?: boolean
+          prices_include_tax?: boolean
+          seller_gstin?: string | null
+          seller_state: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          default_gst_rate?: number
+          id?: boolean
+          prices_include_tax?: boolean
+          seller_gstin?: string | null
+          seller_state?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -524,6 +1600,140 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      calculate_shipping: {
+        Args: {
+          _litres: number
+          _pincode: string
+          _state: string
+          _subtotal: number
+        }
+        Returns: Json
+      }
+      cancel_order: {
+        Args: {
+          _order_id: string
+          _reason: string
+        }
+        Returns: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          cash_collected_at: string | null
+          cgst_amount: number
+          cod_fee: number
+          coupon_code: string | null
+          created_at: string
+          discount_amount: number | null
+          final_amount: number
+          id: string
+          igst_amount: number
+          net_paid_amount: number | null
+          order_number: string
+          payment_due_at: string | null
+          payment_method: string
+          payment_reference: string | null
+          payment_status: string
+          prices_include_tax: boolean
+          refund_due_amount: number
+          refunded_amount: number
+          sgst_amount: number
+          shipping_address: string
+          shipping_address_snapshot: Json | null
+          shipping_amount: number
+          status: string
+          stock_status: string
+          tax_amount: number
+          taxable_amount: number
+          total_amount: number
+          updated_at: string
+          user_id: string
+        }
+      }
+      close_return: {
+        Args: {
+          _note?: string
+          _return_id: string
+        }
+        Returns: {
+          admin_note: string | null
+          created_at: string
+          id: string
+          order_id: string
+          photo_paths: string[]
+          reason: string
+          received_at: string | null
+          refund_id: string | null
+          released_from_reservation: boolean
+          restocked: boolean
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      complete_mock_gateway_payment: {
+        Args: {
+          _order_id: string
+          _reference: string
+        }
+        Returns: Database["public"]["Tables"]["orders"]["Row"]
+      }
+      coupon_redemption_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          coupon_id: string
+          redemptions: number
+        }[]
+      }
+      create_shipment: {
+        Args: {
+          _carrier: string
+          _items: Json
+          _order_id: string
+          _ship_now?: boolean
+          _tracking_number?: string
+          _tracking_url?: string
+        }
+        Returns: Database["public"]["Tables"]["shipments"]["Row"]
+      }
+      create_subscription: {
+        Args: {
+          _address_id: string
+          _interval_count: number
+          _interval_unit: string
+          _items: Json
+          _payment_method: string
+          _source_order_id?: string
+          _start_on: string
+        }
+        Returns: {
+          address_id: string | null
+          created_at: string
+          id: string
+          interval_count: number
+          interval_unit: string
+          last_error: string | null
+          last_order_id: string | null
+          last_run_at: string | null
+          next_run_on: string
+          payment_method: string
+          source_order_id: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      expire_unpaid_orders: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      format_address: {
+        Args: {
+          _address: Json
+        }
+        Returns: string
+      }
       generate_order_number: {
         Args: Record<PropertyKey, never>
         Returns: string
@@ -535,6 +1745,263 @@ export type Database = {
         }
         Returns: boolean
       }
+      issue_invoice: {
+        Args: {
+          _order_id: string
+          _regenerate?: boolean
+        }
+        Returns: Database["public"]["Tables"]["invoices"]["Row"]
+      }
+      next_subscription_run: {
+        Args: {
+          _from: string
+          _interval_count: number
+          _interval_unit: string
+        }
+        Returns: string
+      }
+      order_is_invoiceable: {
+        Args: {
+          _order: Database["public"]["Tables"]["orders"]["Row"]
+        }
+        Returns: boolean
+      }
+      order_stock_quantities: {
+        Args: {
+          _order_id: string
+        }
+        Returns: {
+          product_id: string
+          quantity: number
+        }[]
+      }
+      order_unshipped_items: {
+        Args: {
+          _order_id: string
+        }
+        Returns: {
+          order_item_id: string
+          product_id: string
+          quantity_litres: number
+        }[]
+      }
+      place_order: {
+        Args: {
+          _address_id: string
+          _coupon_code?: string
+          _idempotency_key?: string
+          _items: Json
+          _payment_method?: string
+        }
+        Returns: Database["public"]["Tables"]["orders"]["Row"]
+      }
+      quote_order: {
+        Args: {
+          _address_id?: string
+          _coupon_code?: string
+          _items: Json
+          _payment_method?: string
+        }
+        Returns: Json
+      }
+      receive_return: {
+        Args: {
+          _note?: string
+          _restock?: boolean
+          _return_id: string
+        }
+        Returns: {
+          admin_note: string | null
+          created_at: string
+          id: string
+          order_id: string
+          photo_paths: string[]
+          reason: string
+          received_at: string | null
+          refund_id: string | null
+          released_from_reservation: boolean
+          restocked: boolean
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      record_bank_payments: {
+        Args: {
+          _payments: Json
+        }
+        Returns: number
+      }
+      record_refund: {
+        Args: {
+          _additional_amount: number
+          _items: Json
+          _method: string
+          _order_id: string
+          _reason: string
+          _reference?: string
+        }
+        Returns: {
+          additional_amount: number
+          amount: number
+          created_at: string
+          created_by: string | null
+          credit_note_number: string
+          financial_year: string
+          id: string
+          invoice_number: string | null
+          method: string
+          order_id: string
+          reason: string
+          reference: string | null
+          seller_address: string
+          seller_gstin: string | null
+          seller_name: string
+          seller_state: string
+          sequence_number: number
+        }
+      }
+      refund_return: {
+        Args: {
+          _additional_amount: number
+          _method: string
+          _reference?: string
+          _return_id: string
+        }
+        Returns: {
+          additional_amount: number
+          amount: number
+          created_at: string
+          created_by: string | null
+          credit_note_number: string
+          financial_year: string
+          id: string
+          invoice_number: string | null
+          method: string
+          order_id: string
+          reason: string
+          reference: string | null
+          seller_address: string
+          seller_gstin: string | null
+          seller_name: string
+          seller_state: string
+          sequence_number: number
+        }
+      }
+      request_return: {
+        Args: {
+          _items: Json
+          _order_id: string
+          _photo_paths?: string[]
+          _reason: string
+        }
+        Returns: {
+          admin_note: string | null
+          created_at: string
+          id: string
+          order_id: string
+          photo_paths: string[]
+          reason: string
+          received_at: string | null
+          refund_id: string | null
+          released_from_reservation: boolean
+          restocked: boolean
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      review_payment_transaction: {
+        Args: {
+          _accept_amount_mismatch?: boolean
+          _approve: boolean
+          _reason?: string
+          _transaction_id: string
+        }
+        Returns: Database["public"]["Tables"]["payment_transactions"]["Row"]
+      }
+      review_return: {
+        Args: {
+          _approve: boolean
+          _note?: string
+          _return_id: string
+        }
+        Returns: {
+          admin_note: string | null
+          created_at: string
+          id: string
+          order_id: string
+          photo_paths: string[]
+          reason: string
+          received_at: string | null
+          refund_id: string | null
+          released_from_reservation: boolean
+          restocked: boolean
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      run_due_subscriptions: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      seller_details: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          seller_address: string
+          seller_gstin: string
+          seller_name: string
+          seller_state: string
+        }[]
+      }
+      submit_payment_transaction: {
+        Args: {
+          _amount: number
+          _order_id: string
+          _payer_vpa?: string
+          _screenshot_path?: string
+          _utr: string
+        }
+        Returns: Database["public"]["Tables"]["payment_transactions"]["Row"]
+      }
+      update_order_status: {
+        Args: {
+          _note?: string
+          _order_id: string
+          _payment_status?: string
+          _status?: string
+        }
+        Returns: Database["public"]["Tables"]["orders"]["Row"]
+      }
+      update_subscription: {
+        Args: {
+          _action: string
+          _subscription_id: string
+        }
+        Returns: {
+          address_id: string | null
+          created_at: string
+          id: string
+          interval_count: number
+          interval_unit: string
+          last_error: string | null
+          last_order_id: string | null
+          last_run_at: string | null
+          next_run_on: string
+          payment_method: string
+          source_order_id: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
     }
     Enums: {
       app_role: "customer" | "admin"
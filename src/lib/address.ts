@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import type { Json } from '@/integrations/supabase/types';
+import type { AddressFields, AddressSnapshot } from '@/types/address';
+
+export const addressSchema = z.object({
+  full_name: z.string().trim().min(2, 'Name must be at least 2 characters'),
+  phone: z.string().trim().regex(/^[6-9]\d{9}$/, 'Enter a valid 10-digit mobile number'),
+  line1: z.string().trim().min(3, 'Address line 1 is required'),
+  line2: z.string().trim().optional(),
+  city: z.string().trim().min(2, 'City is required'),
+  state: z.string().trim().min(2, 'State is required'),
+  pincode: z.string().trim().regex(/^[1-9]\d{5}$/, 'Enter a valid 6-digit pincode'),
+  landmark: z.string().trim().optional(),
+});
+
+export const emptyAddressFields = (): AddressFields => ({
+  full_name: '',
+  phone: '',
+  line1: '',
+  line2: '',
+  city: '',
+  state: '',
+  pincode: '',
+  landmark: '',
+});
+
+export function parseAddressSnapshot(value: Json | null | undefined): AddressSnapshot | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const read = (key: string) => (typeof value[key] === 'string' ? (value[key] as string) : null);
+  const line1 = read('line1');
+  if (!line1) return null;
+  return {
+    address_id: read('address_id'),
+    full_name: read('full_name') || '',
+    phone: read('phone') || '',
+    line1,
+    line2: read('line2'),
+    city: read('city') || '',
+    state: read('state') || '',
+    pincode: read('pincode') || '',
+    landmark: read('landmark'),
+  };
+}
+
+// Address lines in display order; keep in sync with the format_address database function.
+export function getAddressLines(address: AddressFields) {
+  return [
+    address.full_name,
+    address.line1,
+    address.line2,
+    address.landmark ? `Landmark: ${address.landmark}` : null,
+    `${address.city}, ${address.state} - ${address.pincode}`,
+    address.phone ? `Phone: ${address.phone}` : null,
+  ].filter((line): line is string => Boolean(line && line.trim()));
+}
+
+export function formatAddress(address: AddressFields, separator = ', ') {
+  return getAddressLines(address).join(separator);
+}
+
+type OrderWithAddress = { shipping_address: string; shipping_address_snapshot?: Json | null };
+
+// Orders placed before the address book only carry the free-text address.
+export function getOrderAddressLines(order: OrderWithAddress) {
+  const snapshot = parseAddressSnapshot(order.shipping_address_snapshot);
+  return snapshot ? getAddressLines(snapshot) : [order.shipping_address];
+}
+
+export function formatOrderAddress(order: OrderWithAddress, separator = ', ') {
+  return getOrderAddressLines(order).join(separator);
+}
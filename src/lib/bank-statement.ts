@@ -0,0 +1,192 @@
+import { read, utils } from 'xlsx';
+import type {
+  PendingSubmission,
+  PendingUpiOrder,
+  ReconciliationResult,
+  StatementMatch,
+  StatementRow,
+} from '@/types/reconciliation';
+
+// Bank exports start with account details, so the header row is searched for
+const HEADER_SCAN_ROWS = 30;
+
+// Header keywords per column, most specific first; headers are compared lowercase with non-letters removed
+const COLUMN_KEYWORDS = {
+  date: ['txndate', 'transactiondate', 'valuedate', 'date'],
+  description: ['narration', 'description', 'particulars', 'remarks', 'details'],
+  reference: ['utr', 'refno', 'reference', 'chequeno', 'transactionid'],
+  credit: ['credit', 'deposit'],
+  amount: ['amount'],
+  type: ['crdr', 'drcr', 'type'],
+};
+
+type Column = keyof typeof COLUMN_KEYWORDS;
+
+const normalizeHeader = (value: unknown) => String(value ?? '').toLowerCase().replace(/[^a-z]/g, '');
+
+/** Uppercase letters and digits only, so references compare regardless of spacing and punctuation */
+export const normalizeReference = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const parseAmount = (value: unknown) => {
+  if (typeof value === 'number') return value;
+  const amount = parseFloat(String(value ?? '').replace(/[^0-9.-]/g, ''));
+  return isNaN(amount) ? 0 : amount;
+};
+
+const formatCell = (value: unknown) =>
+  value instanceof Date ? value.toLocaleDateString('en-IN') : String(value ?? '').trim();
+
+function findColumns(headerRow: unknown[]) {
+  const headers = headerRow.map(normalizeHeader);
+  const columns: Partial<Record<Column, number>> = {};
+  (Object.keys(COLUMN_KEYWORDS) as Column[]).forEach((column) => {
+    for (const keyword of COLUMN_KEYWORDS[column]) {
+      const index = headers.findIndex(
+        (header, i) => header.includes(keyword) && !Object.values(columns).includes(i),
+      );
+      if (index !== -1) {
+        columns[column] = index;
+        break;
+      }
+    }
+  });
+  return columns;
+}
+
+/**
+ * Reads the credits out of a bank statement export (CSV, XLS or XLSX).
+ * Debit rows are dropped. Credits come from a credit/deposit column, or from
+ * an amount column paired with a CR/DR type column.
+ */
+export async function parseBankStatement(file: File): Promise<StatementRow[]> {
+  const isCsv = file.name.toLowerCase().endsWith('.csv');
+  // CSV values stay as text so long reference numbers keep their exact digits
+  const workbook = read(await file.arrayBuffer(), { type: 'array', cellDates: true, raw: isCsv });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) throw new Error('The file has no sheets');
+
+  const rows = utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' });
+
+  let headerIndex = -1;
+  let columns: Partial<Record<Column, number>> = {};
+  for (let i = 0; i < Math.min(rows.length, HEADER_SCAN_ROWS); i++) {
+    const candidate = findColumns(rows[i]);
+    if (candidate.description !== undefined && (candidate.credit !== undefined || candidate.amount !== undefined)) {
+      headerIndex = i;
+      columns = candidate;
+      break;
+    }
+  }
+  if (headerIndex === -1) {
+    throw new Error('Could not find the narration and credit columns in this statement');
+  }
+
+  const cell = (row: unknown[], column: Column) => (columns[column] === undefined ? '' : row[columns[column]!]);
+
+  return rows.slice(headerIndex + 1).flatMap((row, offset) => {
+    let credit: number;
+    if (columns.credit !== undefined) {
+      credit = parseAmount(cell(row, 'credit'));
+    } else if (columns.type !== undefined) {
+      credit = normalizeHeader(cell(row, 'type')).startsWith('cr') ? parseAmount(cell(row, 'amount')) : 0;
+    } else {
+      credit = parseAmount(cell(row, 'amount'));
+    }
+    if (!(credit > 0)) return [];
+
+    const description = formatCell(cell(row, 'description'));
+    const reference = formatCell(cell(row, 'reference'));
+    const utrs = [...new Set(`${reference} ${description}`.match(/\b\d{12}\b/g) ?? [])];
+
+    return [{
+      rowNumber: headerIndex + offset + 2,
+      date: formatCell(cell(row, 'date')),
+      description,
+      reference,
+      credit,
+      utrs,
+    }];
+  });
+}
+
+const sameAmount = (a: number, b: number) => Math.abs(a - b) < 0.01;
+
+// The order number may appear with or without its hyphens, but only as a whole
+// word, so ORD-20261019-15 never matches inside ORD-20261019-1534
+const orderNumberPattern = (orderNumber: string) => {
+  const parts = orderNumber.toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean);
+  return new RegExp(`(^|[^A-Z0-9])${parts.join('[^A-Z0-9]*')}(?![A-Z0-9])`);
+};
+
+const toUtr = (value: string | undefined) => {
+  const utr = value ? normalizeReference(value) : '';
+  return utr.length >= 6 && utr.length <= 35 ? utr : null;
+};
+
+/**
+ * Sorts statement credits into confirmed, ambiguous and unmatched buckets.
+ * A credit is confirmed when its UTR matches one the customer submitted, or
+ * the order number appears in its narration (Payment.tsx puts it in the UPI
+ * note), and the amount equals the order total. An amount alone never
+ * confirms a payment, and a credit naming several orders or an order backed
+ * by several credits is left to the admin.
+ */
+export function reconcileStatement(
+  rows: StatementRow[],
+  orders: PendingUpiOrder[],
+  submissions: PendingSubmission[],
+): ReconciliationResult {
+  const ordersById = new Map(orders.map((order) => [order.id, order]));
+
+  const classified = rows.map((row): [keyof ReconciliationResult, StatementMatch] => {
+    const rowReferences = [...row.utrs, normalizeReference(row.reference)].filter(Boolean);
+    const quoted = submissions.filter((submission) => rowReferences.includes(normalizeReference(submission.utr)));
+    const quotedOrders = [...new Set(quoted.map((submission) => ordersById.get(submission.order_id)))].filter(
+      (order): order is PendingUpiOrder => !!order,
+    );
+
+    const narration = `${row.description} ${row.reference}`.toUpperCase();
+    const namedOrders = orders.filter((order) => orderNumberPattern(order.order_number).test(narration));
+    const utr = toUtr(quoted[0]?.utr ?? row.utrs[0] ?? row.reference);
+
+    if (quotedOrders.length === 1 || (quotedOrders.length === 0 && namedOrders.length === 1)) {
+      const order = quotedOrders[0] ?? namedOrders[0];
+      const matchedBy = quotedOrders.length === 1 ? 'UTR submitted by the customer' : 'Order number in the narration';
+      if (!sameAmount(row.credit, order.final_amount)) {
+        return ['ambiguous', { row, orders: [order], utr, note: `${matchedBy}, but ₹${order.final_amount} is due` }];
+      }
+      if (!utr) {
+        return ['ambiguous', { row, orders: [order], utr, note: `${matchedBy}, but the row has no UTR` }];
+      }
+      return ['confirmed', { row, orders: [order], utr, note: matchedBy }];
+    }
+
+    if (quotedOrders.length > 1 || namedOrders.length > 1) {
+      const candidates = quotedOrders.length > 1 ? quotedOrders : namedOrders;
+      return ['ambiguous', { row, orders: candidates, utr, note: 'Matches several orders' }];
+    }
+
+    const sameAmountOrders = orders.filter((order) => sameAmount(order.final_amount, row.credit));
+    if (sameAmountOrders.length > 0) {
+      return ['ambiguous', { row, orders: sameAmountOrders, utr, note: 'Only the amount matches' }];
+    }
+    return ['unmatched', { row, orders: [], utr, note: 'No pending order matches this credit' }];
+  });
+
+  const confirmedPerOrder = new Map<string, number>();
+  classified.forEach(([bucket, match]) => {
+    if (bucket === 'confirmed') {
+      confirmedPerOrder.set(match.orders[0].id, (confirmedPerOrder.get(match.orders[0].id) ?? 0) + 1);
+    }
+  });
+
+  const result: ReconciliationResult = { confirmed: [], ambiguous: [], unmatched: [] };
+  classified.forEach(([bucket, match]) => {
+    if (bucket === 'confirmed' && confirmedPerOrder.get(match.orders[0].id)! > 1) {
+      result.ambiguous.push({ ...match, note: 'Several credits match this order' });
+    } else {
+      result[bucket].push(match);
+    }
+  });
+  return result;
+}
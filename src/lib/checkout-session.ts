@@ -0,0 +1,26 @@
+const STORAGE_KEY = 'checkout-session';
+
+// The same key is reused for as long as the checkout request (items, address,
+// coupon and payment method) is unchanged, so place_order returns the existing order while it is
+// still awaiting payment on repeated submits or when the customer comes back from the payment page.
+export function getCheckoutIdempotencyKey(request: unknown) {
+  const fingerprint = JSON.stringify(request);
+
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored && stored.fingerprint === fingerprint && typeof stored.key === 'string') {
+      return stored.key as string;
+    }
+  } catch {
+    // Fall through and start a new session
+  }
+
+  const key = crypto.randomUUID();
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify({ key, fingerprint }));
+  return key;
+}
+
+// Called once an order is placed for good (COD) or paid, so ordering the same cart again starts a new order
+export function clearCheckoutSession() {
+  sessionStorage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,142 @@
+import { jsPDF } from 'jspdf';
+import type { Tables } from '@/integrations/supabase/types';
+import { getOrderAddressLines } from '@/lib/address';
+import { MARGIN, PAGE_HEIGHT, PAGE_WIDTH, formatDate } from '@/lib/pdf';
+import { REFUND_METHOD_LABELS } from '@/lib/refunds';
+import { getTaxLines } from '@/lib/tax';
+import type { RefundMethod, RefundWithItems } from '@/types/refunds';
+
+// The built-in PDF fonts have no rupee glyph
+const money = (value: number) => `Rs. ${Number(value).toFixed(2)}`;
+
+// Column layout of the line-item table: [header, x position, alignment]
+const COLUMNS: [string, number, 'left' | 'right'][] = [
+  ['#', MARGIN, 'left'],
+  ['Item', MARGIN + 8, 'left'],
+  ['Qty', 118, 'right'],
+  ['Taxable', 142, 'right'],
+  ['GST', 166, 'right'],
+  ['Amount', PAGE_WIDTH - MARGIN, 'right'],
+];
+
+export function buildCreditNotePdf(refund: RefundWithItems, order: Tables<'orders'>) {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  let y = MARGIN + 4;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text('CREDIT NOTE', PAGE_WIDTH - MARGIN, y, { align: 'right' });
+  doc.setFontSize(13);
+  doc.text(refund.seller_name, MARGIN, y);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  const sellerLines = [
+    ...doc.splitTextToSize(refund.seller_address, 100),
+    refund.seller_gstin ? `GSTIN: ${refund.seller_gstin}` : '',
+    `State: ${refund.seller_state}`,
+  ].filter(Boolean);
+  doc.text(sellerLines, MARGIN, y + 6);
+
+  const metaLines = [
+    `Credit Note No: ${refund.credit_note_number}`,
+    `Date: ${formatDate(refund.created_at)}`,
+    refund.invoice_number ? `Against Invoice: ${refund.invoice_number}` : '',
+    `Order No: ${order.order_number}`,
+  ].filter(Boolean);
+  doc.text(metaLines, PAGE_WIDTH - MARGIN, y + 6, { align: 'right' });
+
+  y += 8 + Math.max(sellerLines.length, metaLines.length) * 4.5;
+  doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+  y += 6;
+
+  doc.setFont('helvetica', 'bold');
+  doc.text('Issued To', MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  const buyerLines = getOrderAddressLines(order).flatMap((line) => doc.splitTextToSize(line, 120));
+  doc.text(buyerLines, MARGIN, y + 5);
+  y += 8 + buyerLines.length * 4.5;
+
+  const reasonLines: string[] = doc.splitTextToSize(`Reason: ${refund.reason}`, PAGE_WIDTH - MARGIN * 2);
+  doc.text(reasonLines, MARGIN, y);
+  y += reasonLines.length * 4.5 + 4;
+
+  if (refund.refund_items.length > 0) {
+    doc.setFillColor(240, 240, 240);
+    doc.rect(MARGIN, y - 4.5, PAGE_WIDTH - MARGIN * 2, 7, 'F');
+    doc.setFont('helvetica', 'bold');
+    COLUMNS.forEach(([label, x, align]) => doc.text(label, x, y, { align }));
+    doc.setFont('helvetica', 'normal');
+    y += 7;
+
+    refund.refund_items.forEach((item, index) => {
+      const nameLines: string[] = doc.splitTextToSize(item.product_name, 80);
+      const rowHeight = nameLines.length * 4.5 + 2;
+
+      if (y + rowHeight > PAGE_HEIGHT - 50) {
+        doc.addPage();
+        y = MARGIN + 4;
+      }
+
+      const cells = [
+        String(index + 1),
+        '',
+        `${item.quantity_litres}`,
+        money(item.taxable_amount),
+        money(item.cgst_amount + item.sgst_amount + item.igst_amount),
+        money(item.amount),
+      ];
+      COLUMNS.forEach(([, x, align], column) => {
+        if (cells[column]) doc.text(cells[column], x, y, { align });
+      });
+      doc.text(nameLines, COLUMNS[1][1], y);
+      y += rowHeight;
+    });
+
+    doc.line(MARGIN, y - 2, PAGE_WIDTH - MARGIN, y - 2);
+    y += 4;
+  }
+
+  const itemTotals = refund.refund_items.reduce(
+    (sum, item) => ({
+      taxable_amount: sum.taxable_amount + Number(item.taxable_amount),
+      cgst_amount: sum.cgst_amount + Number(item.cgst_amount),
+      sgst_amount: sum.sgst_amount + Number(item.sgst_amount),
+      igst_amount: sum.igst_amount + Number(item.igst_amount),
+    }),
+    { taxable_amount: 0, cgst_amount: 0, sgst_amount: 0, igst_amount: 0 },
+  );
+  const totals: [string, string][] = [];
+  if (refund.refund_items.length > 0) {
+    totals.push(['Taxable Value', money(itemTotals.taxable_amount)]);
+    getTaxLines(itemTotals).forEach((tax) => totals.push([tax.label, money(tax.amount)]));
+  }
+  if (refund.additional_amount > 0) {
+    totals.push(['Other Charges Refunded', money(refund.additional_amount)]);
+  }
+
+  totals.forEach(([label, value]) => {
+    doc.text(label, 130, y);
+    doc.text(value, PAGE_WIDTH - MARGIN, y, { align: 'right' });
+    y += 5;
+  });
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text('Total Refund', 130, y + 1);
+  doc.text(money(refund.amount), PAGE_WIDTH - MARGIN, y + 1, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  y += 8;
+
+  const method = REFUND_METHOD_LABELS[refund.method as RefundMethod] ?? refund.method;
+  doc.text(`Refunded via ${method}${refund.reference ? ` (ref. ${refund.reference})` : ''}`, MARGIN, y);
+  y += 4;
+  doc.text('This is a computer generated credit note and does not require a signature.', MARGIN, y);
+
+  return doc;
+}
+
+export function downloadCreditNotePdf(refund: RefundWithItems, order: Tables<'orders'>) {
+  buildCreditNotePdf(refund, order).save(`${refund.credit_note_number.replace(/\//g, '-')}.pdf`);
+}
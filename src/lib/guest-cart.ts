@@ -0,0 +1,96 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getAvailableStock } from '@/lib/stock';
+import type { Json } from '@/integrations/supabase/types';
+import type { GuestCartItem } from '@/types/cart';
+
+const STORAGE_KEY = 'guest-cart';
+
+export function getGuestCart(): GuestCartItem[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((item) => item && typeof item.product_id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveGuestCart(items: GuestCartItem[]) {
+  if (items.length === 0) {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  }
+}
+
+// One line per product, like cart_items: adding a product again replaces its line.
+export function addGuestCartItem(item: GuestCartItem) {
+  saveGuestCart([...getGuestCart().filter((existing) => existing.product_id !== item.product_id), item]);
+}
+
+export function updateGuestCartQuantity(productId: string, quantity: number) {
+  saveGuestCart(
+    getGuestCart().map((item) => (item.product_id === productId ? { ...item, quantity_litres: quantity } : item))
+  );
+}
+
+export function removeGuestCartItem(productId: string) {
+  saveGuestCart(getGuestCart().filter((item) => item.product_id !== productId));
+}
+
+const selectionKey = (item: { variant_selection: Json | null; measurement_value: string | null }) => {
+  const variant = item.variant_selection as { label?: string } | null;
+  return `${variant?.label ?? ''}|${item.measurement_value ?? ''}`;
+};
+
+/**
+ * Moves the guest cart into the signed-in user's cart_items.
+ * A product already in the account cart with the same variant and measurement
+ * has the quantities added together; with a different selection the guest's
+ * (more recent) choice replaces it. Quantities are capped at the available
+ * stock and unavailable products are dropped. Returns the number of lines merged.
+ */
+export async function mergeGuestCart(userId: string) {
+  const guestItems = getGuestCart();
+  if (guestItems.length === 0) return 0;
+
+  const productIds = guestItems.map((item) => item.product_id);
+  const [{ data: products, error: productsError }, { data: existing, error: existingError }] = await Promise.all([
+    supabase
+      .from('products')
+      .select('id, stock_quantity, reserved_quantity')
+      .in('id', productIds)
+      .eq('is_active', true),
+    supabase.from('cart_items').select('*').eq('user_id', userId).in('product_id', productIds),
+  ]);
+  if (productsError) throw productsError;
+  if (existingError) throw existingError;
+
+  const rows = guestItems.flatMap((item) => {
+    const product = products?.find((candidate) => candidate.id === item.product_id);
+    const available = getAvailableStock(product);
+    if (!product || available <= 0) return [];
+
+    const current = existing?.find((row) => row.product_id === item.product_id);
+    const quantity =
+      current && selectionKey(current) === selectionKey(item)
+        ? current.quantity_litres + item.quantity_litres
+        : item.quantity_litres;
+
+    return [{
+      user_id: userId,
+      product_id: item.product_id,
+      quantity_litres: Math.min(quantity, available),
+      variant_selection: item.variant_selection,
+      measurement_label: item.measurement_label,
+      measurement_value: item.measurement_value,
+    }];
+  });
+
+  if (rows.length > 0) {
+    const { error } = await supabase.from('cart_items').upsert(rows, { onConflict: 'user_id,product_id' });
+    if (error) throw error;
+  }
+
+  saveGuestCart([]);
+  return rows.length;
+}
@@ -0,0 +1,153 @@
+import { jsPDF } from 'jspdf';
+import type { Tables } from '@/integrations/supabase/types';
+import { getOrderAddressLines, parseAddressSnapshot } from '@/lib/address';
+import { MARGIN, PAGE_HEIGHT, PAGE_WIDTH, addTrackingQr, describeOptions, formatDate } from '@/lib/pdf';
+import { getTaxLines } from '@/lib/tax';
+
+export type InvoiceOrder = Tables<'orders'> & { order_items: Tables<'order_items'>[] };
+
+// Mirrors order_is_invoiceable: paid orders, and Cash on Delivery orders once confirmed
+export const isInvoiceable = (order: Pick<Tables<'orders'>, 'status' | 'payment_status' | 'payment_method'>) =>
+  order.status !== 'cancelled' &&
+  (['paid', 'refunded'].includes(order.payment_status) || (order.payment_method === 'cod' && order.status !== 'pending'));
+
+// The built-in PDF fonts have no rupee glyph
+const money = (value: number) => `Rs. ${Number(value).toFixed(2)}`;
+
+// Column layout of the line-item table: [header, x position, alignment]
+const COLUMNS: [string, number, 'left' | 'right'][] = [
+  ['#', MARGIN, 'left'],
+  ['Item', MARGIN + 8, 'left'],
+  ['HSN', 96, 'left'],
+  ['Qty', 118, 'right'],
+  ['Rate', 138, 'right'],
+  ['Taxable', 160, 'right'],
+  ['GST', 174, 'right'],
+  ['Amount', PAGE_WIDTH - MARGIN, 'right'],
+];
+
+export async function buildInvoicePdf(invoice: Tables<'invoices'>, order: InvoiceOrder) {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  let y = MARGIN + 4;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text('TAX INVOICE', PAGE_WIDTH - MARGIN, y, { align: 'right' });
+  doc.setFontSize(13);
+  doc.text(invoice.seller_name, MARGIN, y);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  const sellerLines = [
+    ...doc.splitTextToSize(invoice.seller_address, 100),
+    invoice.seller_gstin ? `GSTIN: ${invoice.seller_gstin}` : '',
+    `State: ${invoice.seller_state}`,
+  ].filter(Boolean);
+  doc.text(sellerLines, MARGIN, y + 6);
+
+  const metaLines = [
+    `Invoice No: ${invoice.invoice_number}`,
+    `Invoice Date: ${formatDate(invoice.issued_at)}`,
+    `Order No: ${order.order_number}`,
+    `Order Date: ${formatDate(order.created_at)}`,
+  ];
+  doc.text(metaLines, PAGE_WIDTH - MARGIN, y + 6, { align: 'right' });
+
+  y += 8 + Math.max(sellerLines.length, metaLines.length) * 4.5;
+  doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+  y += 6;
+
+  const snapshot = parseAddressSnapshot(order.shipping_address_snapshot);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Bill / Ship To', MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  const buyerLines = getOrderAddressLines(order).flatMap((line) => doc.splitTextToSize(line, 120));
+  doc.text(buyerLines, MARGIN, y + 5);
+  if (snapshot) {
+    doc.text(`Place of Supply: ${snapshot.state}`, PAGE_WIDTH - MARGIN, y, { align: 'right' });
+  }
+  y += 8 + buyerLines.length * 4.5;
+
+  doc.setFillColor(240, 240, 240);
+  doc.rect(MARGIN, y - 4.5, PAGE_WIDTH - MARGIN * 2, 7, 'F');
+  doc.setFont('helvetica', 'bold');
+  COLUMNS.forEach(([label, x, align]) => doc.text(label, x, y, { align }));
+  doc.setFont('helvetica', 'normal');
+  y += 7;
+
+  order.order_items.forEach((item, index) => {
+    const nameLines: string[] = doc.splitTextToSize(item.product_name, 70);
+    const options = describeOptions(item);
+    const optionLines: string[] = options ? doc.splitTextToSize(options, 70) : [];
+    const rowHeight = (nameLines.length + optionLines.length) * 4.5 + 2;
+
+    if (y + rowHeight > PAGE_HEIGHT - 60) {
+      doc.addPage();
+      y = MARGIN + 4;
+    }
+
+    const cells = [
+      String(index + 1),
+      '',
+      item.hsn_code || '-',
+      `${item.quantity_litres}`,
+      money(item.price_per_litre),
+      money(item.taxable_amount),
+      `${item.gst_rate}%`,
+      money(item.total_price),
+    ];
+    COLUMNS.forEach(([, x, align], column) => {
+      if (cells[column]) doc.text(cells[column], x, y, { align });
+    });
+    doc.text(nameLines, COLUMNS[1][1], y);
+    if (optionLines.length > 0) {
+      doc.setTextColor(110);
+      doc.text(optionLines, COLUMNS[1][1], y + nameLines.length * 4.5);
+      doc.setTextColor(0);
+    }
+    y += rowHeight;
+  });
+
+  doc.line(MARGIN, y - 2, PAGE_WIDTH - MARGIN, y - 2);
+  y += 4;
+
+  const totalsTop = y;
+  const totals: [string, string][] = [['Subtotal', money(order.total_amount)]];
+  if (order.discount_amount && order.discount_amount > 0) {
+    totals.push([`Discount${order.coupon_code ? ` (${order.coupon_code})` : ''}`, `- ${money(order.discount_amount)}`]);
+  }
+  totals.push(['Taxable Value', money(order.taxable_amount)]);
+  getTaxLines(order).forEach((tax) => totals.push([tax.label, money(tax.amount)]));
+  totals.push(['Shipping', order.shipping_amount > 0 ? money(order.shipping_amount) : 'FREE']);
+  if (order.cod_fee > 0) {
+    totals.push(['COD Fee', money(order.cod_fee)]);
+  }
+
+  totals.forEach(([label, value]) => {
+    doc.text(label, 140, y);
+    doc.text(value, PAGE_WIDTH - MARGIN, y, { align: 'right' });
+    y += 5;
+  });
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text('Total', 140, y + 1);
+  doc.text(money(order.final_amount), PAGE_WIDTH - MARGIN, y + 1, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  y += 8;
+
+  if (order.prices_include_tax) {
+    doc.text('Prices are inclusive of GST; tax shown above is already part of the item amounts.', MARGIN, y);
+    y += 4;
+  }
+  doc.text('This is a computer generated invoice and does not require a signature.', MARGIN, y);
+
+  await addTrackingQr(doc, order.id, MARGIN, totalsTop - 4);
+
+  return doc;
+}
+
+export async function downloadInvoicePdf(invoice: Tables<'invoices'>, order: InvoiceOrder) {
+  (await buildInvoicePdf(invoice, order)).save(`${invoice.invoice_number.replace(/\//g, '-')}.pdf`);
+}
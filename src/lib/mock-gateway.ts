@@ -0,0 +1,56 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { GatewayClient } from '@/types/payments';
+
+export type MockGatewayOutcome = 'success' | 'failed' | 'timeout';
+
+/**
+ * Offline stand-in for a card/netbanking gateway. Its hosted checkout is the
+ * /payment/mock-gateway page, where the tester picks the outcome; successful
+ * payments are confirmed through complete_mock_gateway_payment, which only
+ * works while the mock is the gateway enabled in gateway_settings.
+ */
+export const mockGatewayClient: GatewayClient = {
+  name: 'mock',
+  async createCheckout(order, returnUrl) {
+    const reference = `mock_pay_${crypto.randomUUID().replace(/-/g, '').slice(0, 16)}`;
+    const url = new URL('/payment/mock-gateway', window.location.origin);
+    url.searchParams.set('orderId', order.id);
+    url.searchParams.set('orderNumber', order.order_number);
+    url.searchParams.set('amount', Number(order.final_amount).toFixed(2));
+    url.searchParams.set('reference', reference);
+    url.searchParams.set('returnUrl', returnUrl);
+    return { reference, redirectUrl: url.toString() };
+  },
+  parseCallback(params) {
+    const orderId = params.get('orderId');
+    if (!orderId) throw new Error('Missing order in payment callback');
+    const status = params.get('status');
+    return {
+      orderId,
+      reference: params.get('reference'),
+      outcome: status === 'success' || status === 'failed' ? status : null,
+      message: status === 'failed' ? 'The mock gateway declined the payment' : undefined,
+    };
+  },
+  async confirmPayment(orderId, reference) {
+    const { error } = await supabase.rpc('complete_mock_gateway_payment', {
+      _order_id: orderId,
+      _reference: reference,
+    });
+    if (error) throw error;
+  },
+  async refund(reference) {
+    return { reference: reference.replace(/^mock_pay_/, 'mock_rfnd_') };
+  },
+};
+
+/** Where the mock checkout sends the customer back to; a timeout returns without any result */
+export function getMockGatewayReturnUrl(params: URLSearchParams, outcome: MockGatewayOutcome) {
+  const url = new URL(params.get('returnUrl') || '/payment/callback?method=gateway', window.location.origin);
+  url.searchParams.set('orderId', params.get('orderId') || '');
+  if (outcome !== 'timeout') {
+    url.searchParams.set('reference', params.get('reference') || '');
+    url.searchParams.set('status', outcome);
+  }
+  return url.pathname + url.search;
+}
@@ -0,0 +1,64 @@
+import type { OrderStatus, OrderStatusHistoryEntry, PaymentStatus } from '@/types/order-status';
+
+// Mirrors enforce_order_status_transition; the database rejects anything else
+export const STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['processing', 'cancelled'],
+  processing: ['partially_shipped', 'shipped', 'cancelled'],
+  partially_shipped: ['shipped', 'cancelled'],
+  shipped: ['partially_shipped', 'delivered'],
+  delivered: [],
+  cancelled: [],
+};
+
+export const PAYMENT_STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['paid', 'failed', 'expired'],
+  failed: ['pending', 'paid', 'expired'],
+  paid: ['refunded'],
+  expired: [],
+  refunded: [],
+};
+
+export const STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  processing: 'Processing',
+  partially_shipped: 'Partially Shipped',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: 'Payment Pending',
+  paid: 'Paid',
+  failed: 'Payment Failed',
+  expired: 'Payment Expired',
+  refunded: 'Refunded',
+};
+
+// Mirrors cancel_order: customers can cancel until a parcel has been handed to the carrier
+export const CUSTOMER_CANCELLABLE_STATUSES: OrderStatus[] = ['pending', 'confirmed', 'processing'];
+
+export const CANCELLATION_REASONS = [
+  'Ordered by mistake',
+  'Want to change items or quantity',
+  'Want to change the delivery address',
+  'Found a better price elsewhere',
+  'Delivery is taking too long',
+];
+
+export const getNextStatuses = (status: string) => STATUS_TRANSITIONS[status as OrderStatus] ?? [];
+
+export const canChangePaymentStatus = (from: string, to: PaymentStatus) =>
+  (PAYMENT_STATUS_TRANSITIONS[from as PaymentStatus] ?? []).includes(to);
+
+export function describeHistoryEntry(entry: OrderStatusHistoryEntry) {
+  if (entry.field === 'payment_status') {
+    // Rejected payment submissions leave the status unchanged
+    if (entry.from_status === entry.to_status) return 'Payment not verified';
+    return PAYMENT_STATUS_LABELS[entry.to_status as PaymentStatus] ?? entry.to_status;
+  }
+  if (!entry.from_status && entry.to_status === 'pending') return 'Order placed';
+  return `Order ${(STATUS_LABELS[entry.to_status as OrderStatus] ?? entry.to_status).toLowerCase()}`;
+}
@@ -0,0 +1,89 @@
+import { jsPDF } from 'jspdf';
+import { getOrderAddressLines } from '@/lib/address';
+import { MARGIN, PAGE_HEIGHT, PAGE_WIDTH, addTrackingQr, describeOptions, formatDate } from '@/lib/pdf';
+import type { InvoiceOrder } from '@/lib/invoice';
+
+const QR_SIZE = 30;
+
+/** Slip packed with the goods: what is in the box and where it goes, without prices */
+export async function buildPackingSlipPdf(order: InvoiceOrder, sellerName: string) {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  let y = MARGIN + 4;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text('PACKING SLIP', PAGE_WIDTH - MARGIN, y, { align: 'right' });
+  doc.setFontSize(13);
+  doc.text(sellerName, MARGIN, y);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(
+    [`Order No: ${order.order_number}`, `Order Date: ${formatDate(order.created_at)}`],
+    PAGE_WIDTH - MARGIN,
+    y + 7,
+    { align: 'right' },
+  );
+
+  y += 18;
+  doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+  y += 7;
+
+  doc.setFont('helvetica', 'bold');
+  doc.text('Ship To', MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  const addressLines = getOrderAddressLines(order).flatMap((line) => doc.splitTextToSize(line, 120));
+  doc.text(addressLines, MARGIN, y + 5);
+  await addTrackingQr(doc, order.id, PAGE_WIDTH - MARGIN - QR_SIZE, y - 4, QR_SIZE);
+  doc.setFontSize(10);
+
+  y += Math.max(8 + addressLines.length * 4.5, QR_SIZE + 4);
+
+  if (order.payment_method === 'cod' && order.payment_status !== 'paid') {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.text(`CASH ON DELIVERY - Collect Rs. ${Number(order.final_amount).toFixed(2)}`, MARGIN, y);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    y += 8;
+  }
+
+  doc.setFillColor(240, 240, 240);
+  doc.rect(MARGIN, y - 4.5, PAGE_WIDTH - MARGIN * 2, 7, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.text('#', MARGIN, y);
+  doc.text('Item', MARGIN + 8, y);
+  doc.text('Qty', PAGE_WIDTH - MARGIN - 20, y, { align: 'right' });
+  doc.text('Packed', PAGE_WIDTH - MARGIN, y, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  y += 7;
+
+  order.order_items.forEach((item, index) => {
+    const options = describeOptions(item);
+    const lines: string[] = doc.splitTextToSize(options ? `${item.product_name} (${options})` : item.product_name, 130);
+    const rowHeight = lines.length * 4.5 + 3;
+
+    if (y + rowHeight > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      y = MARGIN + 4;
+    }
+
+    doc.text(String(index + 1), MARGIN, y);
+    doc.text(lines, MARGIN + 8, y);
+    doc.text(`${item.quantity_litres} L`, PAGE_WIDTH - MARGIN - 20, y, { align: 'right' });
+    doc.rect(PAGE_WIDTH - MARGIN - 5, y - 3.5, 4, 4);
+    y += rowHeight;
+  });
+
+  doc.line(MARGIN, y - 2, PAGE_WIDTH - MARGIN, y - 2);
+  y += 4;
+  const totalLitres = order.order_items.reduce((sum, item) => sum + Number(item.quantity_litres), 0);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Total: ${totalLitres} L in ${order.order_items.length} item(s)`, PAGE_WIDTH - MARGIN, y, { align: 'right' });
+
+  return doc;
+}
+
+export async function downloadPackingSlipPdf(order: InvoiceOrder, sellerName: string) {
+  (await buildPackingSlipPdf(order, sellerName)).save(`packing-slip-${order.order_number}.pdf`);
+}
@@ -0,0 +1,23 @@
+import { supabase } from '@/integrations/supabase/client';
+
+const BUCKET = 'payment-proofs';
+const MAX_PROOF_SIZE = 5 * 1024 * 1024;
+
+// Stored under the customer's own folder; the bucket's policies key off the first path segment
+export async function uploadPaymentProof(userId: string, orderId: string, file: File) {
+  if (!file.type.startsWith('image/')) throw new Error('Payment screenshot must be an image');
+  if (file.size > MAX_PROOF_SIZE) throw new Error('Payment screenshot must be under 5 MB');
+
+  const fileExt = file.name.split('.').pop();
+  const filePath = `${userId}/${orderId}-${Date.now()}.${fileExt}`;
+  const { error } = await supabase.storage.from(BUCKET).upload(filePath, file, { upsert: false });
+  if (error) throw new Error(`Upload failed: ${error.message}`);
+  return filePath;
+}
+
+// The bucket is private, so proofs are opened through short-lived signed URLs
+export async function getPaymentProofUrl(path: string) {
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(path, 10 * 60);
+  if (error) throw error;
+  return data.signedUrl;
+}
@@ -0,0 +1,117 @@
+import { supabase } from '@/integrations/supabase/client';
+import { mockGatewayClient } from '@/lib/mock-gateway';
+import { fetchStoreSettings } from '@/lib/store-settings';
+import type {
+  GatewayClient,
+  PaymentMethod,
+  PaymentOrder,
+  PaymentProvider,
+  PaymentResult,
+} from '@/types/payments';
+
+// How long a gateway return without a result is given to settle before we report it as pending
+const CALLBACK_POLL_ATTEMPTS = 5;
+const CALLBACK_POLL_INTERVAL_MS = 2000;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function fetchPaymentResult(orderId: string): Promise<PaymentResult> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select('payment_status, payment_reference')
+    .eq('id', orderId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new Error('Order not found');
+
+  const status = data.payment_status === 'paid' ? 'paid' : data.payment_status === 'failed' ? 'failed' : 'pending';
+  return { status, orderId, reference: data.payment_reference };
+}
+
+const requireOrderId = (params: URLSearchParams) => {
+  const orderId = params.get('orderId');
+  if (!orderId) throw new Error('Missing order in payment callback');
+  return orderId;
+};
+
+// UPI intent: the customer pays from their UPI app and an admin confirms the credit
+export const upiProvider: PaymentProvider = {
+  method: 'upi',
+  label: 'UPI',
+  async createPayment(order) {
+    const { upi_id: vpa, upi_payee_name: payeeName } = await fetchStoreSettings();
+    const amount = Number(order.final_amount);
+    const note = order.discount_amount ? `Order: ${order.order_number} - ${order.discount_amount}` : order.order_number;
+    const deepLink = `upi://pay?pa=${encodeURIComponent(vpa)}&pn=${encodeURIComponent(payeeName)}&tn=${encodeURIComponent(note)}&am=${encodeURIComponent(amount.toFixed(2))}&cu=INR`;
+    return { kind: 'upi_intent', amount, vpa, payeeName, note, deepLink };
+  },
+  verifyPayment: (order) => fetchPaymentResult(order.id),
+  // UPI apps never return to the store, so there is nothing to read from the callback itself
+  handleCallback: (params) => fetchPaymentResult(requireOrderId(params)),
+  refund: async () => ({ status: 'manual' }),
+};
+
+// Cash on Delivery: nothing to collect online; an admin records the cash on delivery
+export const codProvider: PaymentProvider = {
+  method: 'cod',
+  label: 'Cash on Delivery',
+  createPayment: async (order) => ({ kind: 'cash_on_delivery', amount: Number(order.final_amount) }),
+  verifyPayment: (order) => fetchPaymentResult(order.id),
+  handleCallback: (params) => fetchPaymentResult(requireOrderId(params)),
+  refund: async () => ({ status: 'manual' }),
+};
+
+/** Card / netbanking payments through a hosted gateway checkout */
+export function createGatewayProvider(client: GatewayClient): PaymentProvider {
+  return {
+    method: 'gateway',
+    label: 'Card / Netbanking',
+    async createPayment(order: PaymentOrder) {
+      const returnUrl = `${window.location.origin}/payment/callback?method=gateway`;
+      const checkout = await client.createCheckout(order, returnUrl);
+      return { kind: 'redirect', amount: Number(order.final_amount), url: checkout.redirectUrl };
+    },
+    verifyPayment: (order) => fetchPaymentResult(order.id),
+    async handleCallback(params) {
+      const callback = client.parseCallback(params);
+      if (callback.outcome === 'failed') {
+        return {
+          status: 'failed',
+          orderId: callback.orderId,
+          reference: callback.reference,
+          message: callback.message || 'The payment was declined',
+        };
+      }
+      if (callback.outcome === 'success' && callback.reference) {
+        await client.confirmPayment(callback.orderId, callback.reference);
+      }
+
+      // A return without a result may still settle at the gateway, so keep checking for a while
+      for (let attempt = 1; ; attempt++) {
+        const result = await fetchPaymentResult(callback.orderId);
+        if (result.status !== 'pending' || attempt >= CALLBACK_POLL_ATTEMPTS) return result;
+        await wait(CALLBACK_POLL_INTERVAL_MS);
+      }
+    },
+    async refund(order, amount) {
+      if (!order.payment_reference) {
+        throw new Error(`Order ${order.order_number} has no gateway payment to refund`);
+      }
+      const { reference } = await client.refund(order.payment_reference, amount);
+      return { status: 'refunded', reference };
+    },
+  };
+}
+
+const providers: Record<PaymentMethod, PaymentProvider> = {
+  upi: upiProvider,
+  cod: codProvider,
+  // Only the offline mock exists so far; a live gateway client plugs in here
+  gateway: createGatewayProvider(mockGatewayClient),
+};
+
+export function getPaymentProvider(method: string) {
+  const provider = providers[method as PaymentMethod];
+  if (!provider) throw new Error(`Unsupported payment method: ${method}`);
+  return provider;
+}
@@ -0,0 +1,30 @@
+import type { jsPDF } from 'jspdf';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { getOrderTrackingUrl, toQrDataUrl } from '@/lib/qr';
+
+// Shared layout for the A4 documents generated in the browser (invoices, credit notes, packing slips)
+export const PAGE_WIDTH = 210;
+export const PAGE_HEIGHT = 297;
+export const MARGIN = 14;
+
+export const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' });
+
+export function describeOptions(item: Tables<'order_items'>) {
+  const selection = item.variant_selection as { label?: Json } | null;
+  const parts: string[] = [];
+  if (selection && typeof selection === 'object' && typeof selection.label === 'string') {
+    parts.push(selection.label);
+  }
+  if (item.measurement_value) {
+    parts.push(`${item.measurement_label || 'Measurement'}: ${item.measurement_value}`);
+  }
+  return parts.join(', ');
+}
+
+/** Draws the order-tracking QR code with a caption underneath, top-left at (x, y) */
+export async function addTrackingQr(doc: jsPDF, orderId: string, x: number, y: number, size = 24) {
+  doc.addImage(await toQrDataUrl(getOrderTrackingUrl(orderId), 300), 'PNG', x, y, size, size);
+  doc.setFontSize(7);
+  doc.text('Scan to track order', x + size / 2, y + size + 3, { align: 'center' });
+}
@@ -0,0 +1,55 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { OrderItemInput } from '@/types/orders';
+
+type PriceTier = Pick<Tables<'product_price_tiers'>, 'min_litres' | 'price_per_litre'>;
+
+type PricedProduct = Pick<Tables<'products'>, 'price_per_litre' | 'offer_price_per_litre'> & {
+  product_price_tiers?: PriceTier[] | null;
+};
+
+export type PriceTierRow = {
+  min_litres: number;
+  max_litres: number | null;
+  price_per_litre: number;
+};
+
+type CartLine = Pick<
+  Tables<'cart_items'>,
+  'product_id' | 'quantity_litres' | 'variant_selection' | 'measurement_label' | 'measurement_value'
+>;
+
+const getBasePrice = (product: PricedProduct) => product.offer_price_per_litre || product.price_per_litre || 0;
+
+// Mirrors the unit price used by the quote_order database function: the highest
+// tier reached by the quantity applies when it beats the regular price.
+export function getUnitPrice(product: PricedProduct | null | undefined, quantity = 1) {
+  if (!product) return 0;
+  const base = getBasePrice(product);
+  const tier = [...(product.product_price_tiers || [])]
+    .sort((a, b) => b.min_litres - a.min_litres)
+    .find((candidate) => candidate.min_litres <= quantity);
+  return tier ? Math.min(base, tier.price_per_litre) : base;
+}
+
+// Quantity ranges for the tier table, starting from 1 litre at the regular price.
+export function getPriceTierRows(product: PricedProduct | null | undefined): PriceTierRow[] {
+  if (!product?.product_price_tiers?.length) return [];
+  const tiers = [...product.product_price_tiers].sort((a, b) => a.min_litres - b.min_litres);
+  const starts = tiers[0].min_litres > 1 ? [{ min_litres: 1, price_per_litre: getBasePrice(product) }, ...tiers] : tiers;
+  return starts.map((tier, index) => ({
+    min_litres: tier.min_litres,
+    max_litres: index < starts.length - 1 ? starts[index + 1].min_litres - 1 : null,
+    price_per_litre: getUnitPrice(product, tier.min_litres),
+  }));
+}
+
+// Only identifiers and selections are sent; prices are always resolved server-side.
+export function toOrderItemInputs(items: CartLine[]): OrderItemInput[] {
+  return items.map((item) => ({
+    product_id: item.product_id,
+    quantity_litres: item.quantity_litres,
+    variant_selection: item.variant_selection ?? null,
+    measurement_label: item.measurement_label ?? null,
+    measurement_value: item.measurement_value ?? null,
+  }));
+}
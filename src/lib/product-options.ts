@@ -0,0 +1,28 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { VariantOption } from '@/types/products';
+
+// Variant values are saved either as plain labels or as { label, image_url } objects
+export function parseVariantOptions(values: Json | null | undefined): VariantOption[] {
+  if (!Array.isArray(values)) return [];
+  return values
+    .map((value): VariantOption | null => {
+      if (!value) return null;
+      if (typeof value === 'string') {
+        const label = value.trim();
+        return label ? { label } : null;
+      }
+      if (typeof value === 'object' && !Array.isArray(value)) {
+        const label = typeof value.label === 'string' ? value.label.trim() : '';
+        if (!label) return null;
+        const image_url =
+          typeof value.image_url === 'string' && value.image_url.length > 0 ? value.image_url : null;
+        return { label, image_url };
+      }
+      return null;
+    })
+    .filter((value): value is VariantOption => Boolean(value));
+}
+
+/** Label of the variant chosen on a cart or order line */
+export const getVariantLabel = (selection: Json | null) =>
+  (selection as { label?: string } | null)?.label ?? null;
@@ -0,0 +1,38 @@
+import QRCode from 'qrcode';
+
+// Generated in the browser so payment links and amounts never reach a third-party service
+export function toQrDataUrl(value: string, size = 240) {
+  return QRCode.toDataURL(value, { width: size, margin: 1, errorCorrectionLevel: 'M' });
+}
+
+/** Link printed on invoices and packing slips that opens the order on the customer's Orders page */
+export function getOrderTrackingUrl(orderId: string) {
+  return `${window.location.origin}/orders?order=${orderId}`;
+}
+
+export async function downloadQrCode(value: string, fileName: string) {
+  const link = document.createElement('a');
+  link.href = await toQrDataUrl(value, 600);
+  link.download = `${fileName}.png`;
+  link.click();
+}
+
+export async function printQrCode(value: string, title: string) {
+  const dataUrl = await toQrDataUrl(value, 600);
+  const printWindow = window.open('', '_blank', 'width=480,height=640');
+  if (!printWindow) throw new Error('Allow pop-ups to print the QR code');
+
+  const doc = printWindow.document;
+  doc.title = title;
+  doc.body.style.cssText = 'margin:0;display:flex;flex-direction:column;align-items:center;font-family:sans-serif';
+  const heading = doc.createElement('h2');
+  heading.textContent = title;
+  const image = doc.createElement('img');
+  image.src = dataUrl;
+  image.style.width = '320px';
+  image.onload = () => {
+    printWindow.focus();
+    printWindow.print();
+  };
+  doc.body.append(heading, image);
+}
@@ -0,0 +1,51 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { RefundLine, RefundMethod, RefundWithItems } from '@/types/refunds';
+
+export const REFUND_METHOD_LABELS: Record<RefundMethod, string> = {
+  gateway: 'Payment Gateway',
+  upi: 'UPI Transfer',
+  bank_transfer: 'Bank Transfer',
+  cash: 'Cash',
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const refundedLines = (item: Tables<'order_items'>, refunds: RefundWithItems[]) =>
+  refunds.flatMap((refund) => refund.refund_items).filter((line) => line.order_item_id === item.id);
+
+export function getRefundableLitres(item: Tables<'order_items'>, refunds: RefundWithItems[]) {
+  const refunded = refundedLines(item, refunds).reduce((sum, line) => sum + Number(line.quantity_litres), 0);
+  return Math.max(Number(item.quantity_litres) - refunded, 0);
+}
+
+const TAX_KEYS = ['taxable_amount', 'cgst_amount', 'sgst_amount', 'igst_amount'] as const;
+
+// Mirrors record_refund: litres are priced pro rata, and the last litres of a line take whatever is left of it.
+// Lines from before GST was recorded have no breakdown, so their share of total_price is refunded untaxed.
+export function calculateRefundLine(
+  item: Tables<'order_items'>,
+  quantity: number,
+  refunds: RefundWithItems[],
+): RefundLine {
+  const previous = refundedLines(item, refunds);
+  const hasTaxBreakdown = TAX_KEYS.some((key) => Number(item[key]) !== 0);
+  const amounts = TAX_KEYS.map((key) => {
+    const lineAmount = hasTaxBreakdown ? Number(item[key]) : key === 'taxable_amount' ? Number(item.total_price) : 0;
+    if (quantity >= getRefundableLitres(item, refunds)) {
+      return round(lineAmount - previous.reduce((sum, line) => sum + Number(line[key]), 0));
+    }
+    return round((lineAmount * quantity) / Number(item.quantity_litres));
+  });
+  const [taxable_amount, cgst_amount, sgst_amount, igst_amount] = amounts;
+
+  return {
+    order_item_id: item.id,
+    product_name: item.product_name,
+    quantity_litres: quantity,
+    taxable_amount,
+    cgst_amount,
+    sgst_amount,
+    igst_amount,
+    amount: round(amounts.reduce((sum, value) => sum + value, 0)),
+  };
+}
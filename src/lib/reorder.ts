@@ -0,0 +1,101 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getUnitPrice } from '@/lib/pricing';
+import { getAvailableStock } from '@/lib/stock';
+import { getVariantLabel, parseVariantOptions } from '@/lib/product-options';
+import type { Tables, TablesInsert } from '@/integrations/supabase/types';
+import type { ReorderResult } from '@/types/cart';
+
+type ReorderLine = Pick<
+  Tables<'order_items'>,
+  'product_id' | 'product_name' | 'quantity_litres' | 'price_per_litre' | 'variant_selection' | 'measurement_value'
+>;
+
+/**
+ * Copies an order's lines into the user's cart_items with the same variant and
+ * measurement. Each line is checked against the product as it is now: inactive
+ * products and options no longer offered are skipped, quantities are capped at
+ * the available stock, and price changes are reported. Like any add to cart, a
+ * product already in the cart has its line replaced.
+ */
+export async function reorderToCart(userId: string, items: ReorderLine[]): Promise<ReorderResult> {
+  const result: ReorderResult = { added: 0, skipped: [], changed: [] };
+  const productIds = [...new Set(items.map((item) => item.product_id))];
+  const { data: products, error } = await supabase
+    .from('products')
+    .select('*, product_price_tiers (*)')
+    .in('id', productIds);
+  if (error) throw error;
+
+  const rows: TablesInsert<'cart_items'>[] = [];
+  for (const item of items) {
+    const skip = (message: string) => result.skipped.push({ product_name: item.product_name, message });
+    const product = products.find((candidate) => candidate.id === item.product_id);
+    if (!product || !product.is_active) {
+      skip('No longer sold');
+      continue;
+    }
+    // cart_items holds one line per product
+    if (rows.some((row) => row.product_id === item.product_id)) {
+      skip('Already added from this order with another option');
+      continue;
+    }
+
+    const variantLabel = getVariantLabel(item.variant_selection);
+    const variantOptions = product.variant_enabled ? parseVariantOptions(product.variant_values) : [];
+    const variant = variantOptions.find((option) => option.label === variantLabel);
+    if (variantOptions.length > 0 && !variant) {
+      skip(
+        variantLabel
+          ? `${product.variant_title || 'Option'} "${variantLabel}" is no longer available`
+          : `Choose a ${product.variant_title || 'variant'} on the product page`,
+      );
+      continue;
+    }
+
+    const measurementValues = product.measurement_enabled ? product.measurement_values ?? [] : [];
+    if (measurementValues.length > 0 && !measurementValues.includes(item.measurement_value ?? '')) {
+      skip(
+        item.measurement_value
+          ? `${product.measurement_title || 'Measurement'} "${item.measurement_value}" is no longer available`
+          : `Choose a ${product.measurement_title || 'measurement option'} on the product page`,
+      );
+      continue;
+    }
+
+    const available = getAvailableStock(product);
+    if (available <= 0) {
+      skip('Out of stock');
+      continue;
+    }
+
+    const quantity = Math.min(item.quantity_litres, available);
+    const changes: string[] = [];
+    if (quantity < item.quantity_litres) {
+      changes.push(`only ${quantity}L of ${item.quantity_litres}L in stock`);
+    }
+    const price = getUnitPrice(product, quantity);
+    if (price !== Number(item.price_per_litre)) {
+      changes.push(`now ₹${price}/L (was ₹${item.price_per_litre}/L)`);
+    }
+    if (changes.length > 0) {
+      result.changed.push({ product_name: item.product_name, message: changes.join(', ') });
+    }
+
+    rows.push({
+      user_id: userId,
+      product_id: product.id,
+      quantity_litres: quantity,
+      variant_selection: variant ? { label: variant.label, image_url: variant.image_url ?? null } : null,
+      measurement_label: measurementValues.length > 0 ? product.measurement_title || null : null,
+      measurement_value: measurementValues.length > 0 ? item.measurement_value : null,
+    });
+  }
+
+  if (rows.length > 0) {
+    const { error: upsertError } = await supabase.from('cart_items').upsert(rows, { onConflict: 'user_id,product_id' });
+    if (upsertError) throw upsertError;
+  }
+
+  result.added = rows.length;
+  return result;
+}
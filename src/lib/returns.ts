@@ -0,0 +1,57 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { OrderStatusHistoryEntry } from '@/types/order-status';
+import type { ReturnStatus, ReturnWithItems } from '@/types/returns';
+
+const BUCKET = 'return-photos';
+const MAX_PHOTO_SIZE = 5 * 1024 * 1024;
+export const MAX_RETURN_PHOTOS = 4;
+
+export const RETURN_STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: 'Awaiting review',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  received: 'Received',
+  refunded: 'Refunded',
+  closed: 'Closed',
+};
+
+// Stored under the customer's own folder; the bucket's policies key off the first path segment
+export async function uploadReturnPhoto(userId: string, orderId: string, file: File) {
+  if (!file.type.startsWith('image/')) throw new Error('Return photos must be images');
+  if (file.size > MAX_PHOTO_SIZE) throw new Error('Each return photo must be under 5 MB');
+
+  const fileExt = file.name.split('.').pop();
+  const filePath = `${userId}/${orderId}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${fileExt}`;
+  const { error } = await supabase.storage.from(BUCKET).upload(filePath, file, { upsert: false });
+  if (error) throw new Error(`Upload failed: ${error.message}`);
+  return filePath;
+}
+
+// The bucket is private, so photos are opened through short-lived signed URLs
+export async function getReturnPhotoUrl(path: string) {
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(path, 10 * 60);
+  if (error) throw error;
+  return data.signedUrl;
+}
+
+/** Litres of an order line not already in a return; rejected returns give theirs back */
+export function getReturnableLitres(item: Tables<'order_items'>, returns: ReturnWithItems[]) {
+  const returned = returns
+    .filter((request) => request.status !== 'rejected')
+    .flatMap((request) => request.return_request_items)
+    .filter((line) => line.order_item_id === item.id)
+    .reduce((sum, line) => sum + Number(line.quantity_litres), 0);
+  return Math.max(Number(item.quantity_litres) - returned, 0);
+}
+
+// Mirrors request_return: the window runs from the last time the order was marked delivered
+export function getReturnDeadline(history: OrderStatusHistoryEntry[], windowDays: number) {
+  const deliveredAt = history
+    .filter((entry) => entry.field === 'status' && entry.to_status === 'delivered')
+    .map((entry) => entry.created_at)
+    .sort()
+    .pop();
+  if (!deliveredAt) return null;
+  return new Date(new Date(deliveredAt).getTime() + windowDays * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,55 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { Carrier, ShipmentStatus, ShipmentWithItems } from '@/types/shipments';
+
+export const OWN_DELIVERY = 'Own Delivery';
+
+export const CARRIERS: Carrier[] = [
+  {
+    name: 'Delhivery',
+    trackingUrl: (trackingNumber) => `https://www.delhivery.com/track/package/${encodeURIComponent(trackingNumber)}`,
+  },
+  {
+    name: 'Blue Dart',
+    trackingUrl: (trackingNumber) =>
+      `https://www.bluedart.com/web/guest/trackdartresult?trackFor=0&trackNo=${encodeURIComponent(trackingNumber)}`,
+  },
+  { name: 'India Post' },
+  { name: 'DTDC' },
+  { name: 'ST Courier' },
+  { name: 'The Professional Couriers' },
+  { name: OWN_DELIVERY },
+];
+
+export const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  pending: 'Awaiting Pickup',
+  shipped: 'In Transit',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+};
+
+// Mirrors enforce_shipment_status_transition
+export const SHIPMENT_STATUS_TRANSITIONS: Record<ShipmentStatus, ShipmentStatus[]> = {
+  pending: ['shipped', 'cancelled'],
+  shipped: ['delivered', 'cancelled'],
+  delivered: [],
+  cancelled: [],
+};
+
+export const getNextShipmentStatuses = (status: string) =>
+  SHIPMENT_STATUS_TRANSITIONS[status as ShipmentStatus] ?? [];
+
+/** Suggested tracking link for a known carrier, or '' when the admin has to paste one */
+export function getTrackingUrl(carrier: string, trackingNumber: string) {
+  const known = CARRIERS.find((entry) => entry.name === carrier);
+  return known?.trackingUrl && trackingNumber.trim() ? known.trackingUrl(trackingNumber.trim()) : '';
+}
+
+/** Litres of an order line not yet packed in a parcel; cancelled parcels give theirs back */
+export function getUnshippedLitres(item: Tables<'order_items'>, shipments: ShipmentWithItems[]) {
+  const allocated = shipments
+    .filter((shipment) => shipment.status !== 'cancelled')
+    .flatMap((shipment) => shipment.shipment_items)
+    .filter((line) => line.order_item_id === item.id)
+    .reduce((sum, line) => sum + Number(line.quantity_litres), 0);
+  return Math.max(Number(item.quantity_litres) - allocated, 0);
+}
@@ -0,0 +1,8 @@
+import type { PincodeRange } from '@/types/shipping';
+
+export const parsePincodeRanges = (value: unknown): PincodeRange[] => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((range) => range && typeof range.from === 'string' && typeof range.to === 'string')
+    .map((range) => ({ from: range.from, to: range.to }));
+};
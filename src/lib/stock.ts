@@ -0,0 +1,9 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+type StockedProduct = Pick<Tables<'products'>, 'stock_quantity' | 'reserved_quantity'>;
+
+// Litres that can still be ordered: physical stock minus what pending orders have reserved.
+export function getAvailableStock(product: StockedProduct | null | undefined) {
+  if (!product) return 0;
+  return Math.max(product.stock_quantity - (product.reserved_quantity || 0), 0);
+}
@@ -0,0 +1,33 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { PolicySection, StoreSettings } from '@/types/store-settings';
+
+export async function fetchStoreSettings(): Promise<StoreSettings> {
+  const [{ data: settings, error }, { data: taxSettings, error: taxError }] = await Promise.all([
+    supabase.from('store_settings').select('*').maybeSingle(),
+    supabase.from('tax_settings').select('seller_gstin').maybeSingle(),
+  ]);
+  if (error) throw error;
+  if (taxError) throw taxError;
+  if (!settings) throw new Error('Store settings have not been set up');
+
+  return { ...settings, gstin: taxSettings?.seller_gstin ?? null };
+}
+
+/**
+ * Splits policy text into sections: blank lines separate sections, the first
+ * line of each is its heading and lines starting with "- " are list items.
+ */
+export const parsePolicyText = (text: string | null): PolicySection[] =>
+  (text || '')
+    .split(/\n\s*\n/)
+    .map((block) => block.split('\n').map((line) => line.trim()).filter(Boolean))
+    .filter((lines) => lines.length > 0)
+    .map(([heading, ...lines]) => ({
+      heading,
+      paragraphs: lines.filter((line) => !line.startsWith('- ')),
+      items: lines.filter((line) => line.startsWith('- ')).map((line) => line.slice(2)),
+    }));
+
+/** Multi-line settings such as the address, one entry per line */
+export const splitLines = (text: string | null) =>
+  (text || '').split('\n').map((line) => line.trim()).filter(Boolean);
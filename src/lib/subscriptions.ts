@@ -0,0 +1,49 @@
+import { getVariantLabel } from '@/lib/product-options';
+import type { Tables } from '@/integrations/supabase/types';
+import type { IntervalUnit, SubscriptionAction, SubscriptionStatus } from '@/types/subscriptions';
+
+export const SUBSCRIPTION_STATUS_LABELS: Record<SubscriptionStatus, string> = {
+  active: 'Active',
+  paused: 'Paused',
+  cancelled: 'Cancelled',
+};
+
+export const SUBSCRIPTION_STATUS_COLORS: Record<SubscriptionStatus, string> = {
+  active: 'bg-green-500',
+  paused: 'bg-yellow-500',
+  cancelled: 'bg-red-500',
+};
+
+export const SUBSCRIPTION_ACTION_LABELS: Record<SubscriptionAction, string> = {
+  skip: 'Skip Next Delivery',
+  pause: 'Pause',
+  resume: 'Resume',
+  cancel: 'Cancel',
+};
+
+// Mirrors update_subscription
+export const getSubscriptionActions = (status: string): SubscriptionAction[] =>
+  status === 'active' ? ['skip', 'pause', 'cancel'] : status === 'paused' ? ['resume', 'cancel'] : [];
+
+export function describeFrequency(unit: string, count: number) {
+  const label = (unit as IntervalUnit) === 'week' ? 'week' : 'month';
+  return count === 1 ? `Every ${label}` : `Every ${count} ${label}s`;
+}
+
+export function describeSubscriptionItem(
+  item: Pick<Tables<'subscription_items'>, 'quantity_litres' | 'variant_selection' | 'measurement_label' | 'measurement_value'>,
+  productName: string,
+) {
+  const options = [
+    getVariantLabel(item.variant_selection),
+    item.measurement_value && `${item.measurement_label || 'Measurement'}: ${item.measurement_value}`,
+  ].filter(Boolean);
+  return `${productName} × ${item.quantity_litres}L${options.length ? ` (${options.join(', ')})` : ''}`;
+}
+
+/** Delivery dates are calendar days; show them without shifting to UTC */
+export const formatRunDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+/** Local calendar date as YYYY-MM-DD, for date inputs and next_run_on */
+export const toDateInputValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
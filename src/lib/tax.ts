@@ -0,0 +1,12 @@
+import type { TaxAmounts, TaxLine } from '@/types/tax';
+
+type SplitTax = Pick<TaxAmounts, 'cgst_amount' | 'sgst_amount' | 'igst_amount'>;
+
+// CGST + SGST for intra-state supplies, IGST for inter-state ones; zero components are left out.
+export function getTaxLines(amounts: SplitTax): TaxLine[] {
+  const lines: TaxLine[] = [];
+  if (amounts.cgst_amount > 0) lines.push({ label: 'CGST', amount: amounts.cgst_amount });
+  if (amounts.sgst_amount > 0) lines.push({ label: 'SGST', amount: amounts.sgst_amount });
+  if (amounts.igst_amount > 0) lines.push({ label: 'IGST', amount: amounts.igst_amount });
+  return lines;
+}
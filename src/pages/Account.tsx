@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAddresses } from '@/hooks/use-addresses';
+import Navbar from '@/components/Navbar';
+import AddressFormDialog from '@/components/AddressFormDialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { MapPin, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { getAddressLines } from '@/lib/address';
+import type { Address } from '@/types/address';
+
+export default function Account() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: addresses } = useAddresses();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingAddress, setEditingAddress] = useState<Address | null>(null);
+
+  const setDefaultMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('addresses').update({ is_default: true }).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Default address updated');
+      queryClient.invalidateQueries({ queryKey: ['addresses'] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('addresses').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Address removed');
+      queryClient.invalidateQueries({ queryKey: ['addresses'] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  if (!user) {
+    navigate('/auth');
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold mb-2">My Account</h1>
+        <p className="text-muted-foreground mb-8">{user.email}</p>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center gap-2">
+                <MapPin className="h-5 w-5" />
+                Address Book
+              </CardTitle>
+              <Button
+                size="sm"
+                onClick={() => {
+                  setEditingAddress(null);
+                  setIsDialogOpen(true);
+                }}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Address
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {addresses && addresses.length > 0 ? (
+              <div className="grid md:grid-cols-2 gap-4">
+                {addresses.map((address) => (
+                  <div key={address.id} className="border rounded-lg p-4 space-y-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="text-sm space-y-0.5">
+                        {getAddressLines(address).map((line, index) => (
+                          <p key={index} className={index === 0 ? 'font-semibold' : 'text-muted-foreground'}>
+                            {line}
+                          </p>
+                        ))}
+                      </div>
+                      {address.is_default && <Badge variant="secondary">Default</Badge>}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          setEditingAddress(address);
+                          setIsDialogOpen(true);
+                        }}
+                      >
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Edit
+                      </Button>
+                      {!address.is_default && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setDefaultMutation.mutate(address.id)}
+                          disabled={setDefaultMutation.isPending}
+                        >
+                          Set as Default
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          if (confirm('Are you sure you want to delete this address?')) {
+                            deleteMutation.mutate(address.id);
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-muted-foreground">You have not saved any addresses yet.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <AddressFormDialog
+        open={isDialogOpen}
+        onOpenChange={(open) => {
+          setIsDialogOpen(open);
+          if (!open) setEditingAddress(null);
+        }}
+        address={editingAddress}
+      />
+    </div>
+  );
+}
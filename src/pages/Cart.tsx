@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
@@ -6,35 +7,61 @@ import Navbar from '@/components/Navbar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
-import { Trash2, Minus, Plus } from 'lucide-react';
+import { Trash2, Minus, Plus, Repeat } from 'lucide-react';
 import { toast } from 'sonner';
+import SubscribeDialog from '@/components/SubscribeDialog';
+import { getUnitPrice, toOrderItemInputs } from '@/lib/pricing';
+import { getAvailableStock } from '@/lib/stock';
+import { getGuestCart, removeGuestCartItem, updateGuestCartQuantity } from '@/lib/guest-cart';
+import type { OrderItemInput } from '@/types/orders';
 
 export default function Cart() {
   const { user } = useAuth();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const [subscribeItems, setSubscribeItems] = useState<OrderItemInput[] | null>(null);
 
   const { data: cartItems } = useQuery({
     queryKey: ['cart', user?.id],
     queryFn: async () => {
-      if (!user) return [];
+      if (!user) {
+        // Guest lines are keyed by product, mirroring the one-line-per-product rule of cart_items
+        const guestItems = getGuestCart();
+        if (guestItems.length === 0) return [];
+
+        const { data: products, error } = await supabase
+          .from('products')
+          .select('*, product_price_tiers (*)')
+          .in('id', guestItems.map((item) => item.product_id));
+
+        if (error) throw error;
+        return guestItems.map((item) => ({
+          ...item,
+          id: item.product_id,
+          products: products.find((product) => product.id === item.product_id) ?? null,
+        }));
+      }
 
       const { data, error } = await supabase
         .from('cart_items')
         .select(`
           *,
-          products (*)
+          products (*, product_price_tiers (*))
         `)
         .eq('user_id', user.id);
 
       if (error) throw error;
       return data;
     },
-    enabled: !!user,
   });
 
   const updateQuantityMutation = useMutation({
     mutationFn: async ({ id, quantity }: { id: string; quantity: number }) => {
+      if (!user) {
+        updateGuestCartQuantity(id, quantity);
+        return;
+      }
+
       const { error } = await supabase
         .from('cart_items')
         .update({ quantity_litres: quantity })
@@ -49,6 +76,11 @@ export default function Cart() {
 
   const removeItemMutation = useMutation({
     mutationFn: async (id: string) => {
+      if (!user) {
+        removeGuestCartItem(id);
+        return;
+      }
+
       const { error } = await supabase
         .from('cart_items')
         .delete()
@@ -64,14 +96,17 @@ export default function Cart() {
   });
 
   const total = cartItems?.reduce((sum, item) => {
-    const price = item.products?.offer_price_per_litre || item.products?.price_per_litre || 0;
-    return sum + price * item.quantity_litres;
+    return sum + getUnitPrice(item.products, item.quantity_litres) * item.quantity_litres;
   }, 0) || 0;
 
-  if (!user) {
-    navigate('/auth');
-    return null;
-  }
+  const handleCheckout = () => {
+    if (!user) {
+      toast.info('Please login to checkout. Your cart will be kept.');
+      navigate('/auth');
+      return;
+    }
+    navigate('/checkout');
+  };
 
   return (
     <div className="min-h-screen bg-background">
@@ -87,7 +122,9 @@ export default function Cart() {
                 const product = item.products;
                 if (!product) return null;
 
-                const price = product.offer_price_per_litre || product.price_per_litre;
+                const price = getUnitPrice(product, item.quantity_litres);
+                const isBulkPrice = price < getUnitPrice(product);
+                const available = getAvailableStock(product);
 
                 return (
                   <Card key={item.id}>
@@ -102,6 +139,7 @@ export default function Cart() {
                           <h3 className="font-semibold text-lg mb-2">{product.name}</h3>
                           <p className="text-muted-foreground mb-2">
                             ₹{price.toFixed(2)} / litre
+                            {isBulkPrice && <span className="ml-2 text-xs text-green-600">Bulk price applied</span>}
                           </p>
                           {(item.variant_selection?.label || item.measurement_value) && (
                             <div className="text-xs text-muted-foreground space-y-1 mb-3">
@@ -155,10 +193,16 @@ export default function Cart() {
                                   quantity: item.quantity_litres + 1,
                                 })
                               }
+                              disabled={item.quantity_litres + 1 > available}
                             >
                               <Plus className="h-4 w-4" />
                             </Button>
                           </div>
+                          {item.quantity_litres > available && (
+                            <p className="text-sm text-destructive mt-2">
+                              {available > 0 ? `Only ${available} litres available` : 'Out of stock'}
+                            </p>
+                          )}
                         </div>
                         <div className="text-right">
                           <p className="text-lg font-bold mb-2">
@@ -197,10 +241,20 @@ export default function Cart() {
                     <Button
                       className="w-full"
                       size="lg"
-                      onClick={() => navigate('/checkout')}
+                      onClick={handleCheckout}
                     >
                       Proceed to Checkout
                     </Button>
+                    {user && (
+                      <Button
+                        variant="outline"
+                        className="w-full mt-2"
+                        onClick={() => setSubscribeItems(toOrderItemInputs(cartItems))}
+                      >
+                        <Repeat className="h-4 w-4 mr-2" />
+                        Subscribe & Repeat
+                      </Button>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -213,6 +267,7 @@ export default function Cart() {
           </div>
         )}
       </div>
+      <SubscribeDialog items={subscribeItems} onOpenChange={(open) => !open && setSubscribeItems(null)} />
     </div>
   );
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
@@ -7,13 +7,22 @@ import Navbar from '@/components/Navbar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { toast } from 'sonner';
 import { z } from 'zod';
+import AddressFormDialog from '@/components/AddressFormDialog';
+import { useAddresses } from '@/hooks/use-addresses';
+import { getAddressLines } from '@/lib/address';
+import { toOrderItemInputs } from '@/lib/pricing';
+import { getAvailableStock } from '@/lib/stock';
+import { getTaxLines } from '@/lib/tax';
+import { clearCheckoutSession, getCheckoutIdempotencyKey } from '@/lib/checkout-session';
+import type { OrderQuote } from '@/types/orders';
+import type { PaymentMethod } from '@/types/payments';
 
 const checkoutSchema = z.object({
-  address: z.string().min(10, 'Address must be at least 10 characters'),
+  addressId: z.string().min(1, 'Please select a shipping address'),
   couponCode: z.string().optional(),
 });
 
@@ -21,9 +30,11 @@ export default function Checkout() {
   const { user } = useAuth();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
-  const [address, setAddress] = useState('');
+  const [addressId, setAddressId] = useState('');
+  const [isAddressDialogOpen, setIsAddressDialogOpen] = useState(false);
   const [couponCode, setCouponCode] = useState('');
-  const [appliedCoupon, setAppliedCoupon] = useState<any>(null);
+  const [appliedCoupon, setAppliedCoupon] = useState<string | null>(null);
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('upi');
 
   const { data: cartItems } = useQuery({
     queryKey: ['cart', user?.id],
@@ -41,89 +52,81 @@ export default function Checkout() {
     enabled: !!user,
   });
 
-  const subtotal = cartItems?.reduce((sum, item) => {
-    const price = item.products?.offer_price_per_litre || item.products?.price_per_litre || 0;
-    return sum + price * item.quantity_litres;
-  }, 0) || 0;
+  const { data: addresses } = useAddresses();
 
-  const discount = appliedCoupon
-    ? appliedCoupon.discount_type === 'percentage'
-      ? Math.min(
-          (subtotal * appliedCoupon.discount_value) / 100,
-          appliedCoupon.max_discount_amount || Infinity
-        )
-      : appliedCoupon.discount_value
-    : 0;
+  // Preselect the default address (the list is ordered default-first)
+  useEffect(() => {
+    if (!addressId && addresses?.length) {
+      setAddressId(addresses[0].id);
+    }
+  }, [addresses, addressId]);
 
-  const total = subtotal - discount;
+  const orderItems = useMemo(() => toOrderItemInputs(cartItems || []), [cartItems]);
+
+  const stockIssues = useMemo(
+    () =>
+      (cartItems || [])
+        .filter((item) => item.quantity_litres > getAvailableStock(item.products))
+        .map((item) => {
+          const available = getAvailableStock(item.products);
+          return available > 0
+            ? `Only ${available} litres of ${item.products?.name} available`
+            : `${item.products?.name} is out of stock`;
+        }),
+    [cartItems],
+  );
+
+  const fetchQuote = async (code: string | null) => {
+    const { data, error } = await supabase.rpc('quote_order', {
+      _items: orderItems,
+      _coupon_code: code ?? undefined,
+      _address_id: addressId || undefined,
+      _payment_method: paymentMethod,
+    });
+    if (error) throw error;
+    return data as unknown as OrderQuote;
+  };
+
+  // Totals always come from the server so the summary matches what place_order will charge
+  const { data: quote, error: quoteError } = useQuery({
+    queryKey: ['order-quote', orderItems, appliedCoupon, addressId, paymentMethod],
+    queryFn: () => fetchQuote(appliedCoupon),
+    enabled: orderItems.length > 0,
+    retry: false,
+  });
+
+  const subtotal = quote?.subtotal ?? 0;
+  const discount = quote?.discount_amount ?? 0;
+  const shipping = quote?.shipping_amount ?? 0;
+  const codFee = quote?.cod_fee ?? 0;
+  const total = quote?.final_amount ?? 0;
 
   // Create a pending order and items in Supabase before initiating payment
   const createSupabaseOrder = async () => {
-    if (!user || !cartItems?.length) throw new Error('Cart is empty');
-    const orderNumber = `ORD-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
-    const { data: order, error: orderError } = await supabase
-      .from('orders')
-      .insert({
-        user_id: user.id,
-        order_number: orderNumber,
-        total_amount: subtotal,
-        discount_amount: discount,
-        final_amount: total,
-        coupon_code: appliedCoupon?.code,
-        shipping_address: address,
-        status: 'pending',
-        payment_status: 'pending',
-      })
-      .select()
-      .single();
-
-    if (orderError) throw orderError;
-
-    const orderItems = cartItems.map((item) => ({
-      order_id: order.id,
-      product_id: item.product_id,
-      product_name: item.products?.name || '',
-      quantity_litres: item.quantity_litres,
-      price_per_litre: item.products?.offer_price_per_litre || item.products?.price_per_litre || 0,
-      total_price:
-        (item.products?.offer_price_per_litre || item.products?.price_per_litre || 0) * item.quantity_litres,
-      variant_selection: item.variant_selection || null,
-      measurement_label: item.measurement_label || item.products?.measurement_title || null,
-      measurement_value: item.measurement_value || null,
-    }));
-
-    const { error: itemsError } = await supabase.from('order_items').insert(orderItems);
-    if (itemsError) throw itemsError;
+    if (!user || !orderItems.length) throw new Error('Cart is empty');
+    const { data: order, error } = await supabase.rpc('place_order', {
+      _items: orderItems,
+      _address_id: addressId,
+      _coupon_code: appliedCoupon ?? undefined,
+      _payment_method: paymentMethod,
+      _idempotency_key: getCheckoutIdempotencyKey({ orderItems, addressId, appliedCoupon, paymentMethod }),
+    });
+
+    if (error) throw error;
     return order;
   };
 
   const applyCouponMutation = useMutation({
     mutationFn: async () => {
-      const { data, error } = await supabase
-        .from('coupons')
-        .select('*')
-        .eq('code', couponCode.toUpperCase())
-        .eq('is_active', true)
-        .maybeSingle();
-
-      if (error) throw error;
-      if (!data) throw new Error('Invalid coupon code');
-
-      if (data.min_order_amount && subtotal < data.min_order_amount) {
-        throw new Error(`Minimum order amount is ₹${data.min_order_amount}`);
-      }
-
-      if (data.valid_until && new Date(data.valid_until) < new Date()) {
-        throw new Error('Coupon has expired');
-      }
-
-      return data;
+      const code = couponCode.trim().toUpperCase();
+      await fetchQuote(code);
+      return code;
     },
-    onSuccess: (data) => {
-      setAppliedCoupon(data);
+    onSuccess: (code) => {
+      setAppliedCoupon(code);
       toast.success('Coupon applied successfully');
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       toast.error(error.message);
     },
   });
@@ -133,30 +136,46 @@ export default function Checkout() {
       if (!user) throw new Error('Please login');
 
       try {
-        checkoutSchema.parse({ address });
+        checkoutSchema.parse({ addressId });
       } catch (error) {
         if (error instanceof z.ZodError) {
           throw new Error(error.errors[0].message);
         }
       }
 
-      if (!cartItems || cartItems.length === 0) {
+      if (orderItems.length === 0) {
         throw new Error('Cart is empty');
       }
 
+      if (stockIssues.length > 0) {
+        throw new Error(stockIssues[0]);
+      }
+
       // Create pending order and items
       const order = await createSupabaseOrder();
 
       // For UPI/QR: show instructions and keep payment_status pending. Users will pay via UPI and share reference.
       // Optionally, you could prompt users to upload UPI reference/txn id on next screen.
+      // COD orders need no payment step, so the cart is cleared straight away.
+      if (order.payment_method === 'cod') {
+        const { error } = await supabase.from('cart_items').delete().eq('user_id', user.id);
+        if (error) throw error;
+      }
 
       return order;
     },
     onSuccess: (order) => {
-      toast.success('Order created. Proceed to pay.');
       queryClient.invalidateQueries({ queryKey: ['cart'] });
       queryClient.invalidateQueries({ queryKey: ['cart-count'] });
-      navigate(`/payment?orderId=${order.id}`);
+      queryClient.invalidateQueries({ queryKey: ['product'] });
+      if (order.payment_method === 'cod') {
+        clearCheckoutSession();
+        toast.success('Order placed successfully!');
+        navigate(`/order-placed?orderId=${order.id}`);
+      } else {
+        toast.success('Order created. Proceed to pay.');
+        navigate(`/payment?orderId=${order.id}`);
+      }
     },
     onError: (error: any) => {
       toast.error(error.message);
@@ -179,21 +198,98 @@ export default function Checkout() {
           <div className="lg:col-span-2 space-y-6">
             <Card>
               <CardHeader>
-                <CardTitle>Shipping Address</CardTitle>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Shipping Address</CardTitle>
+                  <Button variant="outline" size="sm" onClick={() => setIsAddressDialogOpen(true)}>
+                    Add New Address
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {addresses && addresses.length > 0 ? (
+                  <RadioGroup value={addressId} onValueChange={setAddressId} className="space-y-3">
+                    {addresses.map((address) => (
+                      <Label
+                        key={address.id}
+                        htmlFor={`address-${address.id}`}
+                        className="flex items-start gap-3 border rounded-lg p-4 cursor-pointer font-normal"
+                      >
+                        <RadioGroupItem value={address.id} id={`address-${address.id}`} className="mt-1" />
+                        <span className="text-sm leading-6">
+                          <span className="font-semibold">{address.full_name}</span>
+                          {address.is_default && <span className="text-muted-foreground"> (Default)</span>}
+                          <br />
+                          {getAddressLines(address).slice(1).join(', ')}
+                        </span>
+                      </Label>
+                    ))}
+                  </RadioGroup>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    Add a shipping address to continue with your order.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Payment Method</CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  <div>
-                    <Label htmlFor="address">Address</Label>
-                    <Textarea
-                      id="address"
-                      value={address}
-                      onChange={(e) => setAddress(e.target.value)}
-                      placeholder="Enter your complete shipping address"
-                      rows={4}
+                <RadioGroup
+                  value={paymentMethod}
+                  onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}
+                  className="space-y-3"
+                >
+                  <Label
+                    htmlFor="payment-upi"
+                    className="flex items-start gap-3 border rounded-lg p-4 cursor-pointer font-normal"
+                  >
+                    <RadioGroupItem value="upi" id="payment-upi" className="mt-1" />
+                    <span className="text-sm leading-6">
+                      <span className="font-semibold">UPI</span>
+                      <br />
+                      Scan the QR code or pay to our UPI ID after placing the order
+                    </span>
+                  </Label>
+                  <Label
+                    htmlFor="payment-cod"
+                    className={`flex items-start gap-3 border rounded-lg p-4 font-normal ${
+                      quote && !quote.cod_available ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'
+                    }`}
+                  >
+                    <RadioGroupItem
+                      value="cod"
+                      id="payment-cod"
+                      className="mt-1"
+                      disabled={!!quote && !quote.cod_available}
                     />
-                  </div>
-                </div>
+                    <span className="text-sm leading-6">
+                      <span className="font-semibold">Cash on Delivery</span>
+                      {!!quote?.cod_charge && (
+                        <span className="text-muted-foreground"> (+₹{quote.cod_charge.toFixed(2)} fee)</span>
+                      )}
+                      <br />
+                      {quote && !quote.cod_available
+                        ? quote.cod_unavailable_reason
+                        : 'Pay in cash when your order is delivered'}
+                    </span>
+                  </Label>
+                  {quote?.gateway_available && (
+                    <Label
+                      htmlFor="payment-gateway"
+                      className="flex items-start gap-3 border rounded-lg p-4 cursor-pointer font-normal"
+                    >
+                      <RadioGroupItem value="gateway" id="payment-gateway" className="mt-1" />
+                      <span className="text-sm leading-6">
+                        <span className="font-semibold">Card / Netbanking</span>
+                        <br />
+                        Pay securely with a debit/credit card or netbanking
+                      </span>
+                    </Label>
+                  )}
+                </RadioGroup>
               </CardContent>
             </Card>
 
@@ -249,8 +345,51 @@ export default function Checkout() {
                       <span>-₹{discount.toFixed(2)}</span>
                     </div>
                   )}
+                  <div className="flex justify-between">
+                    <span>Shipping</span>
+                    <span>
+                      {!addressId || !quote?.shipping_zone
+                        ? 'Select address'
+                        : shipping > 0
+                          ? `₹${shipping.toFixed(2)}`
+                          : 'FREE'}
+                    </span>
+                  </div>
+                  {shipping > 0 && quote?.free_shipping_threshold != null && (
+                    <p className="text-xs text-muted-foreground">
+                      Free shipping on orders above ₹{quote.free_shipping_threshold}
+                    </p>
+                  )}
+                  {quote && getTaxLines(quote).map((tax) => (
+                    <div
+                      key={tax.label}
+                      className={`flex justify-between ${quote.prices_include_tax ? 'text-sm text-muted-foreground' : ''}`}
+                    >
+                      <span>
+                        {tax.label}
+                        {quote.prices_include_tax && ' (included)'}
+                      </span>
+                      <span>₹{tax.amount.toFixed(2)}</span>
+                    </div>
+                  ))}
+                  {codFee > 0 && (
+                    <div className="flex justify-between">
+                      <span>COD Fee</span>
+                      <span>₹{codFee.toFixed(2)}</span>
+                    </div>
+                  )}
                 </div>
                 
+                {quoteError && <p className="text-sm text-destructive">{quoteError.message}</p>}
+
+                {stockIssues.length > 0 && (
+                  <div className="space-y-1 text-sm text-destructive">
+                    {stockIssues.map((issue) => (
+                      <p key={issue}>{issue}</p>
+                    ))}
+                  </div>
+                )}
+
                 <div className="border-t pt-4">
                   <div className="flex justify-between text-lg font-bold mb-4">
                     <span>Total</span>
@@ -260,9 +399,13 @@ export default function Checkout() {
                     className="w-full"
                     size="lg"
                     onClick={() => placeOrderMutation.mutate()}
-                    disabled={placeOrderMutation.isPending}
+                    disabled={placeOrderMutation.isPending || stockIssues.length > 0 || !!quoteError}
                   >
-                    {placeOrderMutation.isPending ? 'Creating Order...' : 'Proceed to Pay'}
+                    {placeOrderMutation.isPending
+                      ? 'Creating Order...'
+                      : paymentMethod === 'cod'
+                        ? 'Place Order'
+                        : 'Proceed to Pay'}
                   </Button>
                 </div>
               </CardContent>
@@ -270,6 +413,12 @@ export default function Checkout() {
           </div>
         </div>
       </div>
+
+      <AddressFormDialog
+        open={isAddressDialogOpen}
+        onOpenChange={setIsAddressDialogOpen}
+        onSaved={(address) => setAddressId(address.id)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -2,8 +2,13 @@ import Navbar from '@/components/Navbar';
 import Footer from '@/components/Footer';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { MapPin, Phone, Mail, Clock, Building2 } from 'lucide-react';
+import { useStoreSettings } from '@/hooks/use-store-settings';
+import { splitLines } from '@/lib/store-settings';
 
 export default function Contact() {
+  const { data: settings } = useStoreSettings();
+  const addressLines = splitLines(settings?.address ?? null);
+
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
@@ -13,7 +18,7 @@ export default function Contact() {
           <div className="max-w-3xl mx-auto text-center">
             <h1 className="text-4xl md:text-5xl font-bold mb-4">Contact Us</h1>
             <p className="text-lg text-muted-foreground">
-              Get in touch with Sri Aarumugan Oil Mills. We're here to assist you.
+              Get in touch with {settings?.store_name || 'us'}. We're here to assist you.
             </p>
           </div>
         </div>
@@ -35,11 +40,9 @@ export default function Contact() {
                   <div>
                     <h3 className="font-semibold mb-2">Address</h3>
                     <p className="text-muted-foreground leading-relaxed">
-                      158Z-2/4, Vijayapuri Road<br />
-                      East Pandavarmangalam<br />
-                      Kovilpatti, Thoothukudi<br />
-                      Tamil Nadu - 628501<br />
-                      India
+                      {addressLines.map((line) => (
+                        <span key={line} className="block">{line}</span>
+                      ))}
                     </p>
                   </div>
                 </CardContent>
@@ -58,14 +61,14 @@ export default function Contact() {
                       <Mail className="h-5 w-5 text-primary mt-0.5 shrink-0" />
                       <div>
                         <p className="font-medium">Email</p>
-                        <p className="text-muted-foreground">info@sriaarumuganoilmills.com</p>
+                        <p className="text-muted-foreground">{settings?.contact_email}</p>
                       </div>
                     </div>
                     <div className="flex items-start gap-3">
                       <Phone className="h-5 w-5 text-primary mt-0.5 shrink-0" />
                       <div>
                         <p className="font-medium">Phone</p>
-                        <p className="text-muted-foreground">Contact us for inquiries</p>
+                        <p className="text-muted-foreground">{settings?.contact_phone || 'Contact us for inquiries'}</p>
                       </div>
                     </div>
                   </div>
@@ -84,15 +87,16 @@ export default function Contact() {
                     <div>
                       <p className="font-medium mb-2">Operating Days</p>
                       <div className="space-y-1 text-sm text-muted-foreground">
-                        <p>Monday - Saturday: Open</p>
-                        <p>Sunday: Closed</p>
+                        {splitLines(settings?.business_hours ?? null).map((line) => (
+                          <p key={line}>{line}</p>
+                        ))}
                       </div>
                     </div>
                     <div>
                       <p className="font-medium mb-2">Company Details</p>
                       <div className="space-y-1 text-sm text-muted-foreground">
-                        <p>GST No: 33AEMFS3450E1Z5</p>
-                        <p>Legal Status: Partnership</p>
+                        {settings?.gstin && <p>GST No: {settings.gstin}</p>}
+                        {settings?.legal_status && <p>Legal Status: {settings.legal_status}</p>}
                       </div>
                     </div>
                   </div>
@@ -115,11 +119,11 @@ export default function Contact() {
                     allowFullScreen
                     loading="lazy"
                     referrerPolicy="no-referrer-when-downgrade"
-                    title="Sri Aarumugan Oil Mills Location"
+                    title={`${settings?.store_name || 'Store'} Location`}
                   ></iframe>
                 </div>
                 <p className="text-sm text-muted-foreground mt-4 text-center">
-                  Vijayapuri Road, East Pandavarmangalam, Kovilpatti, Thoothukudi - 628501
+                  {addressLines.join(', ')}
                 </p>
               </CardContent>
             </Card>
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { CheckCircle2, Clock, XCircle } from 'lucide-react';
+import { getMockGatewayReturnUrl, type MockGatewayOutcome } from '@/lib/mock-gateway';
+
+// Hosted checkout of the offline mock gateway, used to exercise each payment outcome end to end
+export default function MockGateway() {
+  const navigate = useNavigate();
+  const [params] = useSearchParams();
+  const [timingOut, setTimingOut] = useState(false);
+
+  const complete = (outcome: MockGatewayOutcome) => {
+    navigate(getMockGatewayReturnUrl(params, outcome), { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-muted/40 flex items-center justify-center px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Mock Payment Gateway</CardTitle>
+            <Badge variant="outline">Test mode</Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Order</span>
+              <span className="font-medium">{params.get('orderNumber')}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Reference</span>
+              <span className="font-mono text-xs">{params.get('reference')}</span>
+            </div>
+            <Separator />
+            <div className="flex justify-between text-lg font-bold">
+              <span>Amount</span>
+              <span className="text-primary">₹{params.get('amount')}</span>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            No money moves here. Choose how the payment should end to test the storefront's handling.
+          </p>
+          <div className="grid gap-2">
+            <Button className="bg-green-600 hover:bg-green-700" onClick={() => complete('success')} disabled={timingOut}>
+              <CheckCircle2 className="mr-2 h-4 w-4" />
+              Simulate Success
+            </Button>
+            <Button variant="destructive" onClick={() => complete('failed')} disabled={timingOut}>
+              <XCircle className="mr-2 h-4 w-4" />
+              Simulate Failure
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => {
+                setTimingOut(true);
+                setTimeout(() => complete('timeout'), 3000);
+              }}
+              disabled={timingOut}
+            >
+              <Clock className="mr-2 h-4 w-4" />
+              {timingOut ? 'Timing out…' : 'Simulate Timeout'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
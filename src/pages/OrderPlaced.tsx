@@ -0,0 +1,121 @@
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import Navbar from '@/components/Navbar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { CheckCircle2 } from 'lucide-react';
+import { formatOrderAddress } from '@/lib/address';
+
+// Confirmation for Cash on Delivery orders, which skip the UPI payment screens
+export default function OrderPlaced() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const [params] = useSearchParams();
+  const orderId = params.get('orderId');
+
+  const { data: order, isLoading } = useQuery({
+    queryKey: ['order', orderId],
+    queryFn: async () => {
+      if (!orderId) return null;
+      const { data, error } = await supabase
+        .from('orders')
+        .select('*, order_items(*)')
+        .eq('id', orderId)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!orderId && !!user,
+  });
+
+  if (!user) {
+    navigate('/auth');
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="bg-gradient-to-r from-primary/10 via-primary/5 to-transparent border-b">
+        <div className="container mx-auto px-4 py-10 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <CheckCircle2 className="h-10 w-10 text-green-600" />
+            <div>
+              <h1 className="text-3xl font-bold">Order Placed</h1>
+              <p className="text-sm text-muted-foreground mt-1">
+                {order ? `Order: ${order.order_number}` : isLoading ? 'Loading order details...' : 'Order not found'}
+              </p>
+            </div>
+          </div>
+          <Badge variant="secondary" className="text-amber-700 bg-amber-100 border border-amber-300">
+            Cash on Delivery
+          </Badge>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8">
+        {order && (
+          <div className="grid lg:grid-cols-3 gap-8">
+            <div className="lg:col-span-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Order Details</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    {order.order_items?.map((item) => (
+                      <div key={item.id} className="flex justify-between text-sm">
+                        <span>
+                          <span className="font-medium">{item.product_name}</span>{' '}
+                          <span className="text-muted-foreground">({item.quantity_litres}L)</span>
+                        </span>
+                        <span>₹{item.total_price.toFixed(2)}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <Separator />
+                  <p className="text-sm">
+                    <span className="font-semibold">Delivery Address:</span> {formatOrderAddress(order)}
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Pay on Delivery</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {order.cod_fee > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span>COD Fee</span>
+                      <span>₹{order.cod_fee.toFixed(2)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between text-lg font-bold">
+                    <span>Amount Due</span>
+                    <span className="text-primary">₹{order.final_amount.toFixed(2)}</span>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Please keep the exact amount ready in cash when your order is delivered.
+                  </p>
+                  <Button className="w-full" onClick={() => navigate('/orders')}>
+                    View My Orders
+                  </Button>
+                  <Button className="w-full" variant="outline" onClick={() => navigate('/products')}>
+                    Continue Shopping
+                  </Button>
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
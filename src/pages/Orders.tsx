@@ -1,14 +1,50 @@
-import { useQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useEffect, useState } from 'react';
 import Navbar from '@/components/Navbar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ExternalLink, Repeat, RotateCcw, Undo2, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatOrderAddress } from '@/lib/address';
+import { getTaxLines } from '@/lib/tax';
+import { getPaymentProvider } from '@/lib/payment-providers';
+import { CUSTOMER_CANCELLABLE_STATUSES } from '@/lib/order-status';
+import { REFUND_METHOD_LABELS } from '@/lib/refunds';
+import { SHIPMENT_STATUS_LABELS } from '@/lib/shipments';
+import { RETURN_STATUS_LABELS, getReturnDeadline, getReturnableLitres } from '@/lib/returns';
+import { reorderToCart } from '@/lib/reorder';
+import { toOrderItemInputs } from '@/lib/pricing';
+import { useStoreSettings } from '@/hooks/use-store-settings';
+import InvoiceButton from '@/components/InvoiceButton';
+import CreditNoteButton from '@/components/CreditNoteButton';
+import OrderTimeline from '@/components/OrderTimeline';
+import ReturnRequestDialog from '@/components/ReturnRequestDialog';
+import CancelOrderDialog from '@/components/CancelOrderDialog';
+import ReorderSummaryDialog from '@/components/ReorderSummaryDialog';
+import SubscribeDialog from '@/components/SubscribeDialog';
+import type { ReorderResult } from '@/types/cart';
+import type { OrderStatus } from '@/types/order-status';
+import type { RefundMethod } from '@/types/refunds';
+import type { ReturnStatus } from '@/types/returns';
+import type { ShipmentStatus } from '@/types/shipments';
+import { cn } from '@/lib/utils';
 
 export default function Orders() {
   const { user } = useAuth();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [searchParams] = useSearchParams();
+  // Set by the tracking QR printed on invoices and packing slips
+  const highlightedOrderId = searchParams.get('order');
+  const [returnOrderId, setReturnOrderId] = useState<string | null>(null);
+  const [cancelOrderId, setCancelOrderId] = useState<string | null>(null);
+  const [reorderResult, setReorderResult] = useState<ReorderResult | null>(null);
+  const [subscribeOrderId, setSubscribeOrderId] = useState<string | null>(null);
+  const { data: storeSettings } = useStoreSettings();
 
   const { data: orders } = useQuery({
     queryKey: ['orders', user?.id],
@@ -19,7 +55,11 @@ export default function Orders() {
         .from('orders')
         .select(`
           *,
-          order_items (*)
+          order_items (*),
+          refunds (*, refund_items (*)),
+          order_status_history (*),
+          shipments (*, shipment_items (*)),
+          return_requests (*, return_request_items (*))
         `)
         .eq('user_id', user.id)
         .order('created_at', { ascending: false });
@@ -30,6 +70,30 @@ export default function Orders() {
     enabled: !!user,
   });
 
+  const reorderMutation = useMutation({
+    mutationFn: async (order: NonNullable<typeof orders>[number]) => {
+      if (!user) throw new Error('Please login');
+      return reorderToCart(user.id, order.order_items);
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['cart', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['cart-count'] });
+      if (result.skipped.length === 0 && result.changed.length === 0) {
+        toast.success('Added to cart');
+        navigate('/cart');
+      } else {
+        setReorderResult(result);
+      }
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to add items to cart'),
+  });
+
+  useEffect(() => {
+    if (highlightedOrderId && orders?.length) {
+      document.getElementById(`order-${highlightedOrderId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  }, [highlightedOrderId, orders]);
+
   if (!user) {
     navigate('/auth');
     return null;
@@ -40,6 +104,7 @@ export default function Orders() {
       pending: 'bg-yellow-500',
       confirmed: 'bg-blue-500',
       processing: 'bg-purple-500',
+      partially_shipped: 'bg-sky-500',
       shipped: 'bg-indigo-500',
       delivered: 'bg-green-500',
       cancelled: 'bg-red-500',
@@ -47,6 +112,28 @@ export default function Orders() {
     return colors[status] || 'bg-gray-500';
   };
 
+  const getOrderReturnDeadline = (order: NonNullable<typeof orders>[number]) =>
+    order.status === 'delivered' && storeSettings
+      ? getReturnDeadline(order.order_status_history, storeSettings.return_window_days)
+      : null;
+
+  const canRequestReturn = (order: NonNullable<typeof orders>[number]) => {
+    const deadline = getOrderReturnDeadline(order);
+    return (
+      !!deadline &&
+      deadline.getTime() > Date.now() &&
+      order.order_items.some((item) => getReturnableLitres(item, order.return_requests) > 0)
+    );
+  };
+
+  const canCancel = (order: NonNullable<typeof orders>[number]) =>
+    CUSTOMER_CANCELLABLE_STATUSES.includes(order.status as OrderStatus) &&
+    !order.shipments.some((shipment) => ['shipped', 'delivered'].includes(shipment.status));
+
+  const returnOrder = orders?.find((order) => order.id === returnOrderId) ?? null;
+  const cancelOrder = orders?.find((order) => order.id === cancelOrderId) ?? null;
+  const subscribeOrder = orders?.find((order) => order.id === subscribeOrderId) ?? null;
+
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
@@ -57,7 +144,11 @@ export default function Orders() {
         {orders && orders.length > 0 ? (
           <div className="space-y-6">
             {orders.map((order) => (
-              <Card key={order.id}>
+              <Card
+                key={order.id}
+                id={`order-${order.id}`}
+                className={cn('scroll-mt-24', order.id === highlightedOrderId && 'ring-2 ring-primary')}
+              >
                 <CardHeader>
                   <div className="flex items-center justify-between">
                     <div>
@@ -65,10 +156,16 @@ export default function Orders() {
                       <p className="text-sm text-muted-foreground">
                         {new Date(order.created_at).toLocaleDateString()}
                       </p>
+                      {order.subscription_id && (
+                        <Button variant="link" size="sm" className="h-auto p-0" onClick={() => navigate('/subscriptions')}>
+                          <Repeat className="mr-1 h-3 w-3" />
+                          Subscription order
+                        </Button>
+                      )}
                     </div>
                     <div className="text-right">
                       <Badge className={getStatusColor(order.status)}>
-                        {order.status.toUpperCase()}
+                        {order.status.replace('_', ' ').toUpperCase()}
                       </Badge>
                       <p className="text-lg font-bold mt-2">₹{order.final_amount.toFixed(2)}</p>
                     </div>
@@ -101,15 +198,214 @@ export default function Orders() {
                     <div className="border-t pt-4">
                       <p className="text-sm">
                         <span className="font-semibold">Shipping Address:</span>{' '}
-                        {order.shipping_address}
+                        {formatOrderAddress(order)}
                       </p>
                     </div>
 
+                    {order.shipments.some((shipment) => shipment.status !== 'cancelled') && (
+                      <div className="space-y-2">
+                        <p className="text-sm font-semibold">Shipments:</p>
+                        {order.shipments
+                          .filter((shipment) => shipment.status !== 'cancelled')
+                          .map((shipment) => (
+                            <div key={shipment.id} className="flex items-start justify-between gap-4 text-sm">
+                              <span>
+                                <span className="font-medium">{shipment.carrier}</span>
+                                {shipment.tracking_number && (
+                                  <span className="text-muted-foreground"> • {shipment.tracking_number}</span>
+                                )}
+                                <span className="text-muted-foreground">
+                                  {' '}
+                                  • {SHIPMENT_STATUS_LABELS[shipment.status as ShipmentStatus] ?? shipment.status}
+                                  {shipment.delivered_at
+                                    ? ` on ${new Date(shipment.delivered_at).toLocaleDateString()}`
+                                    : shipment.shipped_at && ` since ${new Date(shipment.shipped_at).toLocaleDateString()}`}
+                                </span>
+                                <span className="block text-xs text-muted-foreground">
+                                  {shipment.shipment_items
+                                    .map((line) => {
+                                      const item = order.order_items.find((orderItem) => orderItem.id === line.order_item_id);
+                                      return `${item?.product_name} × ${line.quantity_litres}L`;
+                                    })
+                                    .join(', ')}
+                                </span>
+                              </span>
+                              {shipment.tracking_url && (
+                                <Button variant="outline" size="sm" asChild>
+                                  <a href={shipment.tracking_url} target="_blank" rel="noreferrer">
+                                    <ExternalLink className="mr-2 h-4 w-4" />
+                                    Track
+                                  </a>
+                                </Button>
+                              )}
+                            </div>
+                          ))}
+                      </div>
+                    )}
+
                     {order.discount_amount > 0 && (
                       <p className="text-sm text-green-600">
                         Discount Applied: ₹{order.discount_amount.toFixed(2)}
                       </p>
                     )}
+
+                    {order.shipping_amount > 0 && (
+                      <p className="text-sm">
+                        <span className="font-semibold">Shipping:</span> ₹{order.shipping_amount.toFixed(2)}
+                      </p>
+                    )}
+
+                    <p className="text-sm">
+                      <span className="font-semibold">Payment:</span>{' '}
+                      {getPaymentProvider(order.payment_method).label}
+                      {order.cod_fee > 0 && ` (fee ₹${order.cod_fee.toFixed(2)})`}
+                      {order.payment_reference && ` • Ref. ${order.payment_reference}`}
+                    </p>
+
+                    {order.status === 'cancelled' && order.cancellation_reason && (
+                      <p className="text-sm text-muted-foreground">
+                        You cancelled this order
+                        {order.cancelled_at && ` on ${new Date(order.cancelled_at).toLocaleDateString()}`}:{' '}
+                        {order.cancellation_reason}
+                        {order.refund_due_amount > 0 && `. Your refund of ₹${order.refund_due_amount} is being processed.`}
+                      </p>
+                    )}
+                    {order.refund_due_amount > 0 && !order.cancellation_reason && (
+                      <p className="text-sm text-muted-foreground">
+                        This order was cancelled. Your refund of ₹{order.refund_due_amount} is being processed.
+                      </p>
+                    )}
+
+                    {order.payment_status === 'expired' && (
+                      <p className="text-sm text-destructive">
+                        Cancelled because payment was not received in time
+                      </p>
+                    )}
+
+                    {order.status === 'pending' &&
+                      order.payment_status === 'pending' &&
+                      order.payment_due_at &&
+                      new Date(order.payment_due_at).getTime() > Date.now() && (
+                        <div className="flex items-center justify-between gap-4 text-sm">
+                          <span className="text-muted-foreground">
+                            Pay by {new Date(order.payment_due_at).toLocaleString()} or the order will be cancelled
+                          </span>
+                          <Button size="sm" onClick={() => navigate(`/payment?orderId=${order.id}`)}>
+                            Pay Now
+                          </Button>
+                        </div>
+                      )}
+
+                    {order.tax_amount > 0 && (
+                      <p className="text-sm">
+                        <span className="font-semibold">
+                          {order.prices_include_tax ? 'Taxes included:' : 'Taxes:'}
+                        </span>{' '}
+                        {getTaxLines(order)
+                          .map((tax) => `${tax.label} ₹${tax.amount.toFixed(2)}`)
+                          .join(' + ')}
+                      </p>
+                    )}
+
+                    {order.return_requests.length > 0 && (
+                      <div className="border-t pt-4 space-y-3">
+                        <p className="text-sm font-semibold">Returns:</p>
+                        {order.return_requests.map((request) => (
+                          <div key={request.id} className="text-sm">
+                            <p>
+                              <span className="font-medium">
+                                {request.return_request_items
+                                  .map((item) => `${item.product_name} (${item.quantity_litres}L)`)
+                                  .join(', ')}
+                              </span>
+                              <span className="text-muted-foreground">
+                                {' '}
+                                • {RETURN_STATUS_LABELS[request.status as ReturnStatus] ?? request.status} • Requested{' '}
+                                {new Date(request.created_at).toLocaleDateString()}
+                              </span>
+                            </p>
+                            <p className="text-muted-foreground">{request.reason}</p>
+                            {request.status === 'approved' && (
+                              <p className="text-muted-foreground">Please send the items back to us for inspection.</p>
+                            )}
+                            {request.admin_note && (
+                              <p className={request.status === 'rejected' ? 'text-destructive' : 'text-muted-foreground'}>
+                                {request.admin_note}
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {order.refunds.length > 0 && (
+                      <div className="border-t pt-4 space-y-3">
+                        <p className="text-sm font-semibold">Refunds:</p>
+                        {order.refunds.map((refund) => (
+                          <div key={refund.id} className="flex items-start justify-between gap-4 text-sm">
+                            <div>
+                              <p>
+                                <span className="font-medium">₹{refund.amount.toFixed(2)}</span> on{' '}
+                                {new Date(refund.created_at).toLocaleDateString()} via{' '}
+                                {REFUND_METHOD_LABELS[refund.method as RefundMethod] ?? refund.method}
+                                {refund.reference && ` • Ref. ${refund.reference}`}
+                              </p>
+                              {refund.refund_items.length > 0 && (
+                                <p className="text-muted-foreground">
+                                  {refund.refund_items
+                                    .map((item) => `${item.product_name} (${item.quantity_litres}L)`)
+                                    .join(', ')}
+                                </p>
+                              )}
+                              <p className="text-muted-foreground">
+                                {refund.reason} • Credit note {refund.credit_note_number}
+                              </p>
+                            </div>
+                            <CreditNoteButton refund={refund} order={order} />
+                          </div>
+                        ))}
+                        <p className="text-sm">
+                          <span className="font-semibold">Net Paid:</span> ₹{Number(order.net_paid_amount).toFixed(2)}
+                          <span className="text-muted-foreground"> after ₹{order.refunded_amount.toFixed(2)} refunded</span>
+                        </p>
+                      </div>
+                    )}
+
+                    <div className="border-t pt-4">
+                      <p className="text-sm font-semibold mb-3">Order History:</p>
+                      <OrderTimeline history={order.order_status_history} customerId={user.id} customerLabel="You" />
+                    </div>
+
+                    <div className="flex flex-wrap justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => reorderMutation.mutate(order)}
+                        disabled={reorderMutation.isPending}
+                      >
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Buy Again
+                      </Button>
+                      {!order.subscription_id && (
+                        <Button variant="outline" size="sm" onClick={() => setSubscribeOrderId(order.id)}>
+                          <Repeat className="mr-2 h-4 w-4" />
+                          Subscribe
+                        </Button>
+                      )}
+                      {canCancel(order) && (
+                        <Button variant="outline" size="sm" onClick={() => setCancelOrderId(order.id)}>
+                          <XCircle className="mr-2 h-4 w-4" />
+                          Cancel Order
+                        </Button>
+                      )}
+                      {canRequestReturn(order) && (
+                        <Button variant="outline" size="sm" onClick={() => setReturnOrderId(order.id)}>
+                          <Undo2 className="mr-2 h-4 w-4" />
+                          Request Return
+                        </Button>
+                      )}
+                      {order.payment_status === 'paid' && order.status !== 'cancelled' && <InvoiceButton order={order} />}
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -121,6 +417,22 @@ export default function Orders() {
           </div>
         )}
       </div>
+
+      <ReturnRequestDialog
+        order={returnOrder}
+        deadline={returnOrder ? getOrderReturnDeadline(returnOrder) : null}
+        onOpenChange={(open) => !open && setReturnOrderId(null)}
+      />
+
+      <CancelOrderDialog order={cancelOrder} onOpenChange={(open) => !open && setCancelOrderId(null)} />
+
+      <ReorderSummaryDialog result={reorderResult} onOpenChange={(open) => !open && setReorderResult(null)} />
+
+      <SubscribeDialog
+        items={subscribeOrder ? toOrderItemInputs(subscribeOrder.order_items) : null}
+        sourceOrderId={subscribeOrder?.id}
+        onOpenChange={(open) => !open && setSubscribeOrderId(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
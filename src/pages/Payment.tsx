@@ -5,12 +5,28 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { clearCheckoutSession } from '@/lib/checkout-session';
+import { getPaymentProvider } from '@/lib/payment-providers';
+import { downloadQrCode, printQrCode } from '@/lib/qr';
+import QrCode from '@/components/QrCode';
+import { toast } from 'sonner';
+import { Clock, Download, Printer } from 'lucide-react';
+
+const formatTimeLeft = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
 
 export default function Payment() {
   const navigate = useNavigate();
   const [params] = useSearchParams();
   const orderId = params.get('orderId');
+  const [now, setNow] = useState(() => Date.now());
 
   const { data: order, isLoading } = useQuery({
     queryKey: ['order', orderId],
@@ -27,12 +43,58 @@ export default function Payment() {
     enabled: !!orderId,
   });
 
-  const orderLabel = order?.discount_amount ? `Order: ${order.order_number || order.id} - ${order.discount_amount}` : order?.order_number || order?.id || 'Order';
+  // Only an order still waiting for its first payment can be paid; cancelled, paid and refunded ones cannot
+  const isPayable = order?.status === 'pending' && order.payment_status === 'pending';
+
+  const { data: session, error: sessionError } = useQuery({
+    queryKey: ['payment-session', order?.id, order?.payment_method],
+    queryFn: () => getPaymentProvider(order!.payment_method).createPayment(order!),
+    enabled: !!order && isPayable,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (!order?.payment_due_at || !isPayable) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [order?.payment_due_at, isPayable]);
+
+  const timeLeft = order?.payment_due_at ? Math.max(new Date(order.payment_due_at).getTime() - now, 0) : null;
+  // Unpaid orders are cancelled once their payment window closes, so they can no longer be paid
+  const isExpired = order?.payment_status === 'expired' || (isPayable && timeLeft === 0);
+  const isPaid = order?.payment_status === 'paid' || order?.payment_status === 'refunded';
+  const isClosed = !!order && !isPayable && !isExpired;
+  const paymentSession = isPayable && !isExpired ? session : undefined;
+
+  // A paid or cancelled order is done with; the same cart must start a new checkout
+  useEffect(() => {
+    if (isClosed || isExpired) clearCheckoutSession();
+  }, [isClosed, isExpired]);
+
+  // Cash on Delivery orders have nothing to pay here
+  useEffect(() => {
+    if (session?.kind === 'cash_on_delivery') {
+      navigate(`/order-placed?orderId=${orderId}`, { replace: true });
+    }
+  }, [session, navigate, orderId]);
+
+  const orderLabel = session?.kind === 'upi_intent' ? session.note : order?.order_number || order?.id || 'Order';
   const amount = Number(order?.final_amount || 0).toFixed(2);
-  const upiId = '7449213304@pthdfc';
-  const upiPayeeName = 'MerchantName';
-  const upiDeepLink = `upi://pay?pa=${encodeURIComponent(upiId)}&pn=${encodeURIComponent(upiPayeeName)}&tn=${encodeURIComponent(orderLabel)}&am=${encodeURIComponent(amount)}&cu=INR`;
-  const qrSrc = `https://api.qrserver.com/v1/create-qr-code/?size=240x240&data=${encodeURIComponent(upiDeepLink)}`;
+  const upiDeepLink = session?.kind === 'upi_intent' ? session.deepLink : '';
+
+  const saveQr = async (print: boolean) => {
+    const fileName = `upi-${order?.order_number || orderId}`;
+    try {
+      if (print) {
+        await printQrCode(upiDeepLink, `Pay ₹${amount} for ${orderLabel}`);
+      } else {
+        await downloadQrCode(upiDeepLink, fileName);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not generate the QR code');
+    }
+  };
 
   return (
     <div className="min-h-screen bg-background">
@@ -45,9 +107,25 @@ export default function Payment() {
               {order ? `Order: ${order.order_number || order.id}` : 'Loading order details...'}
             </p>
           </div>
-          <Badge variant="secondary" className="text-yellow-700 bg-yellow-100 border border-yellow-300">
-            Pending Payment
-          </Badge>
+          {isExpired ? (
+            <Badge variant="destructive">Payment Window Closed</Badge>
+          ) : isClosed ? (
+            <Badge variant={isPaid ? 'secondary' : 'destructive'}>
+              {isPaid ? 'Paid' : order.status === 'cancelled' ? 'Order Cancelled' : 'No Payment Due'}
+            </Badge>
+          ) : (
+            <div className="flex flex-col items-end gap-2">
+              <Badge variant="secondary" className="text-yellow-700 bg-yellow-100 border border-yellow-300">
+                Pending Payment
+              </Badge>
+              {timeLeft !== null && (
+                <span className="flex items-center gap-1 text-sm font-medium tabular-nums">
+                  <Clock className="h-4 w-4" />
+                  Pay within {formatTimeLeft(timeLeft)}
+                </span>
+              )}
+            </div>
+          )}
         </div>
       </div>
 
@@ -55,72 +133,153 @@ export default function Payment() {
 
         <div className="grid lg:grid-cols-3 gap-8">
           <div className="lg:col-span-2 space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>Scan & Pay</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <div className="flex flex-col sm:flex-row items-center gap-6">
-                  <div className="rounded-xl p-4 bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-primary/10 via-primary/5 to-transparent border w-full sm:w-auto">
-                    <img src={qrSrc} alt="UPI QR" className="w-56 h-56 object-contain" />
-                  </div>
-                  <div className="w-full space-y-3">
-                    <div className="grid grid-cols-2 gap-3">
-                      <div className="p-3 border rounded-md">
-                        <div className="text-xs text-muted-foreground">Amount</div>
-                        <div className="flex items-center justify-between mt-1">
-                          <span className="font-semibold text-lg">₹{amount}</span>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => navigator.clipboard.writeText(String(amount))}
-                          >
-                            Copy
+            {isExpired && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Order Expired</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    We did not receive payment for this order in time, so it has been cancelled and its items released.
+                    Please do not pay for it. You can place the order again.
+                  </p>
+                  <Button onClick={() => navigate('/products')}>Continue Shopping</Button>
+                </CardContent>
+              </Card>
+            )}
+
+            {isClosed && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>
+                    {isPaid ? 'Already Paid' : order.status === 'cancelled' ? 'Order Cancelled' : 'No Payment Due'}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <p className="text-sm text-muted-foreground">
+                    {isPaid
+                      ? 'We have already received payment for this order. Please do not pay for it again.'
+                      : order.status === 'cancelled'
+                        ? 'This order has been cancelled, so it can no longer be paid. Please do not pay for it.'
+                        : 'This order is not waiting for an online payment.'}
+                  </p>
+                  <Button onClick={() => navigate('/orders')}>View My Orders</Button>
+                </CardContent>
+              </Card>
+            )}
+
+            {isPayable && !isExpired && sessionError && (
+              <Card>
+                <CardContent className="pt-6 text-sm text-destructive">{sessionError.message}</CardContent>
+              </Card>
+            )}
+
+            {paymentSession?.kind === 'upi_intent' && (
+              <>
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Scan & Pay</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex flex-col sm:flex-row items-center gap-6">
+                      <div className="rounded-xl p-4 bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-primary/10 via-primary/5 to-transparent border w-full sm:w-auto">
+                        <QrCode value={upiDeepLink} alt="UPI QR" className="w-56 h-56" />
+                        <div className="flex justify-center gap-2 mt-3">
+                          <Button variant="outline" size="sm" onClick={() => saveQr(false)}>
+                            <Download className="mr-2 h-4 w-4" />
+                            Download
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => saveQr(true)}>
+                            <Printer className="mr-2 h-4 w-4" />
+                            Print
                           </Button>
                         </div>
                       </div>
-                      <div className="p-3 border rounded-md">
-                        <div className="text-xs text-muted-foreground">Order</div>
-                        <div className="flex items-center justify-between mt-1">
-                          <span className="font-medium truncate max-w-[140px]">{orderLabel}</span>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => navigator.clipboard.writeText(String(orderLabel))}
-                          >
-                            Copy
-                          </Button>
+                      <div className="w-full space-y-3">
+                        <div className="grid grid-cols-2 gap-3">
+                          <div className="p-3 border rounded-md">
+                            <div className="text-xs text-muted-foreground">Amount</div>
+                            <div className="flex items-center justify-between mt-1">
+                              <span className="font-semibold text-lg">₹{amount}</span>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => navigator.clipboard.writeText(String(amount))}
+                              >
+                                Copy
+                              </Button>
+                            </div>
+                          </div>
+                          <div className="p-3 border rounded-md">
+                            <div className="text-xs text-muted-foreground">Order</div>
+                            <div className="flex items-center justify-between mt-1">
+                              <span className="font-medium truncate max-w-[140px]">{orderLabel}</span>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => navigator.clipboard.writeText(String(orderLabel))}
+                              >
+                                Copy
+                              </Button>
+                            </div>
+                          </div>
+                        </div>
+                        <Separator />
+                        <div className="text-sm text-muted-foreground">
+                          Pay using any UPI app by scanning the QR, then complete the payment in your app.
+                        </div>
+                        <div className="text-sm">
+                          Paying <span className="font-medium">{paymentSession.payeeName}</span>{' '}
+                          <span className="text-muted-foreground">({paymentSession.vpa})</span>
                         </div>
                       </div>
                     </div>
-                    <Separator />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Pay via UPI</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
                     <div className="text-sm text-muted-foreground">
-                      Pay using any UPI app by scanning the QR, then complete the payment in your app.
+                      Tap to open your UPI app with the amount and order pre-filled.
                     </div>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+                    <Button
+                      className="w-full"
+                      size="lg"
+                      onClick={() => {
+                        window.location.href = upiDeepLink;
+                      }}
+                    >
+                      Pay ₹{amount} via UPI
+                    </Button>
+                  </CardContent>
+                </Card>
+              </>
+            )}
 
-            <Card>
-              <CardHeader>
-                <CardTitle>Pay via UPI</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="text-sm text-muted-foreground">
-                  Tap to open your UPI app with the amount and order pre-filled.
-                </div>
-                <Button
-                  className="w-full"
-                  size="lg"
-                  onClick={() => {
-                    window.location.href = upiDeepLink;
-                  }}
-                >
-                  Pay ₹{amount} via UPI
-                </Button>
-              </CardContent>
-            </Card>
+            {paymentSession?.kind === 'redirect' && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Pay by Card / Netbanking</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="text-sm text-muted-foreground">
+                    You will be taken to our payment partner's secure page to complete the payment.
+                  </div>
+                  <Button
+                    className="w-full"
+                    size="lg"
+                    onClick={() => {
+                      window.location.href = paymentSession.url;
+                    }}
+                  >
+                    Pay ₹{amount}
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           <div>
@@ -148,6 +307,16 @@ export default function Payment() {
                           <span>-₹{Number(order?.discount_amount).toFixed(2)}</span>
                         </div>
                       ) : null}
+                      {order && (
+                        <div className="flex justify-between">
+                          <span>Shipping</span>
+                          <span>
+                            {Number(order.shipping_amount) > 0
+                              ? `₹${Number(order.shipping_amount).toFixed(2)}`
+                              : 'FREE'}
+                          </span>
+                        </div>
+                      )}
                       <Separator />
                       <div className="flex justify-between text-lg font-bold">
                         <span>Total</span>
@@ -156,9 +325,11 @@ export default function Payment() {
                     </div>
                   </>
                 )}
-                <Button className="w-full" size="lg" onClick={() => navigate(`/payment/confirm?orderId=${orderId}`)}>
-                  I Have Paid
-                </Button>
+                {paymentSession?.kind === 'upi_intent' && (
+                  <Button className="w-full" size="lg" onClick={() => navigate(`/payment/confirm?orderId=${orderId}`)}>
+                    I Have Paid
+                  </Button>
+                )}
               </CardContent>
             </Card>
           </div>
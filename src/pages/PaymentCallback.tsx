@@ -0,0 +1,136 @@
+import { useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import Navbar from '@/components/Navbar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, Clock, Loader2, XCircle } from 'lucide-react';
+import { getPaymentProvider } from '@/lib/payment-providers';
+import { clearCheckoutSession } from '@/lib/checkout-session';
+
+// Where a payment provider returns the customer after an off-site payment
+export default function PaymentCallback() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [params] = useSearchParams();
+  const orderId = params.get('orderId');
+
+  const { data: result, error, isFetching, refetch } = useQuery({
+    queryKey: ['payment-callback', params.toString()],
+    queryFn: async () => {
+      const result = await getPaymentProvider(params.get('method') || 'gateway').handleCallback(params);
+      if (result.status === 'paid' && user) {
+        const { error } = await supabase.from('cart_items').delete().eq('user_id', user.id);
+        if (error) throw error;
+      }
+      return result;
+    },
+    enabled: !!user,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  useEffect(() => {
+    if (result?.status !== 'paid') return;
+    clearCheckoutSession();
+    queryClient.invalidateQueries({ queryKey: ['cart'] });
+    queryClient.invalidateQueries({ queryKey: ['cart-count'] });
+    queryClient.invalidateQueries({ queryKey: ['order', orderId] });
+  }, [result, queryClient, orderId]);
+
+  if (!user) {
+    navigate('/auth');
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-16 max-w-lg">
+        <Card>
+          {isFetching ? (
+            <CardContent className="py-12 flex flex-col items-center gap-3 text-center">
+              <Loader2 className="h-10 w-10 animate-spin text-primary" />
+              <p className="text-muted-foreground">Confirming your payment…</p>
+            </CardContent>
+          ) : error ? (
+            <>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <XCircle className="h-6 w-6 text-destructive" />
+                  Something went wrong
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">{error.message}</p>
+                <Button className="w-full" onClick={() => navigate('/orders')}>
+                  View My Orders
+                </Button>
+              </CardContent>
+            </>
+          ) : result?.status === 'paid' ? (
+            <>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CheckCircle2 className="h-6 w-6 text-green-600" />
+                  Payment Successful
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Thank you! Your payment{result.reference ? ` (ref. ${result.reference})` : ''} has been received.
+                </p>
+                <Button className="w-full" onClick={() => navigate('/orders')}>
+                  View My Orders
+                </Button>
+              </CardContent>
+            </>
+          ) : result?.status === 'failed' ? (
+            <>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <XCircle className="h-6 w-6 text-destructive" />
+                  Payment Failed
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  {result.message || 'Your payment could not be completed.'} No money has been taken.
+                </p>
+                <Button className="w-full" onClick={() => navigate(`/payment?orderId=${orderId}`)}>
+                  Try Again
+                </Button>
+              </CardContent>
+            </>
+          ) : (
+            <>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Clock className="h-6 w-6 text-yellow-600" />
+                  Payment Not Confirmed Yet
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  We haven't received a confirmation from the payment gateway. If money was debited it will reflect
+                  shortly; otherwise you can try paying again.
+                </p>
+                <div className="flex gap-2">
+                  <Button className="flex-1" variant="outline" onClick={() => refetch()}>
+                    Check Again
+                  </Button>
+                  <Button className="flex-1" onClick={() => navigate(`/payment?orderId=${orderId}`)}>
+                    Try Again
+                  </Button>
+                </div>
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
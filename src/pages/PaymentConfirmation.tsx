@@ -2,6 +2,7 @@ import Navbar from '@/components/Navbar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { useNavigate, useSearchParams } from 'react-router-dom';
@@ -9,6 +10,11 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useState, useMemo, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { formatOrderAddress } from '@/lib/address';
+import { clearCheckoutSession } from '@/lib/checkout-session';
+import { uploadPaymentProof } from '@/lib/payment-proofs';
+import { useStoreSettings } from '@/hooks/use-store-settings';
+import { toast } from 'sonner';
 
 export default function PaymentConfirmation() {
   const navigate = useNavigate();
@@ -17,8 +23,12 @@ export default function PaymentConfirmation() {
   const [params] = useSearchParams();
   const orderId = params.get('orderId');
   const [utr, setUtr] = useState('');
+  const [amount, setAmount] = useState('');
+  const [payerVpa, setPayerVpa] = useState('');
+  const [screenshot, setScreenshot] = useState<File | null>(null);
   const [sending, setSending] = useState(false);
   const [canComplete, setCanComplete] = useState(false);
+  const { data: storeSettings } = useStoreSettings();
 
   const { data: order } = useQuery({
     queryKey: ['order', orderId],
@@ -35,8 +45,49 @@ export default function PaymentConfirmation() {
     enabled: !!orderId,
   });
 
-  // WhatsApp requires number without + prefix
-  const waNumber = '917449213304';
+  const { data: submissions } = useQuery({
+    queryKey: ['payment-transactions', orderId],
+    queryFn: async () => {
+      if (!orderId) return [];
+      const { data, error } = await supabase
+        .from('payment_transactions')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!orderId,
+  });
+
+  useEffect(() => {
+    if (order && !amount) setAmount(Number(order.final_amount).toFixed(2));
+  }, [order, amount]);
+
+  const hasLiveSubmission = !!submissions?.some((submission) => submission.status !== 'rejected');
+  // WhatsApp is optional now that the submission itself reaches the admin queue
+  const readyToComplete = canComplete || hasLiveSubmission;
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      if (!user || !orderId) throw new Error('Please login');
+      const screenshotPath = screenshot ? await uploadPaymentProof(user.id, orderId, screenshot) : undefined;
+      const { error } = await supabase.rpc('submit_payment_transaction', {
+        _order_id: orderId,
+        _utr: utr,
+        _amount: parseFloat(amount),
+        _payer_vpa: payerVpa || undefined,
+        _screenshot_path: screenshotPath,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Payment details submitted for verification');
+      queryClient.invalidateQueries({ queryKey: ['payment-transactions', orderId] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
   const formattedItems = useMemo(() => {
     if (!order?.order_items?.length) return '';
     return order.order_items
@@ -54,7 +105,7 @@ export default function PaymentConfirmation() {
 
   const message = useMemo(() => {
     const orderLabel = order?.order_number || order?.id || '';
-    const address = order?.shipping_address || '';
+    const address = order ? formatOrderAddress(order, '\n') : '';
     const lines = [
       '✅ Order Confirmation',
       '',
@@ -66,7 +117,7 @@ export default function PaymentConfirmation() {
       formattedItems,
       '',
       '🚚 Delivery Details:',
-      `Address: ${address}`,
+      address,
       '',
       '🎉 Thank you for shopping with us',
     ];
@@ -74,10 +125,12 @@ export default function PaymentConfirmation() {
   }, [order, utr, formattedItems]);
 
   const waLink = useMemo(() => {
-    const url = new URL(`https://wa.me/${waNumber}`);
+    if (!storeSettings) return '';
+    // WhatsApp requires number without + prefix
+    const url = new URL(`https://wa.me/${storeSettings.whatsapp_number}`);
     url.searchParams.set('text', message);
     return url.toString();
-  }, [message]);
+  }, [message, storeSettings]);
 
   useEffect(() => {
     if (!sending) return;
@@ -96,6 +149,7 @@ export default function PaymentConfirmation() {
       if (error) throw error;
     },
     onSuccess: () => {
+      clearCheckoutSession();
       queryClient.invalidateQueries({ queryKey: ['cart'] });
       queryClient.invalidateQueries({ queryKey: ['cart-count'] });
       navigate('/');
@@ -144,6 +198,68 @@ export default function PaymentConfirmation() {
                     Copy UTR
                   </Button>
                 </div>
+                <div className="grid sm:grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="amount">Amount Paid (₹)</Label>
+                    <Input
+                      id="amount"
+                      type="number"
+                      step="0.01"
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="payer_vpa">Your UPI ID (optional)</Label>
+                    <Input
+                      id="payer_vpa"
+                      placeholder="name@bank"
+                      value={payerVpa}
+                      onChange={(e) => setPayerVpa(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="screenshot">Payment Screenshot (optional)</Label>
+                  <Input
+                    id="screenshot"
+                    type="file"
+                    accept="image/*"
+                    onChange={(e) => setScreenshot(e.target.files?.[0] ?? null)}
+                  />
+                </div>
+                <Button
+                  className="w-full"
+                  size="lg"
+                  onClick={() => submitMutation.mutate()}
+                  disabled={!utr || !amount || hasLiveSubmission || submitMutation.isPending}
+                >
+                  {submitMutation.isPending
+                    ? 'Submitting…'
+                    : hasLiveSubmission
+                      ? 'Payment Details Submitted'
+                      : 'Submit Payment Details'}
+                </Button>
+                {submissions && submissions.length > 0 && (
+                  <div className="space-y-2">
+                    {submissions.map((submission) => (
+                      <div key={submission.id} className="flex items-start justify-between gap-3 text-sm border rounded-md p-3">
+                        <div>
+                          <p className="font-medium">UTR {submission.utr}</p>
+                          <p className="text-muted-foreground">
+                            ₹{Number(submission.amount).toFixed(2)} • {new Date(submission.created_at).toLocaleString()}
+                          </p>
+                          {submission.rejection_reason && (
+                            <p className="text-destructive">{submission.rejection_reason}</p>
+                          )}
+                        </div>
+                        <Badge variant={submission.status === 'rejected' ? 'destructive' : 'secondary'}>
+                          {submission.status === 'pending' ? 'Awaiting verification' : submission.status}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <Separator />
                 <div className="flex items-center gap-3">
                   <Button
@@ -153,18 +269,18 @@ export default function PaymentConfirmation() {
                       window.open(waLink, '_blank');
                       setSending(true);
                     }}
-                    disabled={!utr || sending}
+                    disabled={!hasLiveSubmission || !waLink || sending}
                   >
                     {sending ? 'Opening WhatsApp…' : 'Send Confirmation via WhatsApp'}
                   </Button>
                   <Button
                     className="w-full"
                     size="lg"
-                    variant={canComplete ? 'default' : 'secondary'}
-                    disabled={!canComplete || completeMutation.isPending}
+                    variant={readyToComplete ? 'default' : 'secondary'}
+                    disabled={!readyToComplete || completeMutation.isPending}
                     onClick={() => completeMutation.mutate()}
                   >
-                    {completeMutation.isPending ? 'Completing…' : canComplete ? 'Completed' : 'Waiting…'}
+                    {completeMutation.isPending ? 'Completing…' : readyToComplete ? 'Completed' : 'Waiting…'}
                   </Button>
                 </div>
               </CardContent>
@@ -13,27 +13,10 @@ import { toast } from 'sonner';
 import { Card, CardContent } from '@/components/ui/card';
 import ProductCard from '@/components/ProductCard';
 import { VariantOption } from '@/types/products';
-
-const parseVariantOptions = (values: any): VariantOption[] => {
-  if (!Array.isArray(values)) return [];
-  return values
-    .map((value) => {
-      if (!value) return null;
-      if (typeof value === 'string') {
-        const label = value.trim();
-        return label ? { label } : null;
-      }
-      if (typeof value === 'object') {
-        const label = typeof value.label === 'string' ? value.label.trim() : '';
-        if (!label) return null;
-        const image_url =
-          typeof value.image_url === 'string' && value.image_url.length > 0 ? value.image_url : null;
-        return { label, image_url };
-      }
-      return null;
-    })
-    .filter((value): value is VariantOption => Boolean(value));
-};
+import { getAvailableStock } from '@/lib/stock';
+import { getPriceTierRows, getUnitPrice } from '@/lib/pricing';
+import { addGuestCartItem } from '@/lib/guest-cart';
+import { parseVariantOptions } from '@/lib/product-options';
 
 export default function ProductDetail() {
   const { id } = useParams();
@@ -58,7 +41,8 @@ export default function ProductDetail() {
             id,
             name,
             slug
-          )
+          ),
+          product_price_tiers (*)
         `)
         .eq('id', id)
         .single();
@@ -162,7 +146,6 @@ useEffect(() => {
 
   const addToCartMutation = useMutation({
     mutationFn: async () => {
-      if (!user) throw new Error('Please login');
       if (!product) throw new Error('Product not found');
       if (hasVariants && !selectedVariant) {
         throw new Error(`Please select a ${product.variant_title || 'variant'}`);
@@ -170,6 +153,9 @@ useEffect(() => {
       if (hasMeasurements && !selectedMeasurement) {
         throw new Error(`Please select a ${product.measurement_title || 'measurement option'}`);
       }
+      if (quantity > getAvailableStock(product)) {
+        throw new Error(`Only ${getAvailableStock(product)} litres available`);
+      }
 
       const variantPayload = selectedVariant
         ? {
@@ -178,6 +164,17 @@ useEffect(() => {
           }
         : null;
 
+      if (!user) {
+        addGuestCartItem({
+          product_id: id!,
+          quantity_litres: quantity,
+          variant_selection: variantPayload,
+          measurement_label: product.measurement_title || null,
+          measurement_value: selectedMeasurement,
+        });
+        return;
+      }
+
       const { error } = await supabase
         .from('cart_items')
         .upsert({
@@ -242,6 +239,9 @@ useEffect(() => {
   }
 
   const effectivePrice = product.offer_price_per_litre || product.price_per_litre;
+  const unitPrice = getUnitPrice(product, quantity);
+  const priceTiers = getPriceTierRows(product);
+  const availableStock = getAvailableStock(product);
   const hasDiscount = product.offer_price_per_litre && product.offer_price_per_litre < product.price_per_litre;
   const discountPercentage = hasDiscount
     ? Math.round(((product.price_per_litre - product.offer_price_per_litre!) / product.price_per_litre) * 100)
@@ -311,12 +311,37 @@ useEffect(() => {
                 </span>
               )}
 
+              {priceTiers.length > 0 && (
+                <div className="mt-4 rounded-lg border overflow-hidden max-w-sm">
+                  <div className="bg-muted px-4 py-2 text-sm font-semibold">Bulk Pricing</div>
+                  {priceTiers.map((tier) => {
+                    const isActive =
+                      quantity >= tier.min_litres && (tier.max_litres === null || quantity <= tier.max_litres);
+                    return (
+                      <div
+                        key={tier.min_litres}
+                        className={`flex justify-between px-4 py-2 text-sm border-t ${isActive ? 'bg-primary/10 font-medium' : ''}`}
+                      >
+                        <span>
+                          {tier.max_litres === null
+                            ? `${tier.min_litres}+ litres`
+                            : tier.max_litres === tier.min_litres
+                              ? `${tier.min_litres} litre${tier.min_litres === 1 ? '' : 's'}`
+                              : `${tier.min_litres}–${tier.max_litres} litres`}
+                        </span>
+                        <span>₹{tier.price_per_litre.toFixed(2)}/litre</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
               <p className="text-muted-foreground mt-4">{product.description}</p>
 
               <p className="text-sm mt-2">
                 <span className="font-semibold">Stock:</span>{' '}
-                {product.stock_quantity > 0
-                  ? `${product.stock_quantity} litres available`
+                {availableStock > 0
+                  ? `${availableStock} litres available`
                   : 'Out of stock'}
               </p>
 
@@ -412,14 +437,18 @@ useEffect(() => {
                   <Input
                     type="number"
                     value={quantity}
-                    onChange={(e) => setQuantity(Math.max(1, parseInt(e.target.value) || 1))}
+                    onChange={(e) =>
+                      setQuantity(Math.min(Math.max(1, parseInt(e.target.value) || 1), Math.max(availableStock, 1)))
+                    }
                     className="w-20 text-center"
                     min="1"
+                    max={availableStock || undefined}
                   />
                   <Button
                     variant="outline"
                     size="icon"
                     onClick={() => setQuantity(quantity + 1)}
+                    disabled={quantity >= availableStock}
                   >
                     <Plus className="h-4 w-4" />
                   </Button>
@@ -431,7 +460,7 @@ useEffect(() => {
                   className="flex-1"
                   size="lg"
                   onClick={() => addToCartMutation.mutate()}
-                  disabled={product.stock_quantity === 0 || addToCartMutation.isPending || selectionMissing}
+                  disabled={availableStock === 0 || addToCartMutation.isPending || selectionMissing}
                 >
                   <ShoppingCart className="mr-2 h-5 w-5" />
                   Add to Cart
@@ -442,7 +471,7 @@ useEffect(() => {
               </div>
 
               <div className="text-2xl font-bold mt-4">
-                Total: ₹{(effectivePrice * quantity).toFixed(2)}
+                Total: ₹{(unitPrice * quantity).toFixed(2)}
               </div>
 
               {/* Related Products Section */}
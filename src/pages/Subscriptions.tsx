@@ -0,0 +1,177 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import Navbar from '@/components/Navbar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
+import { useAddresses } from '@/hooks/use-addresses';
+import { formatAddress } from '@/lib/address';
+import { getPaymentProvider } from '@/lib/payment-providers';
+import {
+  SUBSCRIPTION_ACTION_LABELS,
+  SUBSCRIPTION_STATUS_COLORS,
+  SUBSCRIPTION_STATUS_LABELS,
+  describeFrequency,
+  describeSubscriptionItem,
+  formatRunDate,
+  getSubscriptionActions,
+} from '@/lib/subscriptions';
+import type { SubscriptionAction, SubscriptionStatus, SubscriptionWithItems } from '@/types/subscriptions';
+
+export default function Subscriptions() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: addresses } = useAddresses();
+
+  const { data: subscriptions } = useQuery({
+    queryKey: ['subscriptions', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+
+      const { data, error } = await supabase
+        .from('subscriptions')
+        .select('*, subscription_items (*, products (name))')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as SubscriptionWithItems[];
+    },
+    enabled: !!user,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: SubscriptionAction }) => {
+      const { error } = await supabase.rpc('update_subscription', { _subscription_id: id, _action: action });
+      if (error) throw error;
+      return action;
+    },
+    onSuccess: (action) => {
+      const messages: Record<SubscriptionAction, string> = {
+        skip: 'Next delivery skipped',
+        pause: 'Subscription paused',
+        resume: 'Subscription resumed',
+        cancel: 'Subscription cancelled',
+      };
+      toast.success(messages[action]);
+      queryClient.invalidateQueries({ queryKey: ['subscriptions'] });
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to update subscription'),
+  });
+
+  if (!user) {
+    navigate('/auth');
+    return null;
+  }
+
+  const handleAction = (id: string, action: SubscriptionAction) => {
+    if (action === 'cancel' && !confirm('Are you sure you want to cancel this subscription?')) return;
+    updateMutation.mutate({ id, action });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-3xl font-bold mb-8">My Subscriptions</h1>
+
+        {subscriptions && subscriptions.length > 0 ? (
+          <div className="space-y-6">
+            {subscriptions.map((subscription) => {
+              const address = addresses?.find((a) => a.id === subscription.address_id);
+              return (
+                <Card key={subscription.id}>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <CardTitle className="text-lg">
+                          {describeFrequency(subscription.interval_unit, subscription.interval_count)}
+                        </CardTitle>
+                        {subscription.status === 'active' && (
+                          <p className="text-sm text-muted-foreground">
+                            Next order on {formatRunDate(subscription.next_run_on)}
+                          </p>
+                        )}
+                      </div>
+                      <Badge className={SUBSCRIPTION_STATUS_COLORS[subscription.status as SubscriptionStatus] || 'bg-gray-500'}>
+                        {SUBSCRIPTION_STATUS_LABELS[subscription.status as SubscriptionStatus] ?? subscription.status}
+                      </Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-4">
+                      <div>
+                        <p className="text-sm font-semibold mb-2">Items:</p>
+                        <ul className="space-y-1 text-sm">
+                          {subscription.subscription_items.map((item) => (
+                            <li key={item.id}>{describeSubscriptionItem(item, item.products?.name ?? 'Product')}</li>
+                          ))}
+                        </ul>
+                      </div>
+
+                      <div className="text-sm space-y-1">
+                        <p>
+                          <span className="font-semibold">Deliver to:</span>{' '}
+                          {address ? formatAddress(address) : 'No address — please add one before the next order'}
+                        </p>
+                        <p>
+                          <span className="font-semibold">Payment:</span>{' '}
+                          {getPaymentProvider(subscription.payment_method).label}
+                        </p>
+                        {subscription.last_run_at && (
+                          <p className="text-muted-foreground">
+                            Last order placed {new Date(subscription.last_run_at).toLocaleDateString()}
+                          </p>
+                        )}
+                      </div>
+
+                      {subscription.last_error && (
+                        <p className="text-sm text-destructive">
+                          The last order could not be placed: {subscription.last_error}
+                        </p>
+                      )}
+
+                      <div className="flex flex-wrap justify-end gap-2">
+                        {subscription.last_order_id && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => navigate(`/orders?order=${subscription.last_order_id}`)}
+                          >
+                            View Last Order
+                          </Button>
+                        )}
+                        {getSubscriptionActions(subscription.status).map((action) => (
+                          <Button
+                            key={action}
+                            variant={action === 'cancel' ? 'destructive' : 'outline'}
+                            size="sm"
+                            onClick={() => handleAction(subscription.id, action)}
+                            disabled={updateMutation.isPending}
+                          >
+                            {SUBSCRIPTION_ACTION_LABELS[action]}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground text-lg mb-4">No subscriptions yet</p>
+            <p className="text-sm text-muted-foreground">
+              Subscribe from your cart or a past order to have it delivered regularly.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
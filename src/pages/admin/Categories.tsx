@@ -20,6 +20,8 @@ interface Category {
   name: string;
   slug: string;
   description: string | null;
+  hsn_code: string | null;
+  gst_rate: number | null;
   is_active: boolean;
   created_at: string;
   updated_at: string;
@@ -35,6 +37,8 @@ export default function AdminCategories() {
     name: '',
     slug: '',
     description: '',
+    hsn_code: '',
+    gst_rate: '',
     is_active: true,
   });
 
@@ -77,6 +81,8 @@ export default function AdminCategories() {
             name: formData.name.trim(),
             slug: formData.slug.trim(),
             description: formData.description.trim() || null,
+            hsn_code: formData.hsn_code.trim() || null,
+            gst_rate: formData.gst_rate ? parseFloat(formData.gst_rate) : null,
             is_active: formData.is_active,
             updated_at: new Date().toISOString(),
           })
@@ -98,6 +104,8 @@ export default function AdminCategories() {
           name: formData.name.trim(),
           slug: formData.slug.trim(),
           description: formData.description.trim() || null,
+          hsn_code: formData.hsn_code.trim() || null,
+          gst_rate: formData.gst_rate ? parseFloat(formData.gst_rate) : null,
           is_active: formData.is_active,
         });
         if (error) throw error;
@@ -111,6 +119,8 @@ export default function AdminCategories() {
         name: '',
         slug: '',
         description: '',
+        hsn_code: '',
+        gst_rate: '',
         is_active: true,
       });
       queryClient.invalidateQueries({ queryKey: ['admin-categories'] });
@@ -154,6 +164,8 @@ export default function AdminCategories() {
       name: category.name,
       slug: category.slug,
       description: category.description || '',
+      hsn_code: category.hsn_code || '',
+      gst_rate: category.gst_rate?.toString() || '',
       is_active: category.is_active,
     });
     setShowAddForm(true);
@@ -166,6 +178,8 @@ export default function AdminCategories() {
       name: '',
       slug: '',
       description: '',
+      hsn_code: '',
+      gst_rate: '',
       is_active: true,
     });
   };
@@ -235,6 +249,34 @@ export default function AdminCategories() {
                 />
               </div>
 
+              <div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="hsn_code">HSN Code</Label>
+                    <Input
+                      id="hsn_code"
+                      value={formData.hsn_code}
+                      onChange={(e) => setFormData({ ...formData, hsn_code: e.target.value })}
+                      placeholder="e.g. 2710"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="gst_rate">GST Rate (%)</Label>
+                    <Input
+                      id="gst_rate"
+                      type="number"
+                      step="0.01"
+                      value={formData.gst_rate}
+                      onChange={(e) => setFormData({ ...formData, gst_rate: e.target.value })}
+                      placeholder="e.g. 18"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Used for products in this category that do not set their own HSN code or GST rate.
+                </p>
+              </div>
+
               <div className="flex items-center justify-between">
                 <Label htmlFor="is_active">Active Status</Label>
                 <Switch
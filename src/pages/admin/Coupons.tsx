@@ -7,24 +7,97 @@ import Navbar from '@/components/Navbar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent } from '@/components/ui/card';
 import { toast } from 'sonner';
 import { ArrowLeft, Pencil, Trash2 } from 'lucide-react';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Coupon = Tables<'coupons'> & { redemptions: number };
+
+type CouponFormState = {
+  code: string;
+  discount_type: string;
+  discount_value: string;
+  min_order_amount: string;
+  max_discount_amount: string;
+  valid_from: string;
+  valid_until: string;
+  max_redemptions: string;
+  max_redemptions_per_user: string;
+  first_order_only: boolean;
+  is_active: boolean;
+  product_ids: string[];
+  category_ids: string[];
+};
+
+const createInitialFormState = (): CouponFormState => ({
+  code: '',
+  discount_type: 'percentage',
+  discount_value: '',
+  min_order_amount: '',
+  max_discount_amount: '',
+  valid_from: '',
+  valid_until: '',
+  max_redemptions: '',
+  max_redemptions_per_user: '',
+  first_order_only: false,
+  is_active: true,
+  product_ids: [],
+  category_ids: [],
+});
+
+// datetime-local inputs work in local time without a zone suffix
+const toDateTimeInput = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+const toggleId = (ids: string[], id: string, checked: boolean) =>
+  checked ? [...ids, id] : ids.filter((existing) => existing !== id);
 
 export default function AdminCoupons() {
   const { isAdmin } = useAuth();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [editingCoupon, setEditingCoupon] = useState<any>(null);
-  const [formData, setFormData] = useState({ code: '', discount_type: 'percentage', discount_value: '', min_order_amount: '' });
+  const [editingCoupon, setEditingCoupon] = useState<Coupon | null>(null);
+  const [formData, setFormData] = useState<CouponFormState>(createInitialFormState());
 
   const { data: coupons } = useQuery({
     queryKey: ['admin-coupons'],
     queryFn: async () => {
-      const { data, error } = await supabase.from('coupons').select('*').order('created_at', { ascending: false });
+      const [{ data, error }, { data: counts, error: countsError }] = await Promise.all([
+        supabase.from('coupons').select('*').order('created_at', { ascending: false }),
+        supabase.rpc('coupon_redemption_counts'),
+      ]);
+      if (error) throw error;
+      if (countsError) throw countsError;
+
+      // Counted as place_order counts them, leaving out cancelled orders
+      const countsMap = new Map(counts.map((row) => [row.coupon_id, row.redemptions]));
+      return data.map((coupon): Coupon => ({ ...coupon, redemptions: countsMap.get(coupon.id) ?? 0 }));
+    },
+  });
+
+  const { data: products } = useQuery({
+    queryKey: ['admin-coupon-products'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('products').select('id, name').order('name');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: categories } = useQuery({
+    queryKey: ['admin-coupon-categories'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('product_categories').select('id, name').order('name');
       if (error) throw error;
       return data;
     },
@@ -32,21 +105,41 @@ export default function AdminCoupons() {
 
   const createCouponMutation = useMutation({
     mutationFn: async () => {
+      const code = formData.code.trim().toUpperCase();
+      const discountValue = parseFloat(formData.discount_value);
+      if (!code) throw new Error('Coupon code is required');
+      if (isNaN(discountValue) || discountValue <= 0) throw new Error('Enter a discount value greater than zero');
+      if (formData.discount_type === 'percentage' && discountValue > 100) {
+        throw new Error('A percentage discount cannot exceed 100%');
+      }
+      if (formData.valid_from && formData.valid_until && formData.valid_until <= formData.valid_from) {
+        throw new Error('Valid until must be after valid from');
+      }
+
+      const payload = {
+        code,
+        discount_type: formData.discount_type,
+        discount_value: discountValue,
+        min_order_amount: formData.min_order_amount ? parseFloat(formData.min_order_amount) : null,
+        max_discount_amount:
+          formData.discount_type === 'percentage' && formData.max_discount_amount
+            ? parseFloat(formData.max_discount_amount)
+            : null,
+        valid_from: formData.valid_from ? new Date(formData.valid_from).toISOString() : new Date().toISOString(),
+        valid_until: formData.valid_until ? new Date(formData.valid_until).toISOString() : null,
+        max_redemptions: formData.max_redemptions ? parseInt(formData.max_redemptions) : null,
+        max_redemptions_per_user: formData.max_redemptions_per_user ? parseInt(formData.max_redemptions_per_user) : null,
+        first_order_only: formData.first_order_only,
+        is_active: formData.is_active,
+        product_ids: formData.product_ids,
+        category_ids: formData.category_ids,
+      };
+
       if (editingCoupon) {
-        const { error } = await supabase.from('coupons').update({
-          code: formData.code.toUpperCase(),
-          discount_type: formData.discount_type,
-          discount_value: parseFloat(formData.discount_value),
-          min_order_amount: formData.min_order_amount ? parseFloat(formData.min_order_amount) : null,
-        }).eq('id', editingCoupon.id);
+        const { error } = await supabase.from('coupons').update(payload).eq('id', editingCoupon.id);
         if (error) throw error;
       } else {
-        const { error } = await supabase.from('coupons').insert({
-          code: formData.code.toUpperCase(),
-          discount_type: formData.discount_type,
-          discount_value: parseFloat(formData.discount_value),
-          min_order_amount: formData.min_order_amount ? parseFloat(formData.min_order_amount) : null,
-        });
+        const { error } = await supabase.from('coupons').insert(payload);
         if (error) throw error;
       }
     },
@@ -54,9 +147,10 @@ export default function AdminCoupons() {
       toast.success(editingCoupon ? 'Coupon updated' : 'Coupon created');
       setIsDialogOpen(false);
       setEditingCoupon(null);
-      setFormData({ code: '', discount_type: 'percentage', discount_value: '', min_order_amount: '' });
+      setFormData(createInitialFormState());
       queryClient.invalidateQueries({ queryKey: ['admin-coupons'] });
     },
+    onError: (error: Error) => toast.error(error.message || 'Failed to save coupon'),
   });
 
   const deleteCouponMutation = useMutation({
@@ -70,13 +164,22 @@ export default function AdminCoupons() {
     },
   });
 
-  const handleEdit = (coupon: any) => {
+  const handleEdit = (coupon: Coupon) => {
     setEditingCoupon(coupon);
     setFormData({
       code: coupon.code,
       discount_type: coupon.discount_type,
       discount_value: coupon.discount_value.toString(),
       min_order_amount: coupon.min_order_amount?.toString() || '',
+      max_discount_amount: coupon.max_discount_amount?.toString() || '',
+      valid_from: toDateTimeInput(coupon.valid_from),
+      valid_until: toDateTimeInput(coupon.valid_until),
+      max_redemptions: coupon.max_redemptions?.toString() || '',
+      max_redemptions_per_user: coupon.max_redemptions_per_user?.toString() || '',
+      first_order_only: coupon.first_order_only,
+      is_active: coupon.is_active,
+      product_ids: coupon.product_ids || [],
+      category_ids: coupon.category_ids || [],
     });
     setIsDialogOpen(true);
   };
@@ -99,82 +202,184 @@ export default function AdminCoupons() {
           <h1 className="text-3xl font-bold">Manage Coupons</h1>
           <Button onClick={() => {
             setEditingCoupon(null);
-            setFormData({ code: '', discount_type: 'percentage', discount_value: '', min_order_amount: '' });
+            setFormData(createInitialFormState());
             setIsDialogOpen(true);
           }}>Add Coupon</Button>
         </div>
 
         <div className="grid gap-4">
-          {coupons?.map((coupon) => (
-            <Card key={coupon.id}>
-              <CardContent className="p-4 flex justify-between items-center">
-                <div>
-                  <h3 className="font-bold">{coupon.code}</h3>
-                  <p className="text-sm">
-                    {coupon.discount_type === 'percentage' ? `${coupon.discount_value}% off` : `₹${coupon.discount_value} off`}
-                  </p>
-                  {coupon.min_order_amount && (
-                    <p className="text-xs text-muted-foreground">Min order: ₹{coupon.min_order_amount}</p>
-                  )}
-                </div>
-                <div className="flex gap-2">
-                  <Button variant="outline" size="icon" onClick={() => handleEdit(coupon)}>
-                    <Pencil className="h-4 w-4" />
-                  </Button>
-                  <Button 
-                    variant="destructive" 
-                    size="icon" 
-                    onClick={() => {
-                      if (confirm('Are you sure you want to delete this coupon?')) {
-                        deleteCouponMutation.mutate(coupon.id);
-                      }
-                    }}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+          {coupons?.map((coupon) => {
+            const redemptions = coupon.redemptions;
+            const isScoped = coupon.product_ids.length > 0 || coupon.category_ids.length > 0;
+            return (
+              <Card key={coupon.id}>
+                <CardContent className="p-4 flex justify-between items-center">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-bold">{coupon.code}</h3>
+                      {!coupon.is_active && <Badge variant="secondary">Inactive</Badge>}
+                      {coupon.first_order_only && <Badge variant="outline">First order</Badge>}
+                      {isScoped && <Badge variant="outline">Selected items</Badge>}
+                    </div>
+                    <p className="text-sm">
+                      {coupon.discount_type === 'percentage' ? `${coupon.discount_value}% off` : `₹${coupon.discount_value} off`}
+                      {coupon.max_discount_amount && ` (up to ₹${coupon.max_discount_amount})`}
+                    </p>
+                    {coupon.min_order_amount && (
+                      <p className="text-xs text-muted-foreground">Min order: ₹{coupon.min_order_amount}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Used {redemptions}
+                      {coupon.max_redemptions ? ` / ${coupon.max_redemptions}` : ''} times
+                      {coupon.max_redemptions_per_user ? ` • ${coupon.max_redemptions_per_user} per customer` : ''}
+                    </p>
+                    {coupon.valid_until && (
+                      <p className="text-xs text-muted-foreground">
+                        Valid until {new Date(coupon.valid_until).toLocaleString()}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="icon" onClick={() => handleEdit(coupon)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="icon"
+                      onClick={() => {
+                        if (confirm('Are you sure you want to delete this coupon?')) {
+                          deleteCouponMutation.mutate(coupon.id);
+                        }
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
 
         <Dialog open={isDialogOpen} onOpenChange={(open) => {
           setIsDialogOpen(open);
           if (!open) {
             setEditingCoupon(null);
-            setFormData({ code: '', discount_type: 'percentage', discount_value: '', min_order_amount: '' });
+            setFormData(createInitialFormState());
           }
         }}>
-          <DialogContent>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>{editingCoupon ? 'Edit Coupon' : 'Add Coupon'}</DialogTitle>
             </DialogHeader>
             <div className="space-y-4">
-              <div>
-                <Label>Code</Label>
-                <Input value={formData.code} onChange={(e) => setFormData({ ...formData, code: e.target.value })} />
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                  <Label>Code</Label>
+                  <Input value={formData.code} onChange={(e) => setFormData({ ...formData, code: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Type</Label>
+                  <Select value={formData.discount_type} onValueChange={(v) => setFormData({ ...formData, discount_type: v })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="percentage">Percentage</SelectItem>
+                      <SelectItem value="fixed">Fixed Amount</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Value</Label>
+                  <Input type="number" value={formData.discount_value} onChange={(e) => setFormData({ ...formData, discount_value: e.target.value })} />
+                </div>
+                {formData.discount_type === 'percentage' && (
+                  <div>
+                    <Label>Max Discount (₹)</Label>
+                    <Input type="number" value={formData.max_discount_amount} onChange={(e) => setFormData({ ...formData, max_discount_amount: e.target.value })} placeholder="No cap" />
+                  </div>
+                )}
+                <div>
+                  <Label>Min Order (₹)</Label>
+                  <Input type="number" value={formData.min_order_amount} onChange={(e) => setFormData({ ...formData, min_order_amount: e.target.value })} />
+                </div>
               </div>
-              <div>
-                <Label>Type</Label>
-                <Select value={formData.discount_type} onValueChange={(v) => setFormData({ ...formData, discount_type: v })}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="percentage">Percentage</SelectItem>
-                    <SelectItem value="fixed">Fixed Amount</SelectItem>
-                  </SelectContent>
-                </Select>
+
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                  <Label>Valid From</Label>
+                  <Input type="datetime-local" value={formData.valid_from} onChange={(e) => setFormData({ ...formData, valid_from: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Valid Until</Label>
+                  <Input type="datetime-local" value={formData.valid_until} onChange={(e) => setFormData({ ...formData, valid_until: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Total Uses</Label>
+                  <Input type="number" min="1" value={formData.max_redemptions} onChange={(e) => setFormData({ ...formData, max_redemptions: e.target.value })} placeholder="Unlimited" />
+                </div>
+                <div>
+                  <Label>Uses per Customer</Label>
+                  <Input type="number" min="1" value={formData.max_redemptions_per_user} onChange={(e) => setFormData({ ...formData, max_redemptions_per_user: e.target.value })} placeholder="Unlimited" />
+                </div>
               </div>
-              <div>
-                <Label>Value</Label>
-                <Input type="number" value={formData.discount_value} onChange={(e) => setFormData({ ...formData, discount_value: e.target.value })} />
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="first_order_only">First order only</Label>
+                <Switch
+                  id="first_order_only"
+                  checked={formData.first_order_only}
+                  onCheckedChange={(checked) => setFormData({ ...formData, first_order_only: checked })}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="coupon_active">Active</Label>
+                <Switch
+                  id="coupon_active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+                />
               </div>
+
               <div>
-                <Label>Min Order (₹)</Label>
-                <Input type="number" value={formData.min_order_amount} onChange={(e) => setFormData({ ...formData, min_order_amount: e.target.value })} />
+                <Label>Applies To</Label>
+                <p className="text-xs text-muted-foreground mb-2">
+                  Leave everything unticked to apply the coupon to the whole cart.
+                </p>
+                <div className="grid sm:grid-cols-2 gap-4">
+                  <div className="border rounded-md p-3 max-h-48 overflow-y-auto space-y-2">
+                    <p className="text-sm font-medium">Categories</p>
+                    {categories?.map((category) => (
+                      <label key={category.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={formData.category_ids.includes(category.id)}
+                          onCheckedChange={(checked) =>
+                            setFormData({ ...formData, category_ids: toggleId(formData.category_ids, category.id, checked === true) })
+                          }
+                        />
+                        {category.name}
+                      </label>
+                    ))}
+                  </div>
+                  <div className="border rounded-md p-3 max-h-48 overflow-y-auto space-y-2">
+                    <p className="text-sm font-medium">Products</p>
+                    {products?.map((product) => (
+                      <label key={product.id} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={formData.product_ids.includes(product.id)}
+                          onCheckedChange={(checked) =>
+                            setFormData({ ...formData, product_ids: toggleId(formData.product_ids, product.id, checked === true) })
+                          }
+                        />
+                        {product.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
               </div>
-              <Button onClick={() => createCouponMutation.mutate()} className="w-full">
+
+              <Button onClick={() => createCouponMutation.mutate()} className="w-full" disabled={createCouponMutation.isPending}>
                 {editingCoupon ? 'Update' : 'Create'}
               </Button>
             </div>
@@ -183,4 +388,4 @@ export default function AdminCoupons() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
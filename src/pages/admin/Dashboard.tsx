@@ -3,7 +3,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import Navbar from '@/components/Navbar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Package, ShoppingCart, Tag, Users, FolderOpen } from 'lucide-react';
+import { Package, ShoppingCart, Tag, Users, FolderOpen, Truck, Receipt, Wallet, BadgeCheck, FileSpreadsheet, Undo2, Repeat, Settings } from 'lucide-react';
 import { useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { playNotificationTone } from '@/lib/utils';
@@ -26,6 +26,17 @@ export default function AdminDashboard() {
         playNotificationTone(250, 1200);
         toast.message('New order received', { description: `Order ${payload.new?.order_number || ''}` });
       })
+      // Only customer cancellations; orders have full replica identity, so the old status is sent too
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'orders' }, (payload) => {
+        if (payload.new?.status !== 'cancelled' || payload.old?.status === 'cancelled') return;
+        if (!payload.new.cancelled_by || payload.new.cancelled_by !== payload.new.user_id) return;
+        playNotificationTone(250, 1200);
+        toast.message('Order cancelled by customer', {
+          description: `Order ${payload.new.order_number || ''}: ${payload.new.cancellation_reason || ''}${
+            payload.new.refund_due_amount > 0 ? ` • Refund due ₹${payload.new.refund_due_amount}` : ''
+          }`,
+        });
+      })
       .subscribe();
 
     return () => {
@@ -98,6 +109,105 @@ export default function AdminDashboard() {
               <p className="text-muted-foreground">Manage discount coupons</p>
             </CardContent>
           </Card>
+
+          <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate('/admin/shipping')}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Truck className="h-5 w-5" />
+                Shipping
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground">Manage delivery zones and rates</p>
+            </CardContent>
+          </Card>
+
+          <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate('/admin/tax')}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Receipt className="h-5 w-5" />
+                Tax
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground">Configure GST rates and pricing mode</p>
+            </CardContent>
+          </Card>
+
+          <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate('/admin/payments')}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Wallet className="h-5 w-5" />
+                Payments
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground">Configure Cash on Delivery availability and fees</p>
+            </CardContent>
+          </Card>
+
+          <Card
+            className="cursor-pointer hover:shadow-lg transition-shadow"
+            onClick={() => navigate('/admin/payment-verification')}
+          >
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BadgeCheck className="h-5 w-5" />
+                Verify Payments
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground">Review UPI transaction references and payment proofs</p>
+            </CardContent>
+          </Card>
+
+          <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate('/admin/reconciliation')}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileSpreadsheet className="h-5 w-5" />
+                Bank Reconciliation
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground">Match bank statement credits to pending UPI orders</p>
+            </CardContent>
+          </Card>
+
+          <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate('/admin/returns')}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Undo2 className="h-5 w-5" />
+                Returns
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground">Approve return requests, restock and refund returned items</p>
+            </CardContent>
+          </Card>
+
+          <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate('/admin/subscriptions')}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Repeat className="h-5 w-5" />
+                Subscriptions
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground">See upcoming subscription orders and pause or skip them</p>
+            </CardContent>
+          </Card>
+
+          <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => navigate('/admin/settings')}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Settings className="h-5 w-5" />
+                Store Settings
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground">Edit UPI details, contact information and policies</p>
+            </CardContent>
+          </Card>
         </div>
       </div>
     </div>
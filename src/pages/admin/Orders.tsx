@@ -6,31 +6,71 @@ import Navbar from '@/components/Navbar';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Search, Eye, CheckCircle2, XCircle, RefreshCcw } from 'lucide-react';
+import { ArrowLeft, Search, Eye, CheckCircle2, XCircle, RefreshCcw, Truck, type LucideIcon } from 'lucide-react';
 import { Input } from '@/components/ui/input';
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useEffect, useMemo, useState } from 'react';
 import { toast } from 'sonner';
+import { getOrderAddressLines } from '@/lib/address';
+import { getTaxLines } from '@/lib/tax';
+import { getPaymentProvider } from '@/lib/payment-providers';
+import { PAYMENT_STATUS_LABELS, STATUS_LABELS, canChangePaymentStatus, getNextStatuses } from '@/lib/order-status';
+import { isInvoiceable } from '@/lib/invoice';
+import InvoiceButton from '@/components/InvoiceButton';
+import PackingSlipButton from '@/components/PackingSlipButton';
+import RefundDialog, { type RefundableOrder } from '@/components/RefundDialog';
+import OrderTimeline from '@/components/OrderTimeline';
+import ShipmentsDialog from '@/components/ShipmentsDialog';
+import type { OrderStatus, PaymentStatus } from '@/types/order-status';
+
+type StatusChange = {
+  order: { id: string; order_number: string };
+  status?: OrderStatus;
+  paymentStatus?: PaymentStatus;
+};
+
+// Shipped and delivered follow the order's shipments, so they have no buttons of their own
+const STATUS_ACTIONS: Partial<
+  Record<OrderStatus, { label: string; icon: LucideIcon; variant?: 'destructive'; className?: string }>
+> = {
+  confirmed: { label: 'Confirm', icon: CheckCircle2, className: 'bg-green-600 hover:bg-green-700' },
+  processing: { label: 'Processing', icon: RefreshCcw },
+  cancelled: { label: 'Cancel', icon: XCircle, variant: 'destructive' },
+};
 
 export default function AdminOrders() {
   const { isAdmin } = useAuth();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   const [query, setQuery] = useState('');
+  const [refundsDueOnly, setRefundsDueOnly] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<any | null>(null);
+  const [refundOrder, setRefundOrder] = useState<RefundableOrder | null>(null);
+  const [statusChange, setStatusChange] = useState<StatusChange | null>(null);
+  const [shipmentsOrderId, setShipmentsOrderId] = useState<string | null>(null);
+  const [statusNote, setStatusNote] = useState('');
+
+  useEffect(() => setStatusNote(''), [statusChange]);
 
-  const { data: orders } = useQuery({
+  const { data } = useQuery({
     queryKey: ['admin-orders'],
     queryFn: async () => {
       const { data: ordersData, error: ordersError } = await supabase
         .from('orders')
-        .select('*, order_items(*)')
+        .select('*, order_items(*), refunds(*, refund_items(*)), order_status_history(*), shipments(*, shipment_items(*))')
         .order('created_at', { ascending: false });
       
       if (ordersError) throw ordersError;
       
-      // Fetch profiles for all orders
-      const userIds = [...new Set(ordersData?.map(o => o.user_id) || [])];
+      // Fetch profiles for all orders and everyone who changed their status
+      const userIds = [
+        ...new Set([
+          ...(ordersData?.map(o => o.user_id) || []),
+          ...(ordersData?.flatMap(o => o.order_status_history.map(h => h.changed_by)) || []),
+        ]),
+      ].filter((id): id is string => !!id);
       const { data: profilesData } = await supabase
         .from('profiles')
         .select('id, email, full_name')
@@ -42,42 +82,56 @@ export default function AdminOrders() {
         ...order,
         profile: profilesMap.get(order.user_id)
       }));
+      const actorNames = new Map(profilesData?.map(p => [p.id, p.full_name || p.email || 'Store']));
       
-      return ordersWithProfiles;
+      return { orders: ordersWithProfiles, actorNames };
     },
   });
+  const orders = data?.orders;
+  const shipmentsOrder = orders?.find((order) => order.id === shipmentsOrderId) ?? null;
 
   const filteredOrders = useMemo(() => {
     if (!orders) return [];
     const q = query.toLowerCase();
     return orders.filter((o: any) => {
+      if (refundsDueOnly && !(o.refund_due_amount > 0)) return false;
       const hay = `${o.order_number} ${o.profile?.email || ''}`.toLowerCase();
       return hay.includes(q);
     });
-  }, [orders, query]);
+  }, [orders, query, refundsDueOnly]);
+  const refundsDueCount = orders?.filter((o) => o.refund_due_amount > 0).length ?? 0;
 
   const updateStatus = useMutation({
-    mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      const { error } = await supabase.from('orders').update({ status }).eq('id', id);
+    mutationFn: async ({ order, status, paymentStatus }: StatusChange) => {
+      const { error } = await supabase.rpc('update_order_status', {
+        _order_id: order.id,
+        _status: status,
+        _payment_status: paymentStatus,
+        _note: statusNote.trim() || undefined,
+      });
       if (error) throw error;
     },
-    onSuccess: () => {
-      toast.success('Order status updated');
+    onSuccess: (_, { paymentStatus }) => {
+      toast.success(paymentStatus ? 'Payment status updated' : 'Order status updated');
       queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
+      setStatusChange(null);
     },
-    onError: (e: any) => toast.error(e.message || 'Failed to update status'),
+    onError: (e: Error) => toast.error(e.message || 'Failed to update status'),
   });
 
-  const updatePayment = useMutation({
-    mutationFn: async ({ id, payment_status }: { id: string; payment_status: string }) => {
-      const { error } = await supabase.from('orders').update({ payment_status }).eq('id', id);
+  const markCashCollected = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('orders')
+        .update({ payment_status: 'paid', cash_collected_at: new Date().toISOString() })
+        .eq('id', id);
       if (error) throw error;
     },
     onSuccess: () => {
-      toast.success('Payment status updated');
+      toast.success('Cash collection recorded');
       queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
     },
-    onError: (e: any) => toast.error(e.message || 'Failed to update payment status'),
+    onError: (e: Error) => toast.error(e.message || 'Failed to record cash collection'),
   });
 
   if (!isAdmin) {
@@ -96,14 +150,22 @@ export default function AdminOrders() {
 
         <div className="flex items-center justify-between gap-4 flex-wrap mb-8">
           <h1 className="text-3xl font-bold">Manage Orders</h1>
-          <div className="relative w-full sm:w-80">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-            <Input
-              placeholder="Search by order # or email"
-              className="pl-9"
-              value={query}
-              onChange={(e) => setQuery(e.target.value)}
-            />
+          <div className="flex items-center gap-2 w-full sm:w-auto">
+            <Button
+              variant={refundsDueOnly ? 'default' : 'outline'}
+              onClick={() => setRefundsDueOnly((value) => !value)}
+            >
+              Refunds Due ({refundsDueCount})
+            </Button>
+            <div className="relative w-full sm:w-80">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by order # or email"
+                className="pl-9"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+              />
+            </div>
           </div>
         </div>
         <div className="space-y-4">
@@ -113,69 +175,112 @@ export default function AdminOrders() {
                 <CardTitle className="flex justify-between">
                   <span>Order #{order.order_number}</span>
                   <div className="flex items-center gap-2">
+                    {order.payment_method !== 'upi' && (
+                      <Badge variant="outline">{getPaymentProvider(order.payment_method).label}</Badge>
+                    )}
                     <Badge variant="secondary">{order.payment_status}</Badge>
                     <Badge>{order.status}</Badge>
                   </div>
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-2 text-sm">
+                <div className="grid sm:grid-cols-2 lg:grid-cols-6 gap-2 text-sm">
                   <p><span className="text-muted-foreground">Customer:</span> {order.profile?.email || 'N/A'}</p>
                   <p><span className="text-muted-foreground">Total:</span> ₹{order.final_amount}</p>
+                  <p><span className="text-muted-foreground">Shipping:</span> ₹{order.shipping_amount}</p>
+                  <p><span className="text-muted-foreground">Tax:</span> ₹{order.tax_amount}</p>
                   <p><span className="text-muted-foreground">Items:</span> {order.order_items?.length}</p>
                   <p><span className="text-muted-foreground">Created:</span> {new Date(order.created_at).toLocaleString()}</p>
+                  {order.payment_method === 'cod' && (
+                    <p>
+                      <span className="text-muted-foreground">Cash:</span>{' '}
+                      {order.cash_collected_at
+                        ? `Collected ${new Date(order.cash_collected_at).toLocaleString()}`
+                        : `₹${order.final_amount} due${order.cod_fee > 0 ? ` (incl. ₹${order.cod_fee} COD fee)` : ''}`}
+                    </p>
+                  )}
+                  {order.refunded_amount > 0 && (
+                    <p>
+                      <span className="text-muted-foreground">Refunded:</span> ₹{order.refunded_amount} in{' '}
+                      {order.refunds.length} refund{order.refunds.length === 1 ? '' : 's'} (net paid ₹{order.net_paid_amount})
+                    </p>
+                  )}
+                  {order.status === 'cancelled' && order.cancellation_reason && (
+                    <p className="sm:col-span-2">
+                      <span className="text-muted-foreground">Cancelled by customer:</span>{' '}
+                      {order.cancellation_reason}
+                    </p>
+                  )}
+                  {order.refund_due_amount > 0 && (
+                    <p className="text-destructive font-medium">Refund due: ₹{order.refund_due_amount}</p>
+                  )}
                 </div>
                 <div className="flex flex-wrap gap-2 mt-4">
                   <Button variant="outline" size="sm" onClick={() => setSelectedOrder(order)}>
                     <Eye className="mr-2 h-4 w-4" />
                     View Items
                   </Button>
-                  <Button
-                    size="sm"
-                    onClick={() => updateStatus.mutate({ id: order.id, status: 'processing' })}
-                    disabled={updateStatus.isPending}
-                  >
-                    <RefreshCcw className="mr-2 h-4 w-4" /> Processing
-                  </Button>
-                  <Button
-                    size="sm"
-                    onClick={() => updateStatus.mutate({ id: order.id, status: 'shipped' })}
-                    disabled={updateStatus.isPending}
-                  >
-                    <RefreshCcw className="mr-2 h-4 w-4" /> Shipped
-                  </Button>
-                  <Button
-                    size="sm"
-                    onClick={() => updateStatus.mutate({ id: order.id, status: 'delivered' })}
-                    disabled={updateStatus.isPending}
-                    className="bg-green-600 hover:bg-green-700"
-                  >
-                    <CheckCircle2 className="mr-2 h-4 w-4" /> Delivered
-                  </Button>
-                  <Button
-                    variant="destructive"
-                    size="sm"
-                    onClick={() => updateStatus.mutate({ id: order.id, status: 'cancelled' })}
-                    disabled={updateStatus.isPending}
-                  >
-                    <XCircle className="mr-2 h-4 w-4" /> Cancel
-                  </Button>
-                  <Button
-                    variant="secondary"
-                    size="sm"
-                    onClick={() => updatePayment.mutate({ id: order.id, payment_status: 'paid' })}
-                    disabled={updatePayment.isPending}
-                  >
-                    Mark Paid
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => updatePayment.mutate({ id: order.id, payment_status: 'refunded' })}
-                    disabled={updatePayment.isPending}
-                  >
-                    Refund
-                  </Button>
+                  {isInvoiceable(order) && (
+                    <>
+                      <InvoiceButton order={order} />
+                      <InvoiceButton order={order} regenerate />
+                    </>
+                  )}
+                  {order.status !== 'cancelled' && <PackingSlipButton order={order} />}
+                  {(order.status !== 'pending' || order.shipments.length > 0) && order.status !== 'cancelled' && (
+                    <Button variant="outline" size="sm" onClick={() => setShipmentsOrderId(order.id)}>
+                      <Truck className="mr-2 h-4 w-4" />
+                      Shipments{order.shipments.length > 0 && ` (${order.shipments.length})`}
+                    </Button>
+                  )}
+                  {getNextStatuses(order.status).map((status) => {
+                    const action = STATUS_ACTIONS[status];
+                    if (!action) return null;
+                    const { label, icon: Icon, variant, className } = action;
+                    return (
+                      <Button
+                        key={status}
+                        variant={variant}
+                        size="sm"
+                        className={className}
+                        onClick={() => setStatusChange({ order, status })}
+                      >
+                        <Icon className="mr-2 h-4 w-4" /> {label}
+                      </Button>
+                    );
+                  })}
+                  {order.payment_method === 'cod' ? (
+                    !order.cash_collected_at && order.status !== 'cancelled' && (
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => markCashCollected.mutate(order.id)}
+                        disabled={markCashCollected.isPending}
+                      >
+                        Mark Cash Collected
+                      </Button>
+                    )
+                  ) : (
+                    order.status !== 'cancelled' &&
+                    canChangePaymentStatus(order.payment_status, 'paid') && (
+                      <Button
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => setStatusChange({ order, paymentStatus: 'paid' })}
+                      >
+                        Mark Paid
+                      </Button>
+                    )
+                  )}
+                  {order.payment_status === 'paid' && (
+                    <Button
+                      variant={order.status === 'cancelled' ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setRefundOrder(order)}
+                    >
+                      Refund
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -187,6 +292,14 @@ export default function AdminOrders() {
             <DialogHeader>
               <DialogTitle>Order Items for #{selectedOrder?.order_number}</DialogTitle>
             </DialogHeader>
+            {selectedOrder && (
+              <div className="text-sm border rounded-md p-3 bg-muted/30">
+                <p className="font-semibold mb-1">Ship To</p>
+                {getOrderAddressLines(selectedOrder).map((line, index) => (
+                  <p key={index} className="text-muted-foreground">{line}</p>
+                ))}
+              </div>
+            )}
             <div className="space-y-3">
               {selectedOrder?.order_items?.map((it: any) => (
                 <div key={it.id} className="flex items-center justify-between text-sm">
@@ -199,6 +312,9 @@ export default function AdminOrders() {
                         ? ` • ${(it.measurement_label || 'Measurement')}: ${it.measurement_value}`
                         : ''}
                     </span>
+                    <span className="block text-xs text-muted-foreground">
+                      HSN {it.hsn_code || 'N/A'} • GST {it.gst_rate}% on ₹{it.taxable_amount}
+                    </span>
                   </div>
                   <div>₹{it.total_price}</div>
                 </div>
@@ -207,8 +323,73 @@ export default function AdminOrders() {
                 <p className="text-muted-foreground">No items</p>
               )}
             </div>
+            {selectedOrder && selectedOrder.tax_amount > 0 && (
+              <div className="text-sm border-t pt-3 space-y-1">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Taxable Value</span>
+                  <span>₹{selectedOrder.taxable_amount}</span>
+                </div>
+                {getTaxLines(selectedOrder).map((tax) => (
+                  <div key={tax.label} className="flex justify-between">
+                    <span className="text-muted-foreground">{tax.label}</span>
+                    <span>₹{tax.amount}</span>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Prices {selectedOrder.prices_include_tax ? 'include' : 'exclude'} GST
+                </p>
+              </div>
+            )}
+            {selectedOrder && (
+              <div className="border-t pt-3">
+                <p className="text-sm font-semibold mb-3">History</p>
+                <OrderTimeline
+                  history={selectedOrder.order_status_history}
+                  customerId={selectedOrder.user_id}
+                  actorNames={data?.actorNames}
+                />
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!statusChange} onOpenChange={(o) => !o && setStatusChange(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {statusChange?.paymentStatus
+                  ? `Mark #${statusChange.order.order_number} as ${PAYMENT_STATUS_LABELS[statusChange.paymentStatus]}`
+                  : statusChange?.status &&
+                    `Mark #${statusChange.order.order_number} as ${STATUS_LABELS[statusChange.status]}`}
+              </DialogTitle>
+            </DialogHeader>
+            <div>
+              <Label htmlFor="status-note">Note</Label>
+              <Textarea
+                id="status-note"
+                rows={3}
+                placeholder="Optional, e.g. why the order was cancelled"
+                value={statusNote}
+                onChange={(e) => setStatusNote(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setStatusChange(null)}>
+                Back
+              </Button>
+              <Button
+                onClick={() => statusChange && updateStatus.mutate(statusChange)}
+                disabled={updateStatus.isPending}
+              >
+                {updateStatus.isPending ? 'Updating...' : 'Update'}
+              </Button>
+            </DialogFooter>
           </DialogContent>
         </Dialog>
+
+        <RefundDialog order={refundOrder} onOpenChange={(open) => !open && setRefundOrder(null)} />
+
+        <ShipmentsDialog order={shipmentsOrder} onOpenChange={(open) => !open && setShipmentsOrderId(null)} />
       </div>
     </div>
   );
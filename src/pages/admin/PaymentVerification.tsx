@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import Navbar from '@/components/Navbar';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Card, CardContent } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { AlertTriangle, ArrowLeft, CheckCircle2, FileSpreadsheet, ImageIcon, XCircle } from 'lucide-react';
+import { getPaymentProofUrl } from '@/lib/payment-proofs';
+
+type SubmissionStatus = 'pending' | 'verified' | 'rejected';
+
+export default function AdminPaymentVerification() {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<SubmissionStatus>('pending');
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+
+  const { data: submissions } = useQuery({
+    queryKey: ['admin-payment-transactions', status],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('payment_transactions')
+        .select('*, orders (order_number, final_amount, payment_status, status)')
+        .eq('status', status)
+        .order('created_at', { ascending: status === 'pending' });
+      if (error) throw error;
+
+      const userIds = [...new Set(data.map((submission) => submission.user_id))];
+      const { data: profilesData } = await supabase.from('profiles').select('id, email').in('id', userIds);
+      const profilesMap = new Map(profilesData?.map((profile) => [profile.id, profile]));
+      return data.map((submission) => ({ ...submission, profile: profilesMap.get(submission.user_id) }));
+    },
+    enabled: isAdmin,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({
+      id,
+      approve,
+      reason,
+      acceptAmountMismatch,
+    }: {
+      id: string;
+      approve: boolean;
+      reason?: string;
+      acceptAmountMismatch?: boolean;
+    }) => {
+      const { error } = await supabase.rpc('review_payment_transaction', {
+        _transaction_id: id,
+        _approve: approve,
+        _reason: reason,
+        _accept_amount_mismatch: acceptAmountMismatch,
+      });
+      if (error) throw error;
+      return approve;
+    },
+    onSuccess: (approve) => {
+      toast.success(approve ? 'Payment verified and order marked as paid' : 'Payment rejected');
+      setRejectingId(null);
+      setReason('');
+      queryClient.invalidateQueries({ queryKey: ['admin-payment-transactions'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to review payment'),
+  });
+
+  const openProof = async (path: string) => {
+    try {
+      window.open(await getPaymentProofUrl(path), '_blank');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not open the screenshot');
+    }
+  };
+
+  if (!isAdmin) {
+    navigate('/');
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <Button variant="ghost" onClick={() => navigate('/admin')} className="mb-6">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Dashboard
+        </Button>
+
+        <div className="flex items-center justify-between gap-4 flex-wrap mb-8">
+          <div>
+            <h1 className="text-3xl font-bold">Verify Payments</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Check each UTR against the bank statement before verifying it.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate('/admin/reconciliation')}>
+              <FileSpreadsheet className="mr-2 h-4 w-4" />
+              Import Bank Statement
+            </Button>
+            <Tabs value={status} onValueChange={(value) => setStatus(value as SubmissionStatus)}>
+              <TabsList>
+                <TabsTrigger value="pending">Pending</TabsTrigger>
+                <TabsTrigger value="verified">Verified</TabsTrigger>
+                <TabsTrigger value="rejected">Rejected</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          {submissions?.map((submission) => {
+            const amountMismatch =
+              !!submission.orders && Number(submission.amount) !== Number(submission.orders.final_amount);
+            return (
+              <Card key={submission.id}>
+                <CardContent className="p-4 flex flex-col md:flex-row md:items-start justify-between gap-4">
+                  <div className="space-y-1 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-base">Order #{submission.orders?.order_number}</span>
+                      {submission.orders && <Badge variant="secondary">{submission.orders.payment_status}</Badge>}
+                      {submission.orders?.status === 'cancelled' && <Badge variant="destructive">cancelled</Badge>}
+                    </div>
+                    <p>
+                      <span className="text-muted-foreground">UTR:</span>{' '}
+                      <span className="font-mono">{submission.utr}</span>
+                    </p>
+                    <p className={amountMismatch ? 'text-destructive' : ''}>
+                      <span className="text-muted-foreground">Amount:</span> ₹{submission.amount}
+                      {submission.orders && ` (order total ₹${submission.orders.final_amount})`}
+                      {amountMismatch && <AlertTriangle className="inline ml-1 h-4 w-4" />}
+                    </p>
+                    {submission.payer_vpa && (
+                      <p>
+                        <span className="text-muted-foreground">Payer UPI ID:</span> {submission.payer_vpa}
+                      </p>
+                    )}
+                    <p>
+                      <span className="text-muted-foreground">Customer:</span> {submission.profile?.email || 'N/A'}
+                    </p>
+                    <p className="text-muted-foreground">
+                      Submitted {new Date(submission.created_at).toLocaleString()}
+                      {submission.reviewed_at && ` • Reviewed ${new Date(submission.reviewed_at).toLocaleString()}`}
+                    </p>
+                    {submission.rejection_reason && (
+                      <p className="text-destructive">Rejected: {submission.rejection_reason}</p>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {submission.screenshot_path && (
+                      <Button variant="outline" size="sm" onClick={() => openProof(submission.screenshot_path!)}>
+                        <ImageIcon className="mr-2 h-4 w-4" />
+                        Screenshot
+                      </Button>
+                    )}
+                    {submission.status === 'pending' && (
+                      <>
+                        <Button
+                          size="sm"
+                          className="bg-green-600 hover:bg-green-700"
+                          onClick={() => {
+                            if (
+                              amountMismatch &&
+                              !confirm(
+                                `The customer submitted ₹${submission.amount} but ₹${submission.orders?.final_amount} is due. Verify this payment anyway?`,
+                              )
+                            ) {
+                              return;
+                            }
+                            reviewMutation.mutate({ id: submission.id, approve: true, acceptAmountMismatch: amountMismatch });
+                          }}
+                          disabled={reviewMutation.isPending}
+                        >
+                          <CheckCircle2 className="mr-2 h-4 w-4" />
+                          Verify
+                        </Button>
+                        <Button
+                          variant="destructive"
+                          size="sm"
+                          onClick={() => setRejectingId(submission.id)}
+                          disabled={reviewMutation.isPending}
+                        >
+                          <XCircle className="mr-2 h-4 w-4" />
+                          Reject
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+          {submissions?.length === 0 && (
+            <p className="text-center text-muted-foreground py-12">No {status} payment submissions</p>
+          )}
+        </div>
+
+        <Dialog
+          open={!!rejectingId}
+          onOpenChange={(open) => {
+            if (!open) {
+              setRejectingId(null);
+              setReason('');
+            }
+          }}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Reject Payment</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="reason">Reason (sent to the customer)</Label>
+              <Textarea
+                id="reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="No matching credit found for this UTR"
+                rows={3}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setRejectingId(null)}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => rejectingId && reviewMutation.mutate({ id: rejectingId, approve: false, reason })}
+                disabled={!reason.trim() || reviewMutation.isPending}
+              >
+                Reject Payment
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  );
+}
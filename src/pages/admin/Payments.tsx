@@ -0,0 +1,325 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import Navbar from '@/components/Navbar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { ArrowLeft, Plus, Save, X } from 'lucide-react';
+import { parsePincodeRanges } from '@/lib/shipping';
+import { useStoreSettings } from '@/hooks/use-store-settings';
+import type { PincodeRange } from '@/types/shipping';
+
+type CodFormState = {
+  is_enabled: boolean;
+  pincode_ranges: PincodeRange[];
+  max_order_value: string;
+  fee: string;
+};
+
+export default function AdminPayments() {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [gatewayEnabled, setGatewayEnabled] = useState(false);
+  const [paymentWindow, setPaymentWindow] = useState('');
+  const { data: storeSettings } = useStoreSettings();
+  const [formData, setFormData] = useState<CodFormState>({
+    is_enabled: false,
+    pincode_ranges: [],
+    max_order_value: '',
+    fee: '0',
+  });
+
+  const { data: settings } = useQuery({
+    queryKey: ['cod-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('cod_settings').select('*').maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: gatewaySettings } = useQuery({
+    queryKey: ['gateway-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('gateway_settings').select('*').maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    if (gatewaySettings) setGatewayEnabled(gatewaySettings.is_enabled);
+  }, [gatewaySettings]);
+
+  useEffect(() => {
+    if (storeSettings) setPaymentWindow(storeSettings.payment_window_minutes.toString());
+  }, [storeSettings]);
+
+  useEffect(() => {
+    if (!settings) return;
+    setFormData({
+      is_enabled: settings.is_enabled,
+      pincode_ranges: parsePincodeRanges(settings.pincode_ranges),
+      max_order_value: settings.max_order_value?.toString() || '',
+      fee: settings.fee.toString(),
+    });
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const pincodeRanges = formData.pincode_ranges.filter((range) => range.from && range.to);
+      if (pincodeRanges.some((range) => !/^\d{6}$/.test(range.from) || !/^\d{6}$/.test(range.to))) {
+        throw new Error('Pincode ranges must use 6-digit pincodes');
+      }
+      if (pincodeRanges.some((range) => range.from > range.to)) {
+        throw new Error('Pincode range start must not be after its end');
+      }
+      const maxOrderValue = formData.max_order_value ? parseFloat(formData.max_order_value) : null;
+      if (maxOrderValue !== null && (isNaN(maxOrderValue) || maxOrderValue <= 0)) {
+        throw new Error('Maximum order value must be greater than 0');
+      }
+      const fee = parseFloat(formData.fee || '0');
+      if (isNaN(fee) || fee < 0) throw new Error('COD fee cannot be negative');
+
+      const { error } = await supabase.from('cod_settings').upsert({
+        id: true,
+        is_enabled: formData.is_enabled,
+        pincode_ranges: pincodeRanges,
+        max_order_value: maxOrderValue,
+        fee,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Payment settings saved');
+      queryClient.invalidateQueries({ queryKey: ['cod-settings'] });
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to save payment settings'),
+  });
+
+  const saveGatewayMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('gateway_settings').upsert({
+        id: true,
+        is_enabled: gatewayEnabled,
+        provider: 'mock',
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Gateway settings saved');
+      queryClient.invalidateQueries({ queryKey: ['gateway-settings'] });
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to save gateway settings'),
+  });
+
+  const savePaymentWindowMutation = useMutation({
+    mutationFn: async () => {
+      const minutes = parseInt(paymentWindow, 10);
+      if (isNaN(minutes) || minutes < 5) throw new Error('Payment window must be at least 5 minutes');
+
+      const { error } = await supabase
+        .from('store_settings')
+        .update({ payment_window_minutes: minutes })
+        .eq('id', true);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Payment window saved');
+      queryClient.invalidateQueries({ queryKey: ['store-settings'] });
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to save payment window'),
+  });
+
+  const updateRange = (index: number, key: keyof PincodeRange, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      pincode_ranges: prev.pincode_ranges.map((range, i) => (i === index ? { ...range, [key]: value } : range)),
+    }));
+  };
+
+  if (!isAdmin) {
+    navigate('/');
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Button variant="ghost" onClick={() => navigate('/admin')} className="mb-6">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Dashboard
+        </Button>
+
+        <h1 className="text-3xl font-bold mb-8">Payment Settings</h1>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Cash on Delivery</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="is_enabled">Offer Cash on Delivery</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Customers can choose to pay in cash when the order is delivered.
+                </p>
+              </div>
+              <Switch
+                id="is_enabled"
+                checked={formData.is_enabled}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_enabled: checked })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Eligible Pincode Ranges</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setFormData((prev) => ({ ...prev, pincode_ranges: [...prev.pincode_ranges, { from: '', to: '' }] }))
+                  }
+                >
+                  <Plus className="mr-1 h-4 w-4" /> Range
+                </Button>
+              </div>
+              {formData.pincode_ranges.map((range, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    placeholder="From"
+                    value={range.from}
+                    maxLength={6}
+                    onChange={(e) => updateRange(index, 'from', e.target.value)}
+                  />
+                  <Input
+                    placeholder="To"
+                    value={range.to}
+                    maxLength={6}
+                    onChange={(e) => updateRange(index, 'to', e.target.value)}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        pincode_ranges: prev.pincode_ranges.filter((_, i) => i !== index),
+                      }))
+                    }
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Leave empty to offer COD on every pincode we deliver to.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="max_order_value">Maximum Order Value (₹)</Label>
+              <Input
+                id="max_order_value"
+                type="number"
+                step="0.01"
+                value={formData.max_order_value}
+                onChange={(e) => setFormData({ ...formData, max_order_value: e.target.value })}
+                placeholder="No limit"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Orders above this total (including shipping and tax) must be paid online.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="fee">COD Fee (₹)</Label>
+              <Input
+                id="fee"
+                type="number"
+                step="0.01"
+                value={formData.fee}
+                onChange={(e) => setFormData({ ...formData, fee: e.target.value })}
+              />
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                <Save className="mr-2 h-4 w-4" />
+                {saveMutation.isPending ? 'Saving...' : 'Save Settings'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Card / Netbanking Gateway</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="gateway_enabled">Offer card / netbanking payments</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Gateway: Mock (offline testing). Customers can complete mock payments themselves, so only enable
+                  this on test environments.
+                </p>
+              </div>
+              <Switch id="gateway_enabled" checked={gatewayEnabled} onCheckedChange={setGatewayEnabled} />
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={() => saveGatewayMutation.mutate()} disabled={saveGatewayMutation.isPending}>
+                <Save className="mr-2 h-4 w-4" />
+                {saveGatewayMutation.isPending ? 'Saving...' : 'Save Settings'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Unpaid Orders</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div>
+              <Label htmlFor="payment_window">Payment Window (minutes)</Label>
+              <Input
+                id="payment_window"
+                type="number"
+                min="5"
+                step="1"
+                value={paymentWindow}
+                onChange={(e) => setPaymentWindow(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                UPI and card orders not paid within this time are cancelled automatically and their stock and coupons
+                released. Orders with a UPI reference awaiting verification are never cancelled. Applies to orders
+                placed after saving.
+              </p>
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={() => savePaymentWindowMutation.mutate()}
+                disabled={!storeSettings || savePaymentWindowMutation.isPending}
+              >
+                <Save className="mr-2 h-4 w-4" />
+                {savePaymentWindowMutation.isPending ? 'Saving...' : 'Save Settings'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -13,18 +13,23 @@ import { Switch } from '@/components/ui/switch';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
-import { ChevronRight, Upload, ArrowLeft, Pencil, Trash2, X } from 'lucide-react';
+import { ChevronRight, Upload, ArrowLeft, Pencil, Trash2, X, Plus } from 'lucide-react';
 import { getCategoryIcon } from '@/lib/categoryIcons';
 import { Badge } from '@/components/ui/badge';
 import { VariantOption } from '@/types/products';
 import type { Json } from '@/integrations/supabase/types';
 
+type PriceTierRow = { min_litres: string; price_per_litre: string };
+
 type ProductFormState = {
   name: string;
   description: string;
   price_per_litre: string;
   offer_price_per_litre: string;
   stock_quantity: string;
+  hsn_code: string;
+  gst_rate: string;
+  price_tiers: PriceTierRow[];
   image_url: string;
   category_id: string;
   variant_enabled: boolean;
@@ -43,6 +48,9 @@ const createInitialFormState = (): ProductFormState => ({
   price_per_litre: '',
   offer_price_per_litre: '',
   stock_quantity: '',
+  hsn_code: '',
+  gst_rate: '',
+  price_tiers: [],
   image_url: '',
   category_id: '',
   variant_enabled: false,
@@ -81,7 +89,8 @@ export default function AdminProducts() {
           product_categories (
             id,
             name
-          )
+          ),
+          product_price_tiers (*)
         `)
         .order('created_at', { ascending: false });
       if (error) throw error;
@@ -261,6 +270,20 @@ export default function AdminProducts() {
         }
       }
 
+      const priceTiers = formData.price_tiers
+        .filter((tier) => tier.min_litres !== '' || tier.price_per_litre !== '')
+        .map((tier) => ({
+          min_litres: parseInt(tier.min_litres),
+          price_per_litre: parseFloat(tier.price_per_litre),
+        }));
+      if (priceTiers.some((tier) => !(tier.min_litres >= 1) || !(tier.price_per_litre > 0))) {
+        throw new Error('Each bulk price needs a whole number of litres (1 or more) and a price');
+      }
+      if (new Set(priceTiers.map((tier) => tier.min_litres)).size !== priceTiers.length) {
+        throw new Error('Bulk prices must start at different quantities');
+      }
+
+      let productId = editingProduct?.id;
       if (editingProduct) {
         const { error } = await supabase.from('products').update({
           name: formData.name,
@@ -269,6 +292,8 @@ export default function AdminProducts() {
           price_per_litre: parseFloat(formData.price_per_litre),
           offer_price_per_litre: formData.offer_price_per_litre ? parseFloat(formData.offer_price_per_litre) : null,
           stock_quantity: parseInt(formData.stock_quantity),
+          hsn_code: formData.hsn_code.trim() || null,
+          gst_rate: formData.gst_rate ? parseFloat(formData.gst_rate) : null,
           category_id: formData.category_id || null,
           variant_enabled: formData.variant_enabled,
           variant_title: formData.variant_enabled && formData.variant_title ? formData.variant_title : null,
@@ -287,14 +312,18 @@ export default function AdminProducts() {
           featured_in_offers: formData.featured_in_offers,
         }).eq('id', editingProduct.id);
         if (error) throw error;
+        const { error: deleteError } = await supabase.from('product_price_tiers').delete().eq('product_id', productId);
+        if (deleteError) throw deleteError;
       } else {
-        const { error } = await supabase.from('products').insert({
+        const { data, error } = await supabase.from('products').insert({
           name: formData.name,
           description: formData.description || null,
           image_url: formData.image_url || null,
           price_per_litre: parseFloat(formData.price_per_litre),
           offer_price_per_litre: formData.offer_price_per_litre ? parseFloat(formData.offer_price_per_litre) : null,
           stock_quantity: parseInt(formData.stock_quantity),
+          hsn_code: formData.hsn_code.trim() || null,
+          gst_rate: formData.gst_rate ? parseFloat(formData.gst_rate) : null,
           category_id: formData.category_id || null,
           variant_enabled: formData.variant_enabled,
           variant_title: formData.variant_enabled && formData.variant_title ? formData.variant_title : null,
@@ -311,8 +340,16 @@ export default function AdminProducts() {
               : null,
           is_active: formData.is_active,
           featured_in_offers: formData.featured_in_offers,
-        });
+        }).select('id').single();
         if (error) throw error;
+        productId = data.id;
+      }
+
+      if (priceTiers.length > 0) {
+        const { error: tiersError } = await supabase
+          .from('product_price_tiers')
+          .insert(priceTiers.map((tier) => ({ ...tier, product_id: productId! })));
+        if (tiersError) throw tiersError;
       }
     },
     onSuccess: () => {
@@ -352,6 +389,11 @@ export default function AdminProducts() {
       price_per_litre: product.price_per_litre.toString(),
       offer_price_per_litre: product.offer_price_per_litre?.toString() || '',
       stock_quantity: product.stock_quantity.toString(),
+      hsn_code: product.hsn_code || '',
+      gst_rate: product.gst_rate?.toString() || '',
+      price_tiers: [...(product.product_price_tiers || [])]
+        .sort((a, b) => a.min_litres - b.min_litres)
+        .map((tier) => ({ min_litres: tier.min_litres.toString(), price_per_litre: tier.price_per_litre.toString() })),
       image_url: product.image_url || '',
       category_id: product.category_id || '',
       variant_enabled: Boolean(product.variant_enabled),
@@ -449,6 +491,9 @@ export default function AdminProducts() {
                 price_per_litre: '',
                 offer_price_per_litre: '',
                 stock_quantity: '',
+                hsn_code: '',
+                gst_rate: '',
+                price_tiers: [],
                 image_url: '',
                 category_id: '',
                 variant_enabled: false,
@@ -721,10 +766,111 @@ export default function AdminProducts() {
                     required
                   />
                 </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>HSN Code</Label>
+                    <Input
+                      value={formData.hsn_code}
+                      onChange={(e) => setFormData({ ...formData, hsn_code: e.target.value })}
+                      placeholder="From category"
+                    />
+                  </div>
+                  <div>
+                    <Label>GST Rate (%)</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={formData.gst_rate}
+                      onChange={(e) => setFormData({ ...formData, gst_rate: e.target.value })}
+                      placeholder="From category"
+                    />
+                  </div>
+                </div>
               </CardContent>
             </Card>
           </div>
 
+          {/* Bulk Pricing */}
+          <Card className="mb-6">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Bulk Pricing</CardTitle>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      price_tiers: [...prev.price_tiers, { min_litres: '', price_per_litre: '' }],
+                    }))
+                  }
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Price Break
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Lower per-kg prices once a customer orders at least the given quantity. Below the first break the
+                regular price applies.
+              </p>
+              {formData.price_tiers.map((tier, index) => (
+                <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-3 items-end">
+                  <div>
+                    <Label>From (Kg)</Label>
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={tier.min_litres}
+                      onChange={(e) =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          price_tiers: prev.price_tiers.map((row, i) =>
+                            i === index ? { ...row, min_litres: e.target.value } : row
+                          ),
+                        }))
+                      }
+                      placeholder="5"
+                    />
+                  </div>
+                  <div>
+                    <Label>Price per Kg (₹)</Label>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      value={tier.price_per_litre}
+                      onChange={(e) =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          price_tiers: prev.price_tiers.map((row, i) =>
+                            i === index ? { ...row, price_per_litre: e.target.value } : row
+                          ),
+                        }))
+                      }
+                      placeholder="120.00"
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        price_tiers: prev.price_tiers.filter((_, i) => i !== index),
+                      }))
+                    }
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
           {/* Product Media & Visibility */}
           <Card className="mb-6">
             <CardHeader>
@@ -865,6 +1011,7 @@ export default function AdminProducts() {
                     <h3 className="font-semibold">{product.name}</h3>
                     <p className="text-sm text-muted-foreground">
                       ₹{product.price_per_litre}/kg | Stock: {product.stock_quantity}kg
+                      {product.reserved_quantity > 0 && ` (${product.reserved_quantity}kg reserved)`}
                     </p>
                     {product.product_categories && (
                       <div className="flex items-center gap-1 text-xs text-muted-foreground">
@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import Navbar from '@/components/Navbar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { ArrowLeft, CheckCircle2, Upload } from 'lucide-react';
+import { parseBankStatement, reconcileStatement } from '@/lib/bank-statement';
+import type { ReconciliationResult, StatementMatch } from '@/types/reconciliation';
+
+export default function AdminReconciliation() {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [fileName, setFileName] = useState('');
+  const [result, setResult] = useState<ReconciliationResult | null>(null);
+  const [selectedRows, setSelectedRows] = useState<number[]>([]);
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const rows = await parseBankStatement(file);
+      if (rows.length === 0) throw new Error('No credits found in this statement');
+
+      const [{ data: orders, error: ordersError }, { data: submissions, error: submissionsError }] = await Promise.all([
+        supabase
+          .from('orders')
+          .select('id, order_number, final_amount, created_at')
+          .eq('payment_method', 'upi')
+          .eq('payment_status', 'pending')
+          .neq('status', 'cancelled'),
+        supabase.from('payment_transactions').select('id, order_id, utr, amount').eq('status', 'pending'),
+      ]);
+      if (ordersError) throw ordersError;
+      if (submissionsError) throw submissionsError;
+
+      return reconcileStatement(rows, orders, submissions);
+    },
+    onSuccess: (reconciliation) => {
+      setResult(reconciliation);
+      setSelectedRows(reconciliation.confirmed.map((match) => match.row.rowNumber));
+    },
+    onError: (error: Error) => {
+      setResult(null);
+      toast.error(error.message || 'Failed to read the statement');
+    },
+  });
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const payments = (result?.confirmed || [])
+        .filter((match) => selectedRows.includes(match.row.rowNumber))
+        .map((match) => ({ order_id: match.orders[0].id, utr: match.utr, amount: match.row.credit }));
+      if (payments.length === 0) throw new Error('Select at least one payment');
+
+      const { data, error } = await supabase.rpc('record_bank_payments', { _payments: payments });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (recorded) => {
+      toast.success(`${recorded} order${recorded === 1 ? '' : 's'} marked as paid`);
+      setResult((prev) =>
+        prev && {
+          ...prev,
+          confirmed: prev.confirmed.filter((match) => !selectedRows.includes(match.row.rowNumber)),
+        },
+      );
+      setSelectedRows([]);
+      queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['admin-payment-transactions'] });
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to record payments'),
+  });
+
+  const toggleRow = (rowNumber: number, checked: boolean) => {
+    setSelectedRows((prev) => (checked ? [...prev, rowNumber] : prev.filter((row) => row !== rowNumber)));
+  };
+
+  const renderMatches = (matches: StatementMatch[], selectable = false) =>
+    matches.length > 0 ? (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {selectable && <TableHead className="w-10" />}
+            <TableHead>Row</TableHead>
+            <TableHead>Date</TableHead>
+            <TableHead>Narration</TableHead>
+            <TableHead>UTR</TableHead>
+            <TableHead className="text-right">Credit</TableHead>
+            <TableHead>Order</TableHead>
+            <TableHead>Match</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {matches.map((match) => (
+            <TableRow key={match.row.rowNumber}>
+              {selectable && (
+                <TableCell>
+                  <Checkbox
+                    checked={selectedRows.includes(match.row.rowNumber)}
+                    onCheckedChange={(checked) => toggleRow(match.row.rowNumber, checked === true)}
+                  />
+                </TableCell>
+              )}
+              <TableCell>{match.row.rowNumber}</TableCell>
+              <TableCell className="whitespace-nowrap">{match.row.date}</TableCell>
+              <TableCell className="max-w-xs truncate" title={match.row.description}>
+                {match.row.description}
+              </TableCell>
+              <TableCell className="font-mono text-xs">{match.utr || '-'}</TableCell>
+              <TableCell className="text-right">₹{match.row.credit.toFixed(2)}</TableCell>
+              <TableCell>
+                {match.orders.length > 0
+                  ? match.orders.map((order) => (
+                      <span key={order.id} className="block whitespace-nowrap">
+                        {order.order_number} (₹{order.final_amount})
+                      </span>
+                    ))
+                  : '-'}
+              </TableCell>
+              <TableCell className="text-muted-foreground">{match.note}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    ) : (
+      <p className="text-center text-muted-foreground py-8">Nothing here</p>
+    );
+
+  if (!isAdmin) {
+    navigate('/');
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <Button variant="ghost" onClick={() => navigate('/admin/payment-verification')} className="mb-6">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Verify Payments
+        </Button>
+
+        <h1 className="text-3xl font-bold mb-2">Bank Statement Reconciliation</h1>
+        <p className="text-sm text-muted-foreground mb-8">
+          Upload your bank's statement export (CSV or Excel) to match UPI credits to pending orders by UTR, order
+          number and amount.
+        </p>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Upload className="h-5 w-5" />
+              Import Statement
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Input
+              type="file"
+              accept=".csv,.xls,.xlsx"
+              disabled={importMutation.isPending}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (!file) return;
+                setFileName(file.name);
+                importMutation.mutate(file);
+                e.target.value = '';
+              }}
+            />
+            {importMutation.isPending && <p className="text-sm text-muted-foreground">Reading {fileName}…</p>}
+          </CardContent>
+        </Card>
+
+        {result && (
+          <Tabs defaultValue="confirmed">
+            <div className="flex items-center justify-between gap-4 flex-wrap mb-4">
+              <TabsList>
+                <TabsTrigger value="confirmed">
+                  Confirmed <Badge variant="secondary" className="ml-2">{result.confirmed.length}</Badge>
+                </TabsTrigger>
+                <TabsTrigger value="ambiguous">
+                  Ambiguous <Badge variant="secondary" className="ml-2">{result.ambiguous.length}</Badge>
+                </TabsTrigger>
+                <TabsTrigger value="unmatched">
+                  Unmatched <Badge variant="secondary" className="ml-2">{result.unmatched.length}</Badge>
+                </TabsTrigger>
+              </TabsList>
+              <Button
+                onClick={() => recordMutation.mutate()}
+                disabled={selectedRows.length === 0 || recordMutation.isPending}
+                className="bg-green-600 hover:bg-green-700"
+              >
+                <CheckCircle2 className="mr-2 h-4 w-4" />
+                {recordMutation.isPending ? 'Recording...' : `Mark ${selectedRows.length} as Paid`}
+              </Button>
+            </div>
+            <Card>
+              <CardContent className="p-0">
+                <TabsContent value="confirmed" className="mt-0">
+                  {renderMatches(result.confirmed, true)}
+                </TabsContent>
+                <TabsContent value="ambiguous" className="mt-0">
+                  {renderMatches(result.ambiguous)}
+                </TabsContent>
+                <TabsContent value="unmatched" className="mt-0">
+                  {renderMatches(result.unmatched)}
+                </TabsContent>
+              </CardContent>
+            </Card>
+          </Tabs>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,389 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import Navbar from '@/components/Navbar';
+import RefundDialog from '@/components/RefundDialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { ArrowLeft, CheckCircle2, ImageIcon, IndianRupee, PackageCheck, Save, XCircle } from 'lucide-react';
+import { useStoreSettings } from '@/hooks/use-store-settings';
+import { RETURN_STATUS_LABELS, getReturnPhotoUrl } from '@/lib/returns';
+import type { ReturnStatus } from '@/types/returns';
+
+export default function AdminReturns() {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<ReturnStatus>('requested');
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [receivingId, setReceivingId] = useState<string | null>(null);
+  const [refundingId, setRefundingId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [restock, setRestock] = useState(true);
+  const [returnWindow, setReturnWindow] = useState('');
+  const { data: storeSettings } = useStoreSettings();
+
+  useEffect(() => {
+    if (storeSettings) setReturnWindow(storeSettings.return_window_days.toString());
+  }, [storeSettings]);
+
+  const { data: returns } = useQuery({
+    queryKey: ['admin-returns', status],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('return_requests')
+        .select('*, return_request_items (*), orders (*, order_items (*), refunds (*, refund_items (*)))')
+        .eq('status', status)
+        .order('created_at', { ascending: status === 'requested' });
+      if (error) throw error;
+
+      const userIds = [...new Set(data.map((request) => request.user_id))];
+      const { data: profilesData } = await supabase.from('profiles').select('id, email').in('id', userIds);
+      const profilesMap = new Map(profilesData?.map((profile) => [profile.id, profile]));
+      return data.map((request) => ({ ...request, profile: profilesMap.get(request.user_id) }));
+    },
+    enabled: isAdmin,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['admin-returns'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-orders'] });
+  };
+
+  const closeDialogs = () => {
+    setRejectingId(null);
+    setReceivingId(null);
+    setNote('');
+    setRestock(true);
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, approve, note }: { id: string; approve: boolean; note?: string }) => {
+      const { error } = await supabase.rpc('review_return', {
+        _return_id: id,
+        _approve: approve,
+        _note: note?.trim() || undefined,
+      });
+      if (error) throw error;
+      return approve;
+    },
+    onSuccess: (approve) => {
+      toast.success(approve ? 'Return approved' : 'Return rejected');
+      closeDialogs();
+      invalidate();
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to review return'),
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async ({ id, restock, note }: { id: string; restock: boolean; note: string }) => {
+      const { data, error } = await supabase.rpc('receive_return', {
+        _return_id: id,
+        _restock: restock,
+        _note: note.trim() || undefined,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (request) => {
+      toast.success(
+        `Return received${request.restocked ? ' and stock updated' : ''}${
+          request.status === 'closed' ? '. Nothing to refund, so it was closed' : ''
+        }`,
+      );
+      closeDialogs();
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['admin-products'] });
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to receive return'),
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc('close_return', { _return_id: id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Return closed');
+      invalidate();
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to close return'),
+  });
+
+  const saveReturnWindowMutation = useMutation({
+    mutationFn: async () => {
+      const days = parseInt(returnWindow, 10);
+      if (isNaN(days) || days < 0) throw new Error('Return window cannot be negative');
+
+      const { error } = await supabase.from('store_settings').update({ return_window_days: days }).eq('id', true);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Return window saved');
+      queryClient.invalidateQueries({ queryKey: ['store-settings'] });
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to save return window'),
+  });
+
+  const openPhoto = async (path: string) => {
+    try {
+      window.open(await getReturnPhotoUrl(path), '_blank');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not open the photo');
+    }
+  };
+
+  const refundingReturn = returns?.find((request) => request.id === refundingId) ?? null;
+  const receivingReturn = returns?.find((request) => request.id === receivingId) ?? null;
+
+  if (!isAdmin) {
+    navigate('/');
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <Button variant="ghost" onClick={() => navigate('/admin')} className="mb-6">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Dashboard
+        </Button>
+
+        <div className="flex items-center justify-between gap-4 flex-wrap mb-8">
+          <div>
+            <h1 className="text-3xl font-bold">Returns</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Approve return requests, receive the goods back into stock and refund the customer.
+            </p>
+          </div>
+          <Tabs value={status} onValueChange={(value) => setStatus(value as ReturnStatus)}>
+            <TabsList>
+              {(Object.keys(RETURN_STATUS_LABELS) as ReturnStatus[]).map((value) => (
+                <TabsTrigger key={value} value={value}>
+                  {value === 'requested' ? 'Requested' : RETURN_STATUS_LABELS[value]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <div className="space-y-4">
+          {returns?.map((request) => (
+            <Card key={request.id}>
+              <CardContent className="p-4 flex flex-col md:flex-row md:items-start justify-between gap-4">
+                <div className="space-y-1 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-base">Order #{request.orders?.order_number}</span>
+                    <Badge variant="secondary">
+                      {RETURN_STATUS_LABELS[request.status as ReturnStatus] ?? request.status}
+                    </Badge>
+                    {request.restocked && <Badge variant="outline">restocked</Badge>}
+                  </div>
+                  <ul>
+                    {request.return_request_items.map((item) => (
+                      <li key={item.id}>
+                        {item.product_name} × {item.quantity_litres}L
+                      </li>
+                    ))}
+                  </ul>
+                  <p>
+                    <span className="text-muted-foreground">Reason:</span> {request.reason}
+                  </p>
+                  <p>
+                    <span className="text-muted-foreground">Customer:</span> {request.profile?.email || 'N/A'}
+                  </p>
+                  <p className="text-muted-foreground">
+                    Requested {new Date(request.created_at).toLocaleString()}
+                    {request.reviewed_at && ` • Reviewed ${new Date(request.reviewed_at).toLocaleString()}`}
+                    {request.received_at && ` • Received ${new Date(request.received_at).toLocaleString()}`}
+                  </p>
+                  {request.admin_note && (
+                    <p className={request.status === 'rejected' ? 'text-destructive' : 'text-muted-foreground'}>
+                      Note: {request.admin_note}
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {request.photo_paths.map((path, index) => (
+                    <Button key={path} variant="outline" size="sm" onClick={() => openPhoto(path)}>
+                      <ImageIcon className="mr-2 h-4 w-4" />
+                      Photo {index + 1}
+                    </Button>
+                  ))}
+                  {request.status === 'requested' && (
+                    <>
+                      <Button
+                        size="sm"
+                        className="bg-green-600 hover:bg-green-700"
+                        onClick={() => reviewMutation.mutate({ id: request.id, approve: true })}
+                        disabled={reviewMutation.isPending}
+                      >
+                        <CheckCircle2 className="mr-2 h-4 w-4" />
+                        Approve
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => setRejectingId(request.id)}
+                        disabled={reviewMutation.isPending}
+                      >
+                        <XCircle className="mr-2 h-4 w-4" />
+                        Reject
+                      </Button>
+                    </>
+                  )}
+                  {request.status === 'approved' && (
+                    <Button size="sm" onClick={() => setReceivingId(request.id)}>
+                      <PackageCheck className="mr-2 h-4 w-4" />
+                      Mark Received
+                    </Button>
+                  )}
+                  {request.status === 'received' && request.orders?.payment_status === 'paid' && (
+                    <Button size="sm" onClick={() => setRefundingId(request.id)}>
+                      <IndianRupee className="mr-2 h-4 w-4" />
+                      Refund
+                    </Button>
+                  )}
+                  {request.status === 'received' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => confirm('Close this return without a refund?') && closeMutation.mutate(request.id)}
+                      disabled={closeMutation.isPending}
+                    >
+                      <XCircle className="mr-2 h-4 w-4" />
+                      Close Without Refund
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+          {returns?.length === 0 && (
+            <p className="text-center text-muted-foreground py-12">
+              No {RETURN_STATUS_LABELS[status].toLowerCase()} returns
+            </p>
+          )}
+        </div>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle>Return Policy</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div>
+              <Label htmlFor="return_window">Return Window (days)</Label>
+              <Input
+                id="return_window"
+                type="number"
+                min="0"
+                step="1"
+                value={returnWindow}
+                onChange={(e) => setReturnWindow(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Customers can request a return for this many days after their order is delivered. Set to 0 to stop
+                accepting returns. Keep the refund policy text on the Settings page in line with it.
+              </p>
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveReturnWindowMutation.mutate()}
+                disabled={!storeSettings || saveReturnWindowMutation.isPending}
+              >
+                <Save className="mr-2 h-4 w-4" />
+                {saveReturnWindowMutation.isPending ? 'Saving...' : 'Save Settings'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!rejectingId} onOpenChange={(open) => !open && closeDialogs()}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Reject Return</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="reject-note">Reason (sent to the customer)</Label>
+              <Textarea
+                id="reject-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Opened tins cannot be returned"
+                rows={3}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={closeDialogs}>
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => rejectingId && reviewMutation.mutate({ id: rejectingId, approve: false, note })}
+                disabled={!note.trim() || reviewMutation.isPending}
+              >
+                Reject Return
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!receivingId} onOpenChange={(open) => !open && closeDialogs()}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Receive Return</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Switch id="receive-restock" checked={restock} onCheckedChange={setRestock} />
+                <Label htmlFor="receive-restock">Put the returned litres back into stock</Label>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Turn this off for damaged or opened goods that cannot be sold again.
+              </p>
+              {receivingReturn && receivingReturn.orders?.payment_status !== 'paid' && (
+                <p className="text-sm text-muted-foreground">
+                  Nothing is left to refund on order #{receivingReturn.orders?.order_number}, so the return will be
+                  closed once received.
+                </p>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="receive-note">Inspection Note</Label>
+                <Textarea id="receive-note" value={note} onChange={(e) => setNote(e.target.value)} rows={2} />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={closeDialogs}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() => receivingId && receiveMutation.mutate({ id: receivingId, restock, note })}
+                disabled={receiveMutation.isPending}
+              >
+                Mark Received
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <RefundDialog
+          order={refundingReturn?.orders ?? null}
+          returnRequest={refundingReturn}
+          onOpenChange={(open) => !open && setRefundingId(null)}
+        />
+      </div>
+    </div>
+  );
+}
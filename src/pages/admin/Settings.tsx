@@ -0,0 +1,190 @@
+import { useEffect, useState, type ChangeEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import Navbar from '@/components/Navbar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { ArrowLeft, Save } from 'lucide-react';
+import { useStoreSettings } from '@/hooks/use-store-settings';
+import type { TablesUpdate } from '@/integrations/supabase/types';
+
+// The payment and return windows are edited on the Payments and Returns pages
+type SettingsField = Exclude<
+  keyof TablesUpdate<'store_settings'>,
+  'id' | 'created_at' | 'updated_at' | 'payment_window_minutes' | 'return_window_days'
+>;
+
+type FieldConfig = {
+  key: SettingsField;
+  label: string;
+  hint?: string;
+  placeholder?: string;
+  rows?: number;
+};
+
+const SECTIONS: { title: string; fields: FieldConfig[] }[] = [
+  {
+    title: 'Store',
+    fields: [
+      { key: 'store_name', label: 'Store Name', hint: 'Also the seller name on invoices and credit notes.' },
+      { key: 'tagline', label: 'Tagline', hint: 'Shown in the footer under the store name.', rows: 2 },
+    ],
+  },
+  {
+    title: 'UPI & WhatsApp',
+    fields: [
+      { key: 'upi_id', label: 'UPI ID', placeholder: 'name@bank', hint: 'Customers pay to this UPI ID.' },
+      { key: 'upi_payee_name', label: 'Payee Name', hint: 'Shown in the customer\'s UPI app.' },
+      {
+        key: 'whatsapp_number',
+        label: 'WhatsApp Number',
+        placeholder: '919876543210',
+        hint: 'Country code and number, digits only. Payment confirmations are sent here.',
+      },
+    ],
+  },
+  {
+    title: 'Contact',
+    fields: [
+      { key: 'contact_email', label: 'Email' },
+      { key: 'contact_phone', label: 'Phone' },
+      {
+        key: 'address',
+        label: 'Address',
+        hint: 'One line per address line. Also the seller address on invoices and credit notes.',
+        rows: 5,
+      },
+      { key: 'business_hours', label: 'Business Hours', hint: 'One line per entry.', rows: 3 },
+    ],
+  },
+  {
+    title: 'Company Details',
+    fields: [
+      { key: 'legal_status', label: 'Legal Status' },
+      { key: 'established', label: 'Established' },
+      { key: 'proprietor', label: 'Proprietor' },
+      { key: 'gst_registration_date', label: 'GST Registration Date', hint: 'The GSTIN itself is set on the Tax page.' },
+    ],
+  },
+  {
+    title: 'Policies',
+    fields: [
+      { key: 'shipping_policy', label: 'Shipping Policy', rows: 8 },
+      { key: 'terms_and_conditions', label: 'Terms and Conditions', rows: 8 },
+      { key: 'refund_policy', label: 'Cancellation and Refund Policy', rows: 8 },
+      { key: 'privacy_policy', label: 'Privacy Policy', rows: 8 },
+    ],
+  },
+];
+
+const REQUIRED_FIELDS: SettingsField[] = ['store_name', 'upi_id', 'upi_payee_name', 'whatsapp_number', 'address'];
+
+export default function AdminSettings() {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: settings } = useStoreSettings();
+  const [formData, setFormData] = useState<Partial<Record<SettingsField, string>>>({});
+
+  useEffect(() => {
+    if (!settings) return;
+    const values: Partial<Record<SettingsField, string>> = {};
+    SECTIONS.forEach((section) => section.fields.forEach(({ key }) => (values[key] = settings[key] ?? '')));
+    setFormData(values);
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const values = Object.fromEntries(
+        Object.entries(formData).map(([key, value]) => [key, value?.trim() || null]),
+      ) as Partial<Record<SettingsField, string | null>>;
+
+      const missing = REQUIRED_FIELDS.find((key) => !values[key]);
+      if (missing) {
+        const label = SECTIONS.flatMap((section) => section.fields).find((field) => field.key === missing)?.label;
+        throw new Error(`${label} is required`);
+      }
+      if (!/^[A-Za-z0-9._-]+@[A-Za-z0-9]+$/.test(values.upi_id!)) {
+        throw new Error('Enter a valid UPI ID, e.g. name@bank');
+      }
+      if (!/^[0-9]{10,15}$/.test(values.whatsapp_number!)) {
+        throw new Error('WhatsApp number must be 10-15 digits including the country code, without +');
+      }
+
+      const { error } = await supabase.from('store_settings').update(values).eq('id', true);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Store settings saved');
+      queryClient.invalidateQueries({ queryKey: ['store-settings'] });
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to save store settings'),
+  });
+
+  if (!isAdmin) {
+    navigate('/');
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Button variant="ghost" onClick={() => navigate('/admin')} className="mb-6">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Dashboard
+        </Button>
+
+        <h1 className="text-3xl font-bold mb-2">Store Settings</h1>
+        <p className="text-sm text-muted-foreground mb-8">
+          Policies are plain text: separate sections with a blank line, put the section heading on its first line and
+          start list items with "- ".
+        </p>
+
+        <div className="space-y-6">
+          {SECTIONS.map((section) => (
+            <Card key={section.title}>
+              <CardHeader>
+                <CardTitle>{section.title}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {section.fields.map((field) => {
+                  const inputProps = {
+                    id: field.key,
+                    value: formData[field.key] ?? '',
+                    placeholder: field.placeholder,
+                    onChange: (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+                      setFormData((prev) => ({ ...prev, [field.key]: e.target.value })),
+                  };
+                  return (
+                    <div key={field.key}>
+                      <Label htmlFor={field.key}>
+                        {field.label}
+                        {REQUIRED_FIELDS.includes(field.key) && ' *'}
+                      </Label>
+                      {field.rows ? <Textarea rows={field.rows} {...inputProps} /> : <Input {...inputProps} />}
+                      {field.hint && <p className="text-xs text-muted-foreground mt-1">{field.hint}</p>}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <div className="flex justify-end mt-6">
+          <Button onClick={() => saveMutation.mutate()} disabled={!settings || saveMutation.isPending}>
+            <Save className="mr-2 h-4 w-4" />
+            {saveMutation.isPending ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,429 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import Navbar from '@/components/Navbar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Card, CardContent } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { ArrowLeft, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { parsePincodeRanges } from '@/lib/shipping';
+import type { Tables } from '@/integrations/supabase/types';
+import type { PincodeRange } from '@/types/shipping';
+
+type Zone = Tables<'delivery_zones'> & { delivery_zone_rates: Tables<'delivery_zone_rates'>[] };
+
+type RateRow = { min_litres: string; max_litres: string; charge: string };
+
+type ZoneFormState = {
+  name: string;
+  states: string;
+  pincode_ranges: PincodeRange[];
+  free_shipping_threshold: string;
+  priority: string;
+  is_active: boolean;
+  rates: RateRow[];
+};
+
+const createInitialFormState = (): ZoneFormState => ({
+  name: '',
+  states: '',
+  pincode_ranges: [],
+  free_shipping_threshold: '',
+  priority: '10',
+  is_active: true,
+  rates: [{ min_litres: '0', max_litres: '', charge: '' }],
+});
+
+export default function AdminShipping() {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingZone, setEditingZone] = useState<Zone | null>(null);
+  const [formData, setFormData] = useState<ZoneFormState>(createInitialFormState());
+
+  const { data: zones } = useQuery({
+    queryKey: ['admin-delivery-zones'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('delivery_zones')
+        .select('*, delivery_zone_rates(*)')
+        .order('priority', { ascending: false })
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data as Zone[];
+    },
+  });
+
+  const saveZoneMutation = useMutation({
+    mutationFn: async () => {
+      if (!formData.name.trim()) throw new Error('Zone name is required');
+
+      const states = formData.states
+        .split(',')
+        .map((state) => state.trim())
+        .filter(Boolean);
+      const pincodeRanges = formData.pincode_ranges.filter((range) => range.from && range.to);
+      if (pincodeRanges.some((range) => !/^\d{6}$/.test(range.from) || !/^\d{6}$/.test(range.to))) {
+        throw new Error('Pincode ranges must use 6-digit pincodes');
+      }
+      if (pincodeRanges.some((range) => range.from > range.to)) {
+        throw new Error('Pincode range start must not be after its end');
+      }
+      if (states.length === 0 && pincodeRanges.length === 0) {
+        throw new Error('Add at least one state or pincode range');
+      }
+
+      const rates = formData.rates
+        .filter((rate) => rate.charge !== '')
+        .map((rate) => ({
+          min_litres: parseFloat(rate.min_litres) || 0,
+          max_litres: rate.max_litres ? parseFloat(rate.max_litres) : null,
+          charge: parseFloat(rate.charge),
+        }));
+      if (rates.length === 0) throw new Error('Add at least one shipping rate');
+      if (rates.some((rate) => rate.max_litres !== null && rate.max_litres < rate.min_litres)) {
+        throw new Error('Rate "up to" litres must not be below "from" litres');
+      }
+
+      const payload = {
+        name: formData.name.trim(),
+        states,
+        pincode_ranges: pincodeRanges,
+        free_shipping_threshold: formData.free_shipping_threshold
+          ? parseFloat(formData.free_shipping_threshold)
+          : null,
+        priority: parseInt(formData.priority) || 0,
+        is_active: formData.is_active,
+      };
+
+      let zoneId = editingZone?.id;
+      if (zoneId) {
+        const { error } = await supabase.from('delivery_zones').update(payload).eq('id', zoneId);
+        if (error) throw error;
+        const { error: deleteError } = await supabase.from('delivery_zone_rates').delete().eq('zone_id', zoneId);
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase.from('delivery_zones').insert(payload).select('id').single();
+        if (error) throw error;
+        zoneId = data.id;
+      }
+
+      const { error: ratesError } = await supabase
+        .from('delivery_zone_rates')
+        .insert(rates.map((rate) => ({ ...rate, zone_id: zoneId! })));
+      if (ratesError) throw ratesError;
+    },
+    onSuccess: () => {
+      toast.success(editingZone ? 'Delivery zone updated' : 'Delivery zone created');
+      setIsDialogOpen(false);
+      setEditingZone(null);
+      setFormData(createInitialFormState());
+      queryClient.invalidateQueries({ queryKey: ['admin-delivery-zones'] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const deleteZoneMutation = useMutation({
+    mutationFn: async (zoneId: string) => {
+      const { error } = await supabase.from('delivery_zones').delete().eq('id', zoneId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Delivery zone deleted');
+      queryClient.invalidateQueries({ queryKey: ['admin-delivery-zones'] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const handleEdit = (zone: Zone) => {
+    setEditingZone(zone);
+    setFormData({
+      name: zone.name,
+      states: zone.states.join(', '),
+      pincode_ranges: parsePincodeRanges(zone.pincode_ranges),
+      free_shipping_threshold: zone.free_shipping_threshold?.toString() || '',
+      priority: zone.priority.toString(),
+      is_active: zone.is_active,
+      rates: [...zone.delivery_zone_rates]
+        .sort((a, b) => a.min_litres - b.min_litres)
+        .map((rate) => ({
+          min_litres: rate.min_litres.toString(),
+          max_litres: rate.max_litres?.toString() || '',
+          charge: rate.charge.toString(),
+        })),
+    });
+    setIsDialogOpen(true);
+  };
+
+  const updateRate = (index: number, key: keyof RateRow, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      rates: prev.rates.map((rate, i) => (i === index ? { ...rate, [key]: value } : rate)),
+    }));
+  };
+
+  const updateRange = (index: number, key: keyof PincodeRange, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      pincode_ranges: prev.pincode_ranges.map((range, i) => (i === index ? { ...range, [key]: value } : range)),
+    }));
+  };
+
+  if (!isAdmin) {
+    navigate('/');
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <Button variant="ghost" onClick={() => navigate('/admin')} className="mb-6">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Dashboard
+        </Button>
+
+        <div className="flex justify-between items-center mb-8">
+          <div>
+            <h1 className="text-3xl font-bold">Shipping & Delivery Zones</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Higher priority zones are matched first; within a priority, pincode ranges win over states.
+            </p>
+          </div>
+          <Button
+            onClick={() => {
+              setEditingZone(null);
+              setFormData(createInitialFormState());
+              setIsDialogOpen(true);
+            }}
+          >
+            Add Zone
+          </Button>
+        </div>
+
+        <div className="grid gap-4">
+          {zones?.map((zone) => (
+            <Card key={zone.id}>
+              <CardContent className="p-4 flex justify-between items-start gap-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-bold">{zone.name}</h3>
+                    <Badge variant="outline">Priority {zone.priority}</Badge>
+                    {!zone.is_active && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                  {zone.states.length > 0 && (
+                    <p className="text-sm text-muted-foreground">States: {zone.states.join(', ')}</p>
+                  )}
+                  {parsePincodeRanges(zone.pincode_ranges).length > 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      Pincodes:{' '}
+                      {parsePincodeRanges(zone.pincode_ranges)
+                        .map((range) => `${range.from}–${range.to}`)
+                        .join(', ')}
+                    </p>
+                  )}
+                  <p className="text-sm">
+                    {[...zone.delivery_zone_rates]
+                      .sort((a, b) => a.min_litres - b.min_litres)
+                      .map((rate) =>
+                        `${rate.min_litres}${rate.max_litres !== null ? `–${rate.max_litres}` : '+'} L: ₹${rate.charge}`,
+                      )
+                      .join(' | ')}
+                  </p>
+                  {zone.free_shipping_threshold !== null && (
+                    <p className="text-xs text-muted-foreground">
+                      Free shipping above ₹{zone.free_shipping_threshold}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="icon" onClick={() => handleEdit(zone)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    size="icon"
+                    onClick={() => {
+                      if (confirm('Are you sure you want to delete this delivery zone?')) {
+                        deleteZoneMutation.mutate(zone.id);
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+          {zones && zones.length === 0 && (
+            <p className="text-muted-foreground">
+              No delivery zones configured. Customers cannot check out until at least one zone exists.
+            </p>
+          )}
+        </div>
+
+        <Dialog
+          open={isDialogOpen}
+          onOpenChange={(open) => {
+            setIsDialogOpen(open);
+            if (!open) {
+              setEditingZone(null);
+              setFormData(createInitialFormState());
+            }
+          }}
+        >
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingZone ? 'Edit Delivery Zone' : 'Add Delivery Zone'}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid sm:grid-cols-2 gap-4">
+                <div>
+                  <Label>Name</Label>
+                  <Input value={formData.name} onChange={(e) => setFormData({ ...formData, name: e.target.value })} />
+                </div>
+                <div>
+                  <Label>Priority</Label>
+                  <Input
+                    type="number"
+                    value={formData.priority}
+                    onChange={(e) => setFormData({ ...formData, priority: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div>
+                <Label>States (comma separated)</Label>
+                <Input
+                  value={formData.states}
+                  onChange={(e) => setFormData({ ...formData, states: e.target.value })}
+                  placeholder="Tamil Nadu, Kerala"
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Pincode Ranges</Label>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setFormData((prev) => ({ ...prev, pincode_ranges: [...prev.pincode_ranges, { from: '', to: '' }] }))
+                    }
+                  >
+                    <Plus className="mr-1 h-4 w-4" /> Range
+                  </Button>
+                </div>
+                {formData.pincode_ranges.map((range, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      placeholder="From"
+                      value={range.from}
+                      maxLength={6}
+                      onChange={(e) => updateRange(index, 'from', e.target.value)}
+                    />
+                    <Input
+                      placeholder="To"
+                      value={range.to}
+                      maxLength={6}
+                      onChange={(e) => updateRange(index, 'to', e.target.value)}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        setFormData((prev) => ({
+                          ...prev,
+                          pincode_ranges: prev.pincode_ranges.filter((_, i) => i !== index),
+                        }))
+                      }
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Rates by Litres</Label>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        rates: [...prev.rates, { min_litres: '', max_litres: '', charge: '' }],
+                      }))
+                    }
+                  >
+                    <Plus className="mr-1 h-4 w-4" /> Rate
+                  </Button>
+                </div>
+                {formData.rates.map((rate, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      placeholder="From (L)"
+                      value={rate.min_litres}
+                      onChange={(e) => updateRate(index, 'min_litres', e.target.value)}
+                    />
+                    <Input
+                      type="number"
+                      placeholder="Up to (L), blank = no limit"
+                      value={rate.max_litres}
+                      onChange={(e) => updateRate(index, 'max_litres', e.target.value)}
+                    />
+                    <Input
+                      type="number"
+                      placeholder="Charge (₹)"
+                      value={rate.charge}
+                      onChange={(e) => updateRate(index, 'charge', e.target.value)}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        setFormData((prev) => ({ ...prev, rates: prev.rates.filter((_, i) => i !== index) }))
+                      }
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <div>
+                <Label>Free Shipping Above (₹)</Label>
+                <Input
+                  type="number"
+                  value={formData.free_shipping_threshold}
+                  onChange={(e) => setFormData({ ...formData, free_shipping_threshold: e.target.value })}
+                  placeholder="Leave blank for no free shipping"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+                />
+                <Label>Active</Label>
+              </div>
+              <Button
+                onClick={() => saveZoneMutation.mutate()}
+                className="w-full"
+                disabled={saveZoneMutation.isPending}
+              >
+                {editingZone ? 'Update' : 'Create'}
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  );
+}
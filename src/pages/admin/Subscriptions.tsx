@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import Navbar from '@/components/Navbar';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Card, CardContent } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { ArrowLeft } from 'lucide-react';
+import { getPaymentProvider } from '@/lib/payment-providers';
+import {
+  SUBSCRIPTION_ACTION_LABELS,
+  SUBSCRIPTION_STATUS_COLORS,
+  SUBSCRIPTION_STATUS_LABELS,
+  describeFrequency,
+  describeSubscriptionItem,
+  formatRunDate,
+  getSubscriptionActions,
+} from '@/lib/subscriptions';
+import type { SubscriptionAction, SubscriptionStatus } from '@/types/subscriptions';
+
+export default function AdminSubscriptions() {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<SubscriptionStatus>('active');
+
+  // Active subscriptions are listed by their next run so the top of the list is what gets ordered next
+  const { data: subscriptions } = useQuery({
+    queryKey: ['admin-subscriptions', status],
+    queryFn: async () => {
+      const query = supabase
+        .from('subscriptions')
+        .select(
+          '*, subscription_items (*, products (name)), last_order:orders!subscriptions_last_order_id_fkey (order_number, status, payment_status)',
+        )
+        .eq('status', status);
+      const { data, error } = await (status === 'active'
+        ? query.order('next_run_on', { ascending: true })
+        : query.order('updated_at', { ascending: false }));
+      if (error) throw error;
+
+      const userIds = [...new Set(data.map((subscription) => subscription.user_id))];
+      const { data: profilesData } = await supabase.from('profiles').select('id, email').in('id', userIds);
+      const profilesMap = new Map(profilesData?.map((profile) => [profile.id, profile]));
+      return data.map((subscription) => ({ ...subscription, profile: profilesMap.get(subscription.user_id) }));
+    },
+    enabled: isAdmin,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: SubscriptionAction }) => {
+      const { error } = await supabase.rpc('update_subscription', { _subscription_id: id, _action: action });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Subscription updated');
+      queryClient.invalidateQueries({ queryKey: ['admin-subscriptions'] });
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to update subscription'),
+  });
+
+  if (!isAdmin) {
+    navigate('/');
+    return null;
+  }
+
+  const handleAction = (id: string, action: SubscriptionAction) => {
+    if (action === 'cancel' && !confirm('Cancel this subscription for the customer?')) return;
+    updateMutation.mutate({ id, action });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <Button variant="ghost" onClick={() => navigate('/admin')} className="mb-6">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Dashboard
+        </Button>
+
+        <div className="flex items-center justify-between gap-4 flex-wrap mb-8">
+          <div>
+            <h1 className="text-3xl font-bold">Subscriptions</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Upcoming subscription orders. Due subscriptions are turned into pending orders every hour.
+            </p>
+          </div>
+          <Tabs value={status} onValueChange={(value) => setStatus(value as SubscriptionStatus)}>
+            <TabsList>
+              {(Object.keys(SUBSCRIPTION_STATUS_LABELS) as SubscriptionStatus[]).map((value) => (
+                <TabsTrigger key={value} value={value}>
+                  {SUBSCRIPTION_STATUS_LABELS[value]}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+
+        <div className="space-y-4">
+          {subscriptions?.map((subscription) => (
+            <Card key={subscription.id}>
+              <CardContent className="p-4 flex flex-col md:flex-row md:items-start justify-between gap-4">
+                <div className="space-y-1 text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-base">
+                      {subscription.status === 'active'
+                        ? `Next order ${formatRunDate(subscription.next_run_on)}`
+                        : describeFrequency(subscription.interval_unit, subscription.interval_count)}
+                    </span>
+                    <Badge className={SUBSCRIPTION_STATUS_COLORS[subscription.status as SubscriptionStatus]}>
+                      {SUBSCRIPTION_STATUS_LABELS[subscription.status as SubscriptionStatus] ?? subscription.status}
+                    </Badge>
+                  </div>
+                  <ul>
+                    {subscription.subscription_items.map((item) => (
+                      <li key={item.id}>{describeSubscriptionItem(item, item.products?.name ?? 'Product')}</li>
+                    ))}
+                  </ul>
+                  <p>
+                    <span className="text-muted-foreground">Customer:</span> {subscription.profile?.email || 'N/A'}
+                  </p>
+                  <p>
+                    <span className="text-muted-foreground">Schedule:</span>{' '}
+                    {describeFrequency(subscription.interval_unit, subscription.interval_count)} •{' '}
+                    {getPaymentProvider(subscription.payment_method).label}
+                  </p>
+                  {!subscription.address_id && <p className="text-destructive">No shipping address on file</p>}
+                  {subscription.last_order && (
+                    <p className="text-muted-foreground">
+                      Last order #{subscription.last_order.order_number} ({subscription.last_order.status},{' '}
+                      {subscription.last_order.payment_status})
+                      {subscription.last_run_at && ` • ${new Date(subscription.last_run_at).toLocaleString()}`}
+                    </p>
+                  )}
+                  {subscription.last_error && (
+                    <p className="text-destructive">Last run failed: {subscription.last_error}</p>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {getSubscriptionActions(subscription.status).map((action) => (
+                    <Button
+                      key={action}
+                      variant={action === 'cancel' ? 'destructive' : 'outline'}
+                      size="sm"
+                      onClick={() => handleAction(subscription.id, action)}
+                      disabled={updateMutation.isPending}
+                    >
+                      {SUBSCRIPTION_ACTION_LABELS[action]}
+                    </Button>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+          {subscriptions?.length === 0 && (
+            <p className="text-center text-muted-foreground py-12">No {status} subscriptions</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
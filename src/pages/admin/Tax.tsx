@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import Navbar from '@/components/Navbar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { ArrowLeft, Save } from 'lucide-react';
+
+type TaxFormState = {
+  prices_include_tax: boolean;
+  default_gst_rate: string;
+  seller_state: string;
+  seller_gstin: string;
+};
+
+export default function AdminTax() {
+  const { isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<TaxFormState>({
+    prices_include_tax: true,
+    default_gst_rate: '18',
+    seller_state: '',
+    seller_gstin: '',
+  });
+
+  const { data: settings } = useQuery({
+    queryKey: ['tax-settings'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('tax_settings').select('*').maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  useEffect(() => {
+    if (!settings) return;
+    setFormData({
+      prices_include_tax: settings.prices_include_tax,
+      default_gst_rate: settings.default_gst_rate.toString(),
+      seller_state: settings.seller_state,
+      seller_gstin: settings.seller_gstin || '',
+    });
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!formData.seller_state.trim()) throw new Error('Seller state is required');
+      const rate = parseFloat(formData.default_gst_rate);
+      if (isNaN(rate) || rate < 0 || rate > 100) throw new Error('GST rate must be between 0 and 100');
+
+      const { error } = await supabase.from('tax_settings').upsert({
+        id: true,
+        prices_include_tax: formData.prices_include_tax,
+        default_gst_rate: rate,
+        seller_state: formData.seller_state.trim(),
+        seller_gstin: formData.seller_gstin.trim().toUpperCase() || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success('Tax settings saved');
+      queryClient.invalidateQueries({ queryKey: ['tax-settings'] });
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to save tax settings'),
+  });
+
+  if (!isAdmin) {
+    navigate('/');
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8 max-w-2xl">
+        <Button variant="ghost" onClick={() => navigate('/admin')} className="mb-6">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Dashboard
+        </Button>
+
+        <h1 className="text-3xl font-bold mb-8">Tax Settings</h1>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>GST</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="prices_include_tax">Prices include GST</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  When off, GST is added on top of product prices at checkout.
+                </p>
+              </div>
+              <Switch
+                id="prices_include_tax"
+                checked={formData.prices_include_tax}
+                onCheckedChange={(checked) => setFormData({ ...formData, prices_include_tax: checked })}
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="default_gst_rate">Default GST Rate (%)</Label>
+              <Input
+                id="default_gst_rate"
+                type="number"
+                step="0.01"
+                value={formData.default_gst_rate}
+                onChange={(e) => setFormData({ ...formData, default_gst_rate: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Used when neither the product nor its category sets a rate.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="seller_state">Seller State</Label>
+              <Input
+                id="seller_state"
+                value={formData.seller_state}
+                onChange={(e) => setFormData({ ...formData, seller_state: e.target.value })}
+                placeholder="Tamil Nadu"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Orders shipped within this state are charged CGST + SGST; all others IGST.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="seller_gstin">GSTIN</Label>
+              <Input
+                id="seller_gstin"
+                value={formData.seller_gstin}
+                onChange={(e) => setFormData({ ...formData, seller_gstin: e.target.value })}
+                maxLength={15}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Printed on new invoices with the store name and address from Store Settings.
+              </p>
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                <Save className="mr-2 h-4 w-4" />
+                {saveMutation.isPending ? 'Saving...' : 'Save Settings'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type Address = Tables<'addresses'>;
+
+export type AddressFields = Pick<
+  Address,
+  'full_name' | 'phone' | 'line1' | 'line2' | 'city' | 'state' | 'pincode' | 'landmark'
+>;
+
+// Copy of the address stored on an order at the time it was placed.
+export interface AddressSnapshot extends AddressFields {
+  address_id: string | null;
+}
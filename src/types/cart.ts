@@ -0,0 +1,20 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type GuestCartItem = Pick<
+  Tables<'cart_items'>,
+  'product_id' | 'quantity_litres' | 'variant_selection' | 'measurement_label' | 'measurement_value'
+>;
+
+/** An order line Buy again could not copy as it was, and why */
+export type ReorderIssue = {
+  product_name: string;
+  message: string;
+};
+
+export type ReorderResult = {
+  added: number;
+  /** Lines left out of the cart */
+  skipped: ReorderIssue[];
+  /** Lines added with a lower quantity or a different price than last time */
+  changed: ReorderIssue[];
+};
@@ -0,0 +1,14 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type OrderStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'processing'
+  | 'partially_shipped'
+  | 'shipped'
+  | 'delivered'
+  | 'cancelled';
+
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'expired' | 'refunded';
+
+export type OrderStatusHistoryEntry = Tables<'order_status_history'>;
@@ -0,0 +1,41 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { PaymentMethod } from '@/types/payments';
+import type { TaxAmounts } from '@/types/tax';
+
+export type OrderItemInput = {
+  product_id: string;
+  quantity_litres: number;
+  variant_selection: Json | null;
+  measurement_label: string | null;
+  measurement_value: string | null;
+};
+
+export interface OrderQuoteLine extends OrderItemInput, Omit<TaxAmounts, 'tax_amount'> {
+  product_name: string;
+  price_per_litre: number;
+  total_price: number;
+  hsn_code: string | null;
+  gst_rate: number;
+}
+
+export interface OrderQuote extends TaxAmounts {
+  lines: OrderQuoteLine[];
+  subtotal: number;
+  discount_amount: number;
+  coupon_code: string | null;
+  coupon_id: string | null;
+  total_litres: number;
+  shipping_amount: number;
+  shipping_zone: string | null;
+  free_shipping_threshold: number | null;
+  prices_include_tax: boolean;
+  payment_method: PaymentMethod;
+  cod_available: boolean;
+  cod_unavailable_reason: string | null;
+  /** COD fee that would apply if Cash on Delivery were chosen */
+  cod_charge: number | null;
+  /** COD fee included in final_amount (0 unless paying by COD) */
+  cod_fee: number;
+  gateway_available: boolean;
+  final_amount: number;
+}
@@ -0,0 +1,65 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type PaymentMethod = 'upi' | 'cod' | 'gateway';
+
+export type PaymentOrder = Pick<
+  Tables<'orders'>,
+  | 'id'
+  | 'order_number'
+  | 'final_amount'
+  | 'discount_amount'
+  | 'payment_method'
+  | 'payment_status'
+  | 'payment_reference'
+  | 'status'
+>;
+
+/** What the Payment page needs to collect the money for an order */
+export type PaymentSession =
+  | { kind: 'upi_intent'; amount: number; vpa: string; payeeName: string; note: string; deepLink: string }
+  | { kind: 'cash_on_delivery'; amount: number }
+  | { kind: 'redirect'; amount: number; url: string };
+
+export type PaymentResult = {
+  status: 'paid' | 'pending' | 'failed';
+  orderId: string;
+  reference?: string | null;
+  message?: string;
+};
+
+export type RefundResult = {
+  /** 'manual' means the money has to be returned outside the app (UPI transfer, cash) */
+  status: 'refunded' | 'manual';
+  reference?: string;
+};
+
+export interface PaymentProvider {
+  method: PaymentMethod;
+  label: string;
+  createPayment(order: PaymentOrder): Promise<PaymentSession>;
+  verifyPayment(order: PaymentOrder): Promise<PaymentResult>;
+  handleCallback(params: URLSearchParams): Promise<PaymentResult>;
+  refund(order: PaymentOrder, amount: number): Promise<RefundResult>;
+}
+
+export type GatewayCheckout = {
+  reference: string;
+  redirectUrl: string;
+};
+
+export type GatewayCallback = {
+  orderId: string;
+  reference: string | null;
+  /** null when the gateway returned without a result, e.g. the customer's session timed out */
+  outcome: 'success' | 'failed' | null;
+  message?: string;
+};
+
+/** A card/netbanking gateway plugged into the gateway payment provider */
+export interface GatewayClient {
+  name: string;
+  createCheckout(order: PaymentOrder, returnUrl: string): Promise<GatewayCheckout>;
+  parseCallback(params: URLSearchParams): GatewayCallback;
+  confirmPayment(orderId: string, reference: string): Promise<void>;
+  refund(reference: string, amount: number): Promise<{ reference: string }>;
+}
@@ -0,0 +1,40 @@
+export type StatementRow = {
+  /** 1-based row number in the uploaded sheet, for pointing admins back at the file */
+  rowNumber: number;
+  date: string;
+  description: string;
+  reference: string;
+  credit: number;
+  /** 12-digit UPI references (RRN/UTR) found in the reference or narration */
+  utrs: string[];
+};
+
+export type PendingUpiOrder = {
+  id: string;
+  order_number: string;
+  final_amount: number;
+  created_at: string;
+};
+
+export type PendingSubmission = {
+  id: string;
+  order_id: string;
+  utr: string;
+  amount: number;
+};
+
+export type StatementMatch = {
+  row: StatementRow;
+  /** Orders the row could belong to; exactly one for confirmed matches */
+  orders: PendingUpiOrder[];
+  /** UTR to record the payment under */
+  utr: string | null;
+  /** How the row was matched, or why it could not be confirmed */
+  note: string;
+};
+
+export type ReconciliationResult = {
+  confirmed: StatementMatch[];
+  ambiguous: StatementMatch[];
+  unmatched: StatementMatch[];
+};
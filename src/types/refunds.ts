@@ -0,0 +1,19 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { TaxAmounts } from '@/types/tax';
+
+export type RefundMethod = 'gateway' | 'upi' | 'bank_transfer' | 'cash';
+
+export type RefundWithItems = Tables<'refunds'> & { refund_items: Tables<'refund_items'>[] };
+
+/** Litres of one order line to refund, as sent to record_refund */
+export type RefundItemInput = {
+  order_item_id: string;
+  quantity_litres: number;
+};
+
+export interface RefundLine extends Omit<TaxAmounts, 'tax_amount'> {
+  order_item_id: string;
+  product_name: string;
+  quantity_litres: number;
+  amount: number;
+}
@@ -0,0 +1,11 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ReturnStatus = 'requested' | 'approved' | 'rejected' | 'received' | 'refunded' | 'closed';
+
+export type ReturnWithItems = Tables<'return_requests'> & { return_request_items: Tables<'return_request_items'>[] };
+
+/** Litres of one order line to send back, as sent to request_return */
+export type ReturnItemInput = {
+  order_item_id: string;
+  quantity_litres: number;
+};
@@ -0,0 +1,11 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ShipmentStatus = 'pending' | 'shipped' | 'delivered' | 'cancelled';
+
+export type Carrier = {
+  name: string;
+  /** Tracking page for a consignment; carriers without one are tracked by phone */
+  trackingUrl?: (trackingNumber: string) => string;
+};
+
+export type ShipmentWithItems = Tables<'shipments'> & { shipment_items: Tables<'shipment_items'>[] };
@@ -0,0 +1,4 @@
+export type PincodeRange = {
+  from: string;
+  to: string;
+};
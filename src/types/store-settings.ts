@@ -0,0 +1,12 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+// GSTIN is edited on the Tax page, where invoices also read it from
+export type StoreSettings = Tables<'store_settings'> & {
+  gstin: string | null;
+};
+
+export type PolicySection = {
+  heading: string;
+  paragraphs: string[];
+  items: string[];
+};
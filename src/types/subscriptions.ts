@@ -0,0 +1,12 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type SubscriptionStatus = 'active' | 'paused' | 'cancelled';
+
+export type IntervalUnit = 'week' | 'month';
+
+/** Changes a customer (or an admin on their behalf) can make, as sent to update_subscription */
+export type SubscriptionAction = 'skip' | 'pause' | 'resume' | 'cancel';
+
+export type SubscriptionWithItems = Tables<'subscriptions'> & {
+  subscription_items: (Tables<'subscription_items'> & { products: Pick<Tables<'products'>, 'name'> | null })[];
+};
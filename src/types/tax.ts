@@ -0,0 +1,12 @@
+export type TaxAmounts = {
+  taxable_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  tax_amount: number;
+};
+
+export type TaxLine = {
+  label: string;
+  amount: number;
+};
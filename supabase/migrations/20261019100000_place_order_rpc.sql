@@ -0,0 +1,212 @@
+-- Server-side order pricing and placement.
+-- Prices, coupon discounts and totals are recomputed from the products and
+-- coupons tables so a tampered client can no longer set its own amounts.
+
+CREATE OR REPLACE FUNCTION public.quote_order(_items jsonb, _coupon_code text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item jsonb;
+  _product public.products%ROWTYPE;
+  _coupon public.coupons%ROWTYPE;
+  _quantity numeric;
+  _unit_price numeric;
+  _variant_label text;
+  _lines jsonb := '[]'::jsonb;
+  _subtotal numeric := 0;
+  _discount numeric := 0;
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_items) LOOP
+    _quantity := (_item->>'quantity_litres')::numeric;
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity';
+    END IF;
+
+    SELECT * INTO _product
+    FROM public.products
+    WHERE id = (_item->>'product_id')::uuid AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'A product in your cart is no longer available';
+    END IF;
+
+    _variant_label := _item->'variant_selection'->>'label';
+    IF _product.variant_enabled AND jsonb_array_length(COALESCE(_product.variant_values, '[]'::jsonb)) > 0 THEN
+      IF _variant_label IS NULL OR NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(_product.variant_values) AS v(value)
+        WHERE COALESCE(v.value->>'label', v.value#>>'{}') = _variant_label
+      ) THEN
+        RAISE EXCEPTION 'Please select a valid % for %', COALESCE(_product.variant_title, 'variant'), _product.name;
+      END IF;
+    END IF;
+
+    IF _product.measurement_enabled AND COALESCE(array_length(_product.measurement_values, 1), 0) > 0 THEN
+      IF NOT COALESCE(_item->>'measurement_value' = ANY (_product.measurement_values), false) THEN
+        RAISE EXCEPTION 'Please select a valid % for %', COALESCE(_product.measurement_title, 'measurement'), _product.name;
+      END IF;
+    END IF;
+
+    _unit_price := COALESCE(NULLIF(_product.offer_price_per_litre, 0), _product.price_per_litre);
+    _subtotal := _subtotal + _unit_price * _quantity;
+
+    _lines := _lines || jsonb_build_array(jsonb_build_object(
+      'product_id', _product.id,
+      'product_name', _product.name,
+      'quantity_litres', _quantity,
+      'price_per_litre', _unit_price,
+      'total_price', round(_unit_price * _quantity, 2),
+      'variant_selection', NULLIF(_item->'variant_selection', 'null'::jsonb),
+      'measurement_label', COALESCE(_item->>'measurement_label', _product.measurement_title),
+      'measurement_value', _item->>'measurement_value'
+    ));
+  END LOOP;
+
+  IF NULLIF(trim(_coupon_code), '') IS NOT NULL THEN
+    SELECT * INTO _coupon
+    FROM public.coupons
+    WHERE code = upper(trim(_coupon_code)) AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invalid coupon code';
+    END IF;
+
+    IF _coupon.valid_from > now() THEN
+      RAISE EXCEPTION 'Coupon is not active yet';
+    END IF;
+
+    IF _coupon.valid_until IS NOT NULL AND _coupon.valid_until < now() THEN
+      RAISE EXCEPTION 'Coupon has expired';
+    END IF;
+
+    IF _coupon.min_order_amount IS NOT NULL AND _subtotal < _coupon.min_order_amount THEN
+      RAISE EXCEPTION 'Minimum order amount is ₹%', _coupon.min_order_amount;
+    END IF;
+
+    IF _coupon.discount_type = 'percentage' THEN
+      _discount := _subtotal * _coupon.discount_value / 100;
+      IF _coupon.max_discount_amount IS NOT NULL THEN
+        _discount := LEAST(_discount, _coupon.max_discount_amount);
+      END IF;
+    ELSE
+      _discount := _coupon.discount_value;
+    END IF;
+
+    _discount := LEAST(_discount, _subtotal);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'lines', _lines,
+    'subtotal', round(_subtotal, 2),
+    'discount_amount', round(_discount, 2),
+    'coupon_code', _coupon.code,
+    'final_amount', round(_subtotal, 2) - round(_discount, 2)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _shipping_address text,
+  _coupon_code text DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _quote jsonb;
+  _order public.orders%ROWTYPE;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Please login';
+  END IF;
+
+  IF length(trim(COALESCE(_shipping_address, ''))) < 10 THEN
+    RAISE EXCEPTION 'Address must be at least 10 characters';
+  END IF;
+
+  _quote := public.quote_order(_items, _coupon_code);
+
+  INSERT INTO public.orders (
+    user_id,
+    order_number,
+    total_amount,
+    discount_amount,
+    final_amount,
+    coupon_code,
+    shipping_address,
+    status,
+    payment_status
+  )
+  VALUES (
+    _user_id,
+    'ORD-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint || '-' || floor(random() * 1000)::int,
+    (_quote->>'subtotal')::numeric,
+    (_quote->>'discount_amount')::numeric,
+    (_quote->>'final_amount')::numeric,
+    _quote->>'coupon_code',
+    trim(_shipping_address),
+    'pending',
+    'pending'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (
+    order_id,
+    product_id,
+    product_name,
+    quantity_litres,
+    price_per_litre,
+    total_price,
+    variant_selection,
+    measurement_label,
+    measurement_value
+  )
+  SELECT
+    _order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'quantity_litres')::numeric,
+    (line->>'price_per_litre')::numeric,
+    (line->>'total_price')::numeric,
+    line->'variant_selection',
+    line->>'measurement_label',
+    line->>'measurement_value'
+  FROM jsonb_array_elements(_quote->'lines') AS lines(line);
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(jsonb, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.quote_order(jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.place_order(jsonb, text, text) TO authenticated;
+
+-- Orders and their items may now only be created through place_order.
+DO $$
+DECLARE
+  _policy record;
+BEGIN
+  FOR _policy IN
+    SELECT policyname, tablename
+    FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN ('orders', 'order_items')
+      AND cmd = 'INSERT'
+      AND COALESCE(with_check, '') NOT ILIKE '%has_role%'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', _policy.policyname, _policy.tablename);
+  END LOOP;
+END;
+$$;
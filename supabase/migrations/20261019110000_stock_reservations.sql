@@ -0,0 +1,173 @@
+-- Stock reservation lifecycle.
+-- place_order reserves stock, cancelling (or a failed/expired payment) releases
+-- it, and marking the order paid deducts it from stock_quantity.
+
+ALTER TABLE public.products
+  ADD COLUMN reserved_quantity numeric NOT NULL DEFAULT 0,
+  ADD CONSTRAINT products_reserved_quantity_check CHECK (reserved_quantity >= 0);
+
+ALTER TABLE public.orders
+  ADD COLUMN stock_status text NOT NULL DEFAULT 'none',
+  ADD CONSTRAINT orders_stock_status_check CHECK (stock_status IN ('none', 'reserved', 'released', 'deducted'));
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _shipping_address text,
+  _coupon_code text DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _quote jsonb;
+  _order public.orders%ROWTYPE;
+  _demand record;
+  _available numeric;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Please login';
+  END IF;
+
+  IF length(trim(COALESCE(_shipping_address, ''))) < 10 THEN
+    RAISE EXCEPTION 'Address must be at least 10 characters';
+  END IF;
+
+  _quote := public.quote_order(_items, _coupon_code);
+
+  -- Lock every product in the cart (in a stable order to avoid deadlocks) and reserve stock
+  FOR _demand IN
+    SELECT (line->>'product_id')::uuid AS product_id,
+           max(line->>'product_name') AS product_name,
+           sum((line->>'quantity_litres')::numeric) AS quantity
+    FROM jsonb_array_elements(_quote->'lines') AS lines(line)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT stock_quantity - reserved_quantity INTO _available
+    FROM public.products
+    WHERE id = _demand.product_id
+    FOR UPDATE;
+
+    IF _available < _demand.quantity THEN
+      RAISE EXCEPTION 'Only % litres of % available', GREATEST(_available, 0), _demand.product_name;
+    END IF;
+
+    UPDATE public.products
+    SET reserved_quantity = reserved_quantity + _demand.quantity
+    WHERE id = _demand.product_id;
+  END LOOP;
+
+  INSERT INTO public.orders (
+    user_id,
+    order_number,
+    total_amount,
+    discount_amount,
+    final_amount,
+    coupon_code,
+    shipping_address,
+    status,
+    payment_status,
+    stock_status
+  )
+  VALUES (
+    _user_id,
+    'ORD-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint || '-' || floor(random() * 1000)::int,
+    (_quote->>'subtotal')::numeric,
+    (_quote->>'discount_amount')::numeric,
+    (_quote->>'final_amount')::numeric,
+    _quote->>'coupon_code',
+    trim(_shipping_address),
+    'pending',
+    'pending',
+    'reserved'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (
+    order_id,
+    product_id,
+    product_name,
+    quantity_litres,
+    price_per_litre,
+    total_price,
+    variant_selection,
+    measurement_label,
+    measurement_value
+  )
+  SELECT
+    _order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'quantity_litres')::numeric,
+    (line->>'price_per_litre')::numeric,
+    (line->>'total_price')::numeric,
+    line->'variant_selection',
+    line->>'measurement_label',
+    line->>'measurement_value'
+  FROM jsonb_array_elements(_quote->'lines') AS lines(line);
+
+  RETURN _order;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_order_stock_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' OR NEW.payment_status IN ('failed', 'expired') THEN
+    IF OLD.stock_status = 'reserved' THEN
+      UPDATE public.products p
+      SET reserved_quantity = GREATEST(p.reserved_quantity - i.quantity, 0)
+      FROM (
+        SELECT product_id, sum(quantity_litres) AS quantity
+        FROM public.order_items
+        WHERE order_id = NEW.id
+        GROUP BY product_id
+      ) i
+      WHERE p.id = i.product_id;
+
+      NEW.stock_status := 'released';
+    ELSIF OLD.stock_status = 'deducted' AND NEW.status = 'cancelled' THEN
+      -- Paid but never dispatched: the goods go back on the shelf
+      UPDATE public.products p
+      SET stock_quantity = p.stock_quantity + i.quantity
+      FROM (
+        SELECT product_id, sum(quantity_litres) AS quantity
+        FROM public.order_items
+        WHERE order_id = NEW.id
+        GROUP BY product_id
+      ) i
+      WHERE p.id = i.product_id;
+
+      NEW.stock_status := 'released';
+    END IF;
+  ELSIF NEW.payment_status = 'paid' AND OLD.stock_status = 'reserved' THEN
+    UPDATE public.products p
+    SET stock_quantity = p.stock_quantity - i.quantity,
+        reserved_quantity = GREATEST(p.reserved_quantity - i.quantity, 0)
+    FROM (
+      SELECT product_id, sum(quantity_litres) AS quantity
+      FROM public.order_items
+      WHERE order_id = NEW.id
+      GROUP BY product_id
+    ) i
+    WHERE p.id = i.product_id;
+
+    NEW.stock_status := 'deducted';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_stock_transition
+BEFORE UPDATE OF status, payment_status ON public.orders
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status OR OLD.payment_status IS DISTINCT FROM NEW.payment_status)
+EXECUTE FUNCTION public.apply_order_stock_transition();
@@ -0,0 +1,230 @@
+-- Per-user address book with a structured shipping snapshot on each order.
+
+CREATE TABLE public.addresses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  full_name text NOT NULL,
+  phone text NOT NULL,
+  line1 text NOT NULL,
+  line2 text,
+  city text NOT NULL,
+  state text NOT NULL,
+  pincode text NOT NULL CHECK (pincode ~ '^[1-9][0-9]{5}$'),
+  landmark text,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX addresses_user_id_idx ON public.addresses (user_id);
+CREATE UNIQUE INDEX addresses_one_default_per_user ON public.addresses (user_id) WHERE is_default;
+
+ALTER TABLE public.addresses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own addresses"
+ON public.addresses FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own addresses"
+ON public.addresses FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own addresses"
+ON public.addresses FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own addresses"
+ON public.addresses FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all addresses"
+ON public.addresses FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.update_updated_at_column()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_addresses_updated_at
+BEFORE UPDATE ON public.addresses
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep a single default per user: the first address becomes the default and
+-- marking another one as default clears the previous flag.
+CREATE OR REPLACE FUNCTION public.maintain_default_address()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NOT EXISTS (SELECT 1 FROM public.addresses WHERE user_id = NEW.user_id) THEN
+    NEW.is_default := true;
+  END IF;
+
+  IF NEW.is_default THEN
+    UPDATE public.addresses
+    SET is_default = false
+    WHERE user_id = NEW.user_id AND id <> NEW.id AND is_default;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER maintain_default_address
+BEFORE INSERT OR UPDATE OF is_default ON public.addresses
+FOR EACH ROW
+EXECUTE FUNCTION public.maintain_default_address();
+
+ALTER TABLE public.orders
+  ADD COLUMN shipping_address_snapshot jsonb;
+
+CREATE OR REPLACE FUNCTION public.format_address(_address jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT concat_ws(
+    ', ',
+    _address->>'full_name',
+    _address->>'line1',
+    NULLIF(_address->>'line2', ''),
+    'Landmark: ' || NULLIF(_address->>'landmark', ''),
+    (_address->>'city') || ', ' || (_address->>'state') || ' - ' || (_address->>'pincode'),
+    'Phone: ' || (_address->>'phone')
+  );
+$$;
+
+DROP FUNCTION public.place_order(jsonb, text, text);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid,
+  _coupon_code text DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _quote jsonb;
+  _address jsonb;
+  _order public.orders%ROWTYPE;
+  _demand record;
+  _available numeric;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Please login';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'address_id', a.id,
+    'full_name', a.full_name,
+    'phone', a.phone,
+    'line1', a.line1,
+    'line2', a.line2,
+    'city', a.city,
+    'state', a.state,
+    'pincode', a.pincode,
+    'landmark', a.landmark
+  )
+  INTO _address
+  FROM public.addresses a
+  WHERE a.id = _address_id AND a.user_id = _user_id;
+
+  IF _address IS NULL THEN
+    RAISE EXCEPTION 'Please select a shipping address';
+  END IF;
+
+  _quote := public.quote_order(_items, _coupon_code);
+
+  -- Lock every product in the cart (in a stable order to avoid deadlocks) and reserve stock
+  FOR _demand IN
+    SELECT (line->>'product_id')::uuid AS product_id,
+           max(line->>'product_name') AS product_name,
+           sum((line->>'quantity_litres')::numeric) AS quantity
+    FROM jsonb_array_elements(_quote->'lines') AS lines(line)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT stock_quantity - reserved_quantity INTO _available
+    FROM public.products
+    WHERE id = _demand.product_id
+    FOR UPDATE;
+
+    IF _available < _demand.quantity THEN
+      RAISE EXCEPTION 'Only % litres of % available', GREATEST(_available, 0), _demand.product_name;
+    END IF;
+
+    UPDATE public.products
+    SET reserved_quantity = reserved_quantity + _demand.quantity
+    WHERE id = _demand.product_id;
+  END LOOP;
+
+  INSERT INTO public.orders (
+    user_id,
+    order_number,
+    total_amount,
+    discount_amount,
+    final_amount,
+    coupon_code,
+    shipping_address,
+    shipping_address_snapshot,
+    status,
+    payment_status,
+    stock_status
+  )
+  VALUES (
+    _user_id,
+    'ORD-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint || '-' || floor(random() * 1000)::int,
+    (_quote->>'subtotal')::numeric,
+    (_quote->>'discount_amount')::numeric,
+    (_quote->>'final_amount')::numeric,
+    _quote->>'coupon_code',
+    public.format_address(_address),
+    _address,
+    'pending',
+    'pending',
+    'reserved'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (
+    order_id,
+    product_id,
+    product_name,
+    quantity_litres,
+    price_per_litre,
+    total_price,
+    variant_selection,
+    measurement_label,
+    measurement_value
+  )
+  SELECT
+    _order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'quantity_litres')::numeric,
+    (line->>'price_per_litre')::numeric,
+    (line->>'total_price')::numeric,
+    line->'variant_selection',
+    line->>'measurement_label',
+    line->>'measurement_value'
+  FROM jsonb_array_elements(_quote->'lines') AS lines(line);
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(jsonb, uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(jsonb, uuid, text) TO authenticated;
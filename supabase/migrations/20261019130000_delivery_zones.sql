@@ -0,0 +1,390 @@
+-- Shipping charges driven by admin-configured delivery zones.
+-- A zone matches by pincode range or state (higher priority wins, then pincode
+-- matches over state matches); each zone carries a rate table keyed on the total litres in the order and an optional
+-- free-shipping threshold on the discounted subtotal.
+
+CREATE TABLE public.delivery_zones (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  states text[] NOT NULL DEFAULT '{}',
+  pincode_ranges jsonb NOT NULL DEFAULT '[]'::jsonb,
+  free_shipping_threshold numeric,
+  priority integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.delivery_zone_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  zone_id uuid NOT NULL REFERENCES public.delivery_zones(id) ON DELETE CASCADE,
+  min_litres numeric NOT NULL DEFAULT 0,
+  max_litres numeric,
+  charge numeric NOT NULL CHECK (charge >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (max_litres IS NULL OR max_litres >= min_litres)
+);
+
+CREATE INDEX delivery_zone_rates_zone_id_idx ON public.delivery_zone_rates (zone_id);
+
+ALTER TABLE public.delivery_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.delivery_zone_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view delivery zones"
+ON public.delivery_zones FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage delivery zones"
+ON public.delivery_zones FOR ALL
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone can view delivery zone rates"
+ON public.delivery_zone_rates FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage delivery zone rates"
+ON public.delivery_zone_rates FOR ALL
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_delivery_zones_updated_at
+BEFORE UPDATE ON public.delivery_zones
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Matches the charges previously advertised on the Policy page
+WITH zone AS (
+  INSERT INTO public.delivery_zones (name, pincode_ranges, free_shipping_threshold)
+  VALUES ('All India', '[{"from": "100000", "to": "999999"}]'::jsonb, 500)
+  RETURNING id
+)
+INSERT INTO public.delivery_zone_rates (zone_id, min_litres, max_litres, charge)
+SELECT id, 0, NULL, 50 FROM zone;
+
+ALTER TABLE public.orders
+  ADD COLUMN shipping_amount numeric NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.calculate_shipping(
+  _pincode text,
+  _state text,
+  _litres numeric,
+  _subtotal numeric
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _zone public.delivery_zones%ROWTYPE;
+  _charge numeric;
+BEGIN
+  SELECT z.* INTO _zone
+  FROM public.delivery_zones z
+  CROSS JOIN LATERAL (
+    SELECT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(z.pincode_ranges) AS ranges(pincode_range)
+      WHERE _pincode BETWEEN pincode_range->>'from' AND pincode_range->>'to'
+    ) AS pincode_match
+  ) m
+  WHERE z.is_active
+    AND (m.pincode_match OR lower(trim(_state)) IN (SELECT lower(trim(s)) FROM unnest(z.states) AS s))
+  ORDER BY z.priority DESC, m.pincode_match DESC, z.created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sorry, we do not deliver to pincode % yet', _pincode;
+  END IF;
+
+  IF _zone.free_shipping_threshold IS NOT NULL AND _subtotal >= _zone.free_shipping_threshold THEN
+    _charge := 0;
+  ELSE
+    SELECT r.charge INTO _charge
+    FROM public.delivery_zone_rates r
+    WHERE r.zone_id = _zone.id
+      AND _litres >= r.min_litres
+      AND (r.max_litres IS NULL OR _litres <= r.max_litres)
+    ORDER BY r.min_litres DESC
+    LIMIT 1;
+
+    IF _charge IS NULL THEN
+      RAISE EXCEPTION 'Shipping is not available for % litres to %', _litres, _zone.name;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'zone_id', _zone.id,
+    'zone_name', _zone.name,
+    'free_shipping_threshold', _zone.free_shipping_threshold,
+    'shipping_amount', round(_charge, 2)
+  );
+END;
+$$;
+
+DROP FUNCTION public.quote_order(jsonb, text);
+
+CREATE OR REPLACE FUNCTION public.quote_order(
+  _items jsonb,
+  _coupon_code text DEFAULT NULL,
+  _address_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item jsonb;
+  _product public.products%ROWTYPE;
+  _coupon public.coupons%ROWTYPE;
+  _address public.addresses%ROWTYPE;
+  _quantity numeric;
+  _unit_price numeric;
+  _variant_label text;
+  _lines jsonb := '[]'::jsonb;
+  _subtotal numeric := 0;
+  _litres numeric := 0;
+  _discount numeric := 0;
+  _shipping jsonb;
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_items) LOOP
+    _quantity := (_item->>'quantity_litres')::numeric;
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity';
+    END IF;
+
+    SELECT * INTO _product
+    FROM public.products
+    WHERE id = (_item->>'product_id')::uuid AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'A product in your cart is no longer available';
+    END IF;
+
+    _variant_label := _item->'variant_selection'->>'label';
+    IF _product.variant_enabled AND jsonb_array_length(COALESCE(_product.variant_values, '[]'::jsonb)) > 0 THEN
+      IF _variant_label IS NULL OR NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(_product.variant_values) AS v(value)
+        WHERE COALESCE(v.value->>'label', v.value#>>'{}') = _variant_label
+      ) THEN
+        RAISE EXCEPTION 'Please select a valid % for %', COALESCE(_product.variant_title, 'variant'), _product.name;
+      END IF;
+    END IF;
+
+    IF _product.measurement_enabled AND COALESCE(array_length(_product.measurement_values, 1), 0) > 0 THEN
+      IF NOT COALESCE(_item->>'measurement_value' = ANY (_product.measurement_values), false) THEN
+        RAISE EXCEPTION 'Please select a valid % for %', COALESCE(_product.measurement_title, 'measurement'), _product.name;
+      END IF;
+    END IF;
+
+    _unit_price := COALESCE(NULLIF(_product.offer_price_per_litre, 0), _product.price_per_litre);
+    _subtotal := _subtotal + _unit_price * _quantity;
+    _litres := _litres + _quantity;
+
+    _lines := _lines || jsonb_build_array(jsonb_build_object(
+      'product_id', _product.id,
+      'product_name', _product.name,
+      'quantity_litres', _quantity,
+      'price_per_litre', _unit_price,
+      'total_price', round(_unit_price * _quantity, 2),
+      'variant_selection', NULLIF(_item->'variant_selection', 'null'::jsonb),
+      'measurement_label', COALESCE(_item->>'measurement_label', _product.measurement_title),
+      'measurement_value', _item->>'measurement_value'
+    ));
+  END LOOP;
+
+  IF NULLIF(trim(_coupon_code), '') IS NOT NULL THEN
+    SELECT * INTO _coupon
+    FROM public.coupons
+    WHERE code = upper(trim(_coupon_code)) AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invalid coupon code';
+    END IF;
+
+    IF _coupon.valid_from > now() THEN
+      RAISE EXCEPTION 'Coupon is not active yet';
+    END IF;
+
+    IF _coupon.valid_until IS NOT NULL AND _coupon.valid_until < now() THEN
+      RAISE EXCEPTION 'Coupon has expired';
+    END IF;
+
+    IF _coupon.min_order_amount IS NOT NULL AND _subtotal < _coupon.min_order_amount THEN
+      RAISE EXCEPTION 'Minimum order amount is ₹%', _coupon.min_order_amount;
+    END IF;
+
+    IF _coupon.discount_type = 'percentage' THEN
+      _discount := _subtotal * _coupon.discount_value / 100;
+      IF _coupon.max_discount_amount IS NOT NULL THEN
+        _discount := LEAST(_discount, _coupon.max_discount_amount);
+      END IF;
+    ELSE
+      _discount := _coupon.discount_value;
+    END IF;
+
+    _discount := LEAST(_discount, _subtotal);
+  END IF;
+
+  _subtotal := round(_subtotal, 2);
+  _discount := round(_discount, 2);
+
+  IF _address_id IS NOT NULL THEN
+    SELECT * INTO _address
+    FROM public.addresses
+    WHERE id = _address_id AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please select a shipping address';
+    END IF;
+
+    _shipping := public.calculate_shipping(_address.pincode, _address.state, _litres, _subtotal - _discount);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'lines', _lines,
+    'subtotal', _subtotal,
+    'discount_amount', _discount,
+    'coupon_code', _coupon.code,
+    'total_litres', _litres,
+    'shipping_amount', COALESCE((_shipping->>'shipping_amount')::numeric, 0),
+    'shipping_zone', _shipping->>'zone_name',
+    'free_shipping_threshold', (_shipping->>'free_shipping_threshold')::numeric,
+    'final_amount', _subtotal - _discount + COALESCE((_shipping->>'shipping_amount')::numeric, 0)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_order(jsonb, text, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid,
+  _coupon_code text DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _quote jsonb;
+  _address jsonb;
+  _order public.orders%ROWTYPE;
+  _demand record;
+  _available numeric;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Please login';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'address_id', a.id,
+    'full_name', a.full_name,
+    'phone', a.phone,
+    'line1', a.line1,
+    'line2', a.line2,
+    'city', a.city,
+    'state', a.state,
+    'pincode', a.pincode,
+    'landmark', a.landmark
+  )
+  INTO _address
+  FROM public.addresses a
+  WHERE a.id = _address_id AND a.user_id = _user_id;
+
+  IF _address IS NULL THEN
+    RAISE EXCEPTION 'Please select a shipping address';
+  END IF;
+
+  _quote := public.quote_order(_items, _coupon_code, _address_id);
+
+  -- Lock every product in the cart (in a stable order to avoid deadlocks) and reserve stock
+  FOR _demand IN
+    SELECT (line->>'product_id')::uuid AS product_id,
+           max(line->>'product_name') AS product_name,
+           sum((line->>'quantity_litres')::numeric) AS quantity
+    FROM jsonb_array_elements(_quote->'lines') AS lines(line)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT stock_quantity - reserved_quantity INTO _available
+    FROM public.products
+    WHERE id = _demand.product_id
+    FOR UPDATE;
+
+    IF _available < _demand.quantity THEN
+      RAISE EXCEPTION 'Only % litres of % available', GREATEST(_available, 0), _demand.product_name;
+    END IF;
+
+    UPDATE public.products
+    SET reserved_quantity = reserved_quantity + _demand.quantity
+    WHERE id = _demand.product_id;
+  END LOOP;
+
+  INSERT INTO public.orders (
+    user_id,
+    order_number,
+    total_amount,
+    discount_amount,
+    shipping_amount,
+    final_amount,
+    coupon_code,
+    shipping_address,
+    shipping_address_snapshot,
+    status,
+    payment_status,
+    stock_status
+  )
+  VALUES (
+    _user_id,
+    'ORD-' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint || '-' || floor(random() * 1000)::int,
+    (_quote->>'subtotal')::numeric,
+    (_quote->>'discount_amount')::numeric,
+    (_quote->>'shipping_amount')::numeric,
+    (_quote->>'final_amount')::numeric,
+    _quote->>'coupon_code',
+    public.format_address(_address),
+    _address,
+    'pending',
+    'pending',
+    'reserved'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (
+    order_id,
+    product_id,
+    product_name,
+    quantity_litres,
+    price_per_litre,
+    total_price,
+    variant_selection,
+    measurement_label,
+    measurement_value
+  )
+  SELECT
+    _order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'quantity_litres')::numeric,
+    (line->>'price_per_litre')::numeric,
+    (line->>'total_price')::numeric,
+    line->'variant_selection',
+    line->>'measurement_label',
+    line->>'measurement_value'
+  FROM jsonb_array_elements(_quote->'lines') AS lines(line);
+
+  RETURN _order;
+END;
+$$;
@@ -0,0 +1,169 @@
+-- Tax invoices.
+-- Invoice numbers run consecutively within each Indian financial year
+-- (April-March), e.g. INV/2026-27/00001, and are issued once per order. The
+-- PDF itself is rendered in the browser from the order and this row, which
+-- keeps the seller details as they were when the invoice was issued.
+
+ALTER TABLE public.tax_settings
+  ADD COLUMN seller_name text NOT NULL DEFAULT 'Sri Aarumugan Oil Mills',
+  ADD COLUMN seller_address text NOT NULL DEFAULT '158Z-2/4, Vijayapuri Road, East Pandavarmangalam, Kovilpatti, Thoothukudi - 628501, Tamil Nadu, India';
+
+CREATE TABLE public.invoice_series (
+  financial_year text PRIMARY KEY,
+  last_number integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.invoice_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view invoice series"
+ON public.invoice_series FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE TABLE public.invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE RESTRICT,
+  invoice_number text NOT NULL UNIQUE,
+  financial_year text NOT NULL,
+  sequence_number integer NOT NULL,
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  seller_name text NOT NULL,
+  seller_address text NOT NULL,
+  seller_gstin text,
+  seller_state text NOT NULL,
+  regenerated_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (financial_year, sequence_number)
+);
+
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own invoices"
+ON public.invoices FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = invoices.order_id AND o.user_id = auth.uid()
+));
+
+CREATE POLICY "Admins can view all invoices"
+ON public.invoices FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+-- The seller details printed on invoices and credit notes
+CREATE OR REPLACE FUNCTION public.seller_details()
+RETURNS TABLE (seller_name text, seller_address text, seller_gstin text, seller_state text)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT seller_name, seller_address, seller_gstin, seller_state FROM public.tax_settings LIMIT 1;
+$$;
+
+-- Whether an order has been paid for, so it can carry an invoice number
+CREATE OR REPLACE FUNCTION public.order_is_invoiceable(_order public.orders)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT _order.status <> 'cancelled' AND _order.payment_status IN ('paid', 'refunded');
+$$;
+
+-- Returns the order's invoice, issuing the next number in the series on first
+-- use. Customers can only get invoices for their own paid orders and admins
+-- for any invoiceable order; admins can also refresh the seller details on an
+-- existing invoice (the number is kept).
+CREATE OR REPLACE FUNCTION public.issue_invoice(_order_id uuid, _regenerate boolean DEFAULT false)
+RETURNS public.invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _is_admin boolean := has_role(auth.uid(), 'admin');
+  _order public.orders%ROWTYPE;
+  _seller record;
+  _invoice public.invoices%ROWTYPE;
+  _issued_on date := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+  _financial_year text;
+  _sequence integer;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND OR (_order.user_id IS DISTINCT FROM auth.uid() AND NOT _is_admin) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cancelled orders cannot be invoiced';
+  END IF;
+
+  IF NOT _is_admin AND _order.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'The invoice will be available once payment is confirmed';
+  END IF;
+
+  IF _is_admin AND NOT public.order_is_invoiceable(_order) THEN
+    RAISE EXCEPTION 'Order % cannot be invoiced until it is paid', _order.order_number;
+  END IF;
+
+  SELECT * INTO _seller FROM public.seller_details();
+
+  SELECT * INTO _invoice FROM public.invoices WHERE order_id = _order_id;
+
+  IF FOUND THEN
+    IF _regenerate THEN
+      IF NOT _is_admin THEN
+        RAISE EXCEPTION 'Only admins can regenerate invoices';
+      END IF;
+
+      UPDATE public.invoices
+      SET seller_name = _seller.seller_name,
+          seller_address = _seller.seller_address,
+          seller_gstin = _seller.seller_gstin,
+          seller_state = _seller.seller_state,
+          regenerated_at = now()
+      WHERE id = _invoice.id
+      RETURNING * INTO _invoice;
+    END IF;
+
+    RETURN _invoice;
+  END IF;
+
+  _financial_year := CASE
+    WHEN extract(month FROM _issued_on) >= 4
+      THEN extract(year FROM _issued_on)::int || '-' || lpad(((extract(year FROM _issued_on)::int + 1) % 100)::text, 2, '0')
+    ELSE (extract(year FROM _issued_on)::int - 1) || '-' || lpad((extract(year FROM _issued_on)::int % 100)::text, 2, '0')
+  END;
+
+  INSERT INTO public.invoice_series (financial_year, last_number)
+  VALUES (_financial_year, 1)
+  ON CONFLICT (financial_year) DO UPDATE SET last_number = invoice_series.last_number + 1
+  RETURNING last_number INTO _sequence;
+
+  INSERT INTO public.invoices (
+    order_id,
+    invoice_number,
+    financial_year,
+    sequence_number,
+    seller_name,
+    seller_address,
+    seller_gstin,
+    seller_state
+  )
+  VALUES (
+    _order_id,
+    'INV/' || _financial_year || '/' || lpad(_sequence::text, 5, '0'),
+    _financial_year,
+    _sequence,
+    _seller.seller_name,
+    _seller.seller_address,
+    _seller.seller_gstin,
+    _seller.seller_state
+  )
+  RETURNING * INTO _invoice;
+
+  RETURN _invoice;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_invoice(uuid, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.issue_invoice(uuid, boolean) TO authenticated;
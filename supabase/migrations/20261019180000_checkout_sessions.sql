@@ -0,0 +1,226 @@
+-- Idempotent checkout.
+-- The checkout page sends an idempotency key that stays the same while the
+-- cart, address and coupon are unchanged. place_order records each key in
+-- checkout_sessions and, when the same key is submitted again (double clicks,
+-- retries, coming back from the payment page), returns the pending order it
+-- already created instead of placing a duplicate. Order numbers now come from
+-- generate_order_number().
+
+CREATE TABLE public.checkout_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  idempotency_key text NOT NULL,
+  request_hash text NOT NULL,
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz,
+  UNIQUE (user_id, idempotency_key)
+);
+
+ALTER TABLE public.checkout_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own checkout sessions"
+ON public.checkout_sessions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all checkout sessions"
+ON public.checkout_sessions FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+DROP FUNCTION public.place_order(jsonb, uuid, text);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid,
+  _coupon_code text DEFAULT NULL,
+  _idempotency_key text DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _quote jsonb;
+  _address jsonb;
+  _order public.orders%ROWTYPE;
+  _demand record;
+  _available numeric;
+  _session public.checkout_sessions%ROWTYPE;
+  _request_hash text;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Please login';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'address_id', a.id,
+    'full_name', a.full_name,
+    'phone', a.phone,
+    'line1', a.line1,
+    'line2', a.line2,
+    'city', a.city,
+    'state', a.state,
+    'pincode', a.pincode,
+    'landmark', a.landmark
+  )
+  INTO _address
+  FROM public.addresses a
+  WHERE a.id = _address_id AND a.user_id = _user_id;
+
+  IF _address IS NULL THEN
+    RAISE EXCEPTION 'Please select a shipping address';
+  END IF;
+
+  -- Repeated submits of the same checkout return the order it already created
+  -- (unless that order has since been cancelled)
+  IF NULLIF(trim(_idempotency_key), '') IS NOT NULL THEN
+    _request_hash := md5(jsonb_build_array(_items, _address_id, upper(trim(COALESCE(_coupon_code, ''))))::text);
+
+    INSERT INTO public.checkout_sessions (user_id, idempotency_key, request_hash)
+    VALUES (_user_id, trim(_idempotency_key), _request_hash)
+    ON CONFLICT (user_id, idempotency_key) DO NOTHING;
+
+    SELECT * INTO _session
+    FROM public.checkout_sessions
+    WHERE user_id = _user_id AND idempotency_key = trim(_idempotency_key)
+    FOR UPDATE;
+
+    IF _session.request_hash <> _request_hash THEN
+      RAISE EXCEPTION 'Your cart changed during checkout. Please review your order and try again';
+    END IF;
+
+    IF _session.order_id IS NOT NULL THEN
+      SELECT * INTO _order FROM public.orders WHERE id = _session.order_id;
+      IF FOUND AND _order.status <> 'cancelled' THEN
+        RETURN _order;
+      END IF;
+    END IF;
+  END IF;
+
+  -- Serialise orders using the same coupon so usage limits cannot be overrun
+  PERFORM 1 FROM public.coupons
+  WHERE code = upper(trim(_coupon_code))
+  FOR UPDATE;
+
+  _quote := public.quote_order(_items, _coupon_code, _address_id);
+
+  -- Lock every product in the cart (in a stable order to avoid deadlocks) and reserve stock
+  FOR _demand IN
+    SELECT (line->>'product_id')::uuid AS product_id,
+           max(line->>'product_name') AS product_name,
+           sum((line->>'quantity_litres')::numeric) AS quantity
+    FROM jsonb_array_elements(_quote->'lines') AS lines(line)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT stock_quantity - reserved_quantity INTO _available
+    FROM public.products
+    WHERE id = _demand.product_id
+    FOR UPDATE;
+
+    IF _available < _demand.quantity THEN
+      RAISE EXCEPTION 'Only % litres of % available', GREATEST(_available, 0), _demand.product_name;
+    END IF;
+
+    UPDATE public.products
+    SET reserved_quantity = reserved_quantity + _demand.quantity
+    WHERE id = _demand.product_id;
+  END LOOP;
+
+  INSERT INTO public.orders (
+    user_id,
+    order_number,
+    total_amount,
+    discount_amount,
+    shipping_amount,
+    taxable_amount,
+    cgst_amount,
+    sgst_amount,
+    igst_amount,
+    tax_amount,
+    prices_include_tax,
+    final_amount,
+    coupon_code,
+    shipping_address,
+    shipping_address_snapshot,
+    status,
+    payment_status,
+    stock_status
+  )
+  VALUES (
+    _user_id,
+    public.generate_order_number(),
+    (_quote->>'subtotal')::numeric,
+    (_quote->>'discount_amount')::numeric,
+    (_quote->>'shipping_amount')::numeric,
+    (_quote->>'taxable_amount')::numeric,
+    (_quote->>'cgst_amount')::numeric,
+    (_quote->>'sgst_amount')::numeric,
+    (_quote->>'igst_amount')::numeric,
+    (_quote->>'tax_amount')::numeric,
+    (_quote->>'prices_include_tax')::boolean,
+    (_quote->>'final_amount')::numeric,
+    _quote->>'coupon_code',
+    public.format_address(_address),
+    _address,
+    'pending',
+    'pending',
+    'reserved'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (
+    order_id,
+    product_id,
+    product_name,
+    quantity_litres,
+    price_per_litre,
+    total_price,
+    variant_selection,
+    measurement_label,
+    measurement_value,
+    hsn_code,
+    gst_rate,
+    taxable_amount,
+    cgst_amount,
+    sgst_amount,
+    igst_amount
+  )
+  SELECT
+    _order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'quantity_litres')::numeric,
+    (line->>'price_per_litre')::numeric,
+    (line->>'total_price')::numeric,
+    line->'variant_selection',
+    line->>'measurement_label',
+    line->>'measurement_value',
+    line->>'hsn_code',
+    (line->>'gst_rate')::numeric,
+    (line->>'taxable_amount')::numeric,
+    (line->>'cgst_amount')::numeric,
+    (line->>'sgst_amount')::numeric,
+    (line->>'igst_amount')::numeric
+  FROM jsonb_array_elements(_quote->'lines') AS lines(line);
+
+  IF _quote->>'coupon_id' IS NOT NULL THEN
+    INSERT INTO public.coupon_redemptions (coupon_id, user_id, order_id, discount_amount)
+    VALUES ((_quote->>'coupon_id')::uuid, _user_id, _order.id, (_quote->>'discount_amount')::numeric);
+  END IF;
+
+  IF _session.id IS NOT NULL THEN
+    UPDATE public.checkout_sessions
+    SET order_id = _order.id,
+        completed_at = now()
+    WHERE id = _session.id;
+  END IF;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(jsonb, uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(jsonb, uuid, text, text) TO authenticated;
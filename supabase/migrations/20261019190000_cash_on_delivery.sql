@@ -0,0 +1,592 @@
+-- Cash on Delivery.
+-- A single cod_settings row controls whether COD is offered, for which pincode
+-- ranges (none listed means every deliverable pincode), up to what order value
+-- and for what extra fee. quote_order reports whether COD is available for the
+-- selected address and adds the fee when COD is chosen; the method is recorded
+-- on orders.payment_method and admins mark the cash as collected on delivery.
+-- Admins can invoice a COD order once it is confirmed.
+
+CREATE TABLE public.cod_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  is_enabled boolean NOT NULL DEFAULT false,
+  pincode_ranges jsonb NOT NULL DEFAULT '[]'::jsonb,
+  max_order_value numeric CHECK (max_order_value > 0),
+  fee numeric NOT NULL DEFAULT 0 CHECK (fee >= 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.cod_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view COD settings"
+ON public.cod_settings FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage COD settings"
+ON public.cod_settings FOR ALL
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_cod_settings_updated_at
+BEFORE UPDATE ON public.cod_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.cod_settings (is_enabled) VALUES (false);
+
+ALTER TABLE public.orders
+  ADD COLUMN payment_method text NOT NULL DEFAULT 'upi' CHECK (payment_method IN ('upi', 'cod')),
+  ADD COLUMN cod_fee numeric NOT NULL DEFAULT 0,
+  ADD COLUMN cash_collected_at timestamptz;
+
+-- A confirmed COD order is invoiced before the cash is collected, so the invoice can travel with the parcel
+CREATE OR REPLACE FUNCTION public.order_is_invoiceable(_order public.orders)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT _order.status <> 'cancelled' AND (
+    _order.payment_status IN ('paid', 'refunded')
+    OR (_order.payment_method = 'cod' AND _order.status <> 'pending')
+  );
+$$;
+
+DROP FUNCTION public.quote_order(jsonb, text, uuid);
+DROP FUNCTION public.place_order(jsonb, uuid, text, text);
+
+CREATE OR REPLACE FUNCTION public.quote_order(
+  _items jsonb,
+  _coupon_code text DEFAULT NULL,
+  _address_id uuid DEFAULT NULL,
+  _payment_method text DEFAULT 'upi'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item jsonb;
+  _product public.products%ROWTYPE;
+  _coupon public.coupons%ROWTYPE;
+  _address public.addresses%ROWTYPE;
+  _settings public.tax_settings%ROWTYPE;
+  _category public.product_categories%ROWTYPE;
+  _quantity numeric;
+  _unit_price numeric;
+  _tier_price numeric;
+  _variant_label text;
+  _lines jsonb := '[]'::jsonb;
+  _subtotal numeric := 0;
+  _eligible_subtotal numeric := 0;
+  _scoped boolean := false;
+  _eligible boolean;
+  _redemptions integer;
+  _litres numeric := 0;
+  _discount numeric := 0;
+  _shipping jsonb;
+  _line jsonb;
+  _line_count integer;
+  _line_index integer;
+  _line_discount numeric;
+  _allocated_discount numeric := 0;
+  _net numeric;
+  _gst_rate numeric;
+  _line_taxable numeric;
+  _line_tax numeric;
+  _line_cgst numeric;
+  _line_sgst numeric;
+  _intra_state boolean := true;
+  _taxed_lines jsonb := '[]'::jsonb;
+  _taxable numeric := 0;
+  _cgst numeric := 0;
+  _sgst numeric := 0;
+  _igst numeric := 0;
+  _total numeric;
+  _cod public.cod_settings%ROWTYPE;
+  _cod_available boolean := false;
+  _cod_reason text;
+  _cod_fee numeric := 0;
+BEGIN
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty';
+  END IF;
+
+  _payment_method := lower(trim(COALESCE(_payment_method, 'upi')));
+  IF _payment_method NOT IN ('upi', 'cod') THEN
+    RAISE EXCEPTION 'Unsupported payment method';
+  END IF;
+
+  SELECT * INTO _settings FROM public.tax_settings LIMIT 1;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_items) LOOP
+    _quantity := (_item->>'quantity_litres')::numeric;
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity';
+    END IF;
+
+    SELECT * INTO _product
+    FROM public.products
+    WHERE id = (_item->>'product_id')::uuid AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'A product in your cart is no longer available';
+    END IF;
+
+    _variant_label := _item->'variant_selection'->>'label';
+    IF _product.variant_enabled AND jsonb_array_length(COALESCE(_product.variant_values, '[]'::jsonb)) > 0 THEN
+      IF _variant_label IS NULL OR NOT EXISTS (
+        SELECT 1
+        FROM jsonb_array_elements(_product.variant_values) AS v(value)
+        WHERE COALESCE(v.value->>'label', v.value#>>'{}') = _variant_label
+      ) THEN
+        RAISE EXCEPTION 'Please select a valid % for %', COALESCE(_product.variant_title, 'variant'), _product.name;
+      END IF;
+    END IF;
+
+    IF _product.measurement_enabled AND COALESCE(array_length(_product.measurement_values, 1), 0) > 0 THEN
+      IF NOT COALESCE(_item->>'measurement_value' = ANY (_product.measurement_values), false) THEN
+        RAISE EXCEPTION 'Please select a valid % for %', COALESCE(_product.measurement_title, 'measurement'), _product.name;
+      END IF;
+    END IF;
+
+    _category := NULL;
+    IF _product.category_id IS NOT NULL THEN
+      SELECT * INTO _category FROM public.product_categories WHERE id = _product.category_id;
+    END IF;
+
+    _unit_price := COALESCE(NULLIF(_product.offer_price_per_litre, 0), _product.price_per_litre);
+
+    SELECT t.price_per_litre INTO _tier_price
+    FROM public.product_price_tiers t
+    WHERE t.product_id = _product.id AND t.min_litres <= _quantity
+    ORDER BY t.min_litres DESC
+    LIMIT 1;
+
+    _unit_price := LEAST(_unit_price, _tier_price);
+    _subtotal := _subtotal + _unit_price * _quantity;
+    _litres := _litres + _quantity;
+
+    _lines := _lines || jsonb_build_array(jsonb_build_object(
+      'product_id', _product.id,
+      'product_name', _product.name,
+      'category_id', _product.category_id,
+      'quantity_litres', _quantity,
+      'price_per_litre', _unit_price,
+      'total_price', round(_unit_price * _quantity, 2),
+      'variant_selection', NULLIF(_item->'variant_selection', 'null'::jsonb),
+      'measurement_label', COALESCE(_item->>'measurement_label', _product.measurement_title),
+      'measurement_value', _item->>'measurement_value',
+      'hsn_code', COALESCE(NULLIF(trim(_product.hsn_code), ''), NULLIF(trim(_category.hsn_code), '')),
+      'gst_rate', COALESCE(_product.gst_rate, _category.gst_rate, _settings.default_gst_rate, 0)
+    ));
+  END LOOP;
+
+  IF NULLIF(trim(_coupon_code), '') IS NOT NULL THEN
+    SELECT * INTO _coupon
+    FROM public.coupons
+    WHERE code = upper(trim(_coupon_code)) AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Invalid coupon code';
+    END IF;
+
+    IF _coupon.valid_from > now() THEN
+      RAISE EXCEPTION 'Coupon is not active yet';
+    END IF;
+
+    IF _coupon.valid_until IS NOT NULL AND _coupon.valid_until < now() THEN
+      RAISE EXCEPTION 'Coupon has expired';
+    END IF;
+
+    IF _coupon.min_order_amount IS NOT NULL AND _subtotal < _coupon.min_order_amount THEN
+      RAISE EXCEPTION 'Minimum order amount is ₹%', _coupon.min_order_amount;
+    END IF;
+
+    IF _coupon.max_redemptions IS NOT NULL THEN
+      SELECT count(*) INTO _redemptions
+      FROM public.coupon_redemptions r
+      JOIN public.orders o ON o.id = r.order_id
+      WHERE r.coupon_id = _coupon.id AND o.status <> 'cancelled';
+
+      IF _redemptions >= _coupon.max_redemptions THEN
+        RAISE EXCEPTION 'Coupon usage limit has been reached';
+      END IF;
+    END IF;
+
+    IF _coupon.max_redemptions_per_user IS NOT NULL THEN
+      SELECT count(*) INTO _redemptions
+      FROM public.coupon_redemptions r
+      JOIN public.orders o ON o.id = r.order_id
+      WHERE r.coupon_id = _coupon.id AND r.user_id = auth.uid() AND o.status <> 'cancelled';
+
+      IF _redemptions >= _coupon.max_redemptions_per_user THEN
+        RAISE EXCEPTION 'You have already used this coupon';
+      END IF;
+    END IF;
+
+    IF _coupon.first_order_only AND EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE user_id = auth.uid() AND status <> 'cancelled'
+    ) THEN
+      RAISE EXCEPTION 'This coupon is only valid on your first order';
+    END IF;
+
+    -- A scoped coupon only discounts the products (or categories) it lists
+    _scoped := cardinality(_coupon.product_ids) > 0 OR cardinality(_coupon.category_ids) > 0;
+    SELECT COALESCE(sum((line->>'total_price')::numeric), 0) INTO _eligible_subtotal
+    FROM jsonb_array_elements(_lines) AS lines(line)
+    WHERE NOT _scoped
+      OR (line->>'product_id')::uuid = ANY (_coupon.product_ids)
+      OR (line->>'category_id')::uuid = ANY (_coupon.category_ids);
+
+    IF _eligible_subtotal = 0 THEN
+      RAISE EXCEPTION 'Coupon is not valid for the items in your cart';
+    END IF;
+
+    IF _coupon.discount_type = 'percentage' THEN
+      _discount := _eligible_subtotal * _coupon.discount_value / 100;
+      IF _coupon.max_discount_amount IS NOT NULL THEN
+        _discount := LEAST(_discount, _coupon.max_discount_amount);
+      END IF;
+    ELSE
+      _discount := _coupon.discount_value;
+    END IF;
+
+    _discount := LEAST(_discount, _eligible_subtotal);
+  END IF;
+
+  _subtotal := round(_subtotal, 2);
+  _discount := round(_discount, 2);
+
+  IF _address_id IS NOT NULL THEN
+    SELECT * INTO _address
+    FROM public.addresses
+    WHERE id = _address_id AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Please select a shipping address';
+    END IF;
+
+    _shipping := public.calculate_shipping(_address.pincode, _address.state, _litres, _subtotal - _discount);
+    _intra_state := _settings.seller_state IS NULL
+      OR lower(trim(_address.state)) = lower(trim(_settings.seller_state));
+  END IF;
+
+  -- Spread the coupon discount over the lines it applies to by value (the last
+  -- of them takes the rounding remainder) and tax what is left of each line at
+  -- its own rate.
+  SELECT max(ordinality) INTO _line_count
+  FROM jsonb_array_elements(_lines) WITH ORDINALITY AS lines(line, ordinality)
+  WHERE NOT _scoped
+    OR (line->>'product_id')::uuid = ANY (_coupon.product_ids)
+    OR (line->>'category_id')::uuid = ANY (_coupon.category_ids);
+
+  FOR _line, _line_index IN
+    SELECT value, ordinality FROM jsonb_array_elements(_lines) WITH ORDINALITY
+  LOOP
+    _eligible := NOT _scoped
+      OR (_line->>'product_id')::uuid = ANY (_coupon.product_ids)
+      OR COALESCE((_line->>'category_id')::uuid = ANY (_coupon.category_ids), false);
+
+    IF NOT _eligible OR _discount = 0 THEN
+      _line_discount := 0;
+    ELSIF _line_index = _line_count THEN
+      _line_discount := _discount - _allocated_discount;
+    ELSE
+      _line_discount := round(_discount * (_line->>'total_price')::numeric / _eligible_subtotal, 2);
+    END IF;
+    _allocated_discount := _allocated_discount + _line_discount;
+
+    _net := (_line->>'total_price')::numeric - _line_discount;
+    _gst_rate := (_line->>'gst_rate')::numeric;
+
+    IF COALESCE(_settings.prices_include_tax, true) THEN
+      _line_taxable := round(_net * 100 / (100 + _gst_rate), 2);
+      _line_tax := _net - _line_taxable;
+    ELSE
+      _line_taxable := _net;
+      _line_tax := round(_net * _gst_rate / 100, 2);
+    END IF;
+
+    IF _intra_state THEN
+      _line_cgst := round(_line_tax / 2, 2);
+      _line_sgst := _line_tax - _line_cgst;
+    ELSE
+      _line_cgst := 0;
+      _line_sgst := 0;
+    END IF;
+
+    _taxed_lines := _taxed_lines || jsonb_build_array(_line || jsonb_build_object(
+      'taxable_amount', _line_taxable,
+      'cgst_amount', _line_cgst,
+      'sgst_amount', _line_sgst,
+      'igst_amount', _line_tax - _line_cgst - _line_sgst
+    ));
+
+    _taxable := _taxable + _line_taxable;
+    _cgst := _cgst + _line_cgst;
+    _sgst := _sgst + _line_sgst;
+    _igst := _igst + _line_tax - _line_cgst - _line_sgst;
+  END LOOP;
+
+  _total := _subtotal - _discount + COALESCE((_shipping->>'shipping_amount')::numeric, 0)
+    + CASE WHEN COALESCE(_settings.prices_include_tax, true) THEN 0 ELSE _cgst + _sgst + _igst END;
+
+  SELECT * INTO _cod FROM public.cod_settings LIMIT 1;
+
+  IF NOT COALESCE(_cod.is_enabled, false) THEN
+    _cod_reason := 'Cash on Delivery is not available';
+  ELSIF _address_id IS NULL THEN
+    _cod_reason := 'Select a shipping address to check Cash on Delivery';
+  ELSIF jsonb_array_length(_cod.pincode_ranges) > 0 AND NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(_cod.pincode_ranges) AS ranges(pincode_range)
+    WHERE _address.pincode BETWEEN pincode_range->>'from' AND pincode_range->>'to'
+  ) THEN
+    _cod_reason := format('Cash on Delivery is not available for pincode %s', _address.pincode);
+  ELSIF _cod.max_order_value IS NOT NULL AND _total > _cod.max_order_value THEN
+    _cod_reason := format('Cash on Delivery is only available for orders up to ₹%s', _cod.max_order_value);
+  ELSE
+    _cod_available := true;
+  END IF;
+
+  IF _payment_method = 'cod' THEN
+    IF NOT _cod_available THEN
+      RAISE EXCEPTION '%', _cod_reason;
+    END IF;
+    _cod_fee := _cod.fee;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'lines', _taxed_lines,
+    'subtotal', _subtotal,
+    'discount_amount', _discount,
+    'coupon_code', _coupon.code,
+    'coupon_id', _coupon.id,
+    'total_litres', _litres,
+    'shipping_amount', COALESCE((_shipping->>'shipping_amount')::numeric, 0),
+    'shipping_zone', _shipping->>'zone_name',
+    'free_shipping_threshold', (_shipping->>'free_shipping_threshold')::numeric,
+    'prices_include_tax', COALESCE(_settings.prices_include_tax, true),
+    'taxable_amount', _taxable,
+    'cgst_amount', _cgst,
+    'sgst_amount', _sgst,
+    'igst_amount', _igst,
+    'tax_amount', _cgst + _sgst + _igst,
+    'payment_method', _payment_method,
+    'cod_available', _cod_available,
+    'cod_unavailable_reason', _cod_reason,
+    'cod_charge', CASE WHEN _cod_available THEN _cod.fee END,
+    'cod_fee', _cod_fee,
+    'final_amount', _total + _cod_fee
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _items jsonb,
+  _address_id uuid,
+  _coupon_code text DEFAULT NULL,
+  _payment_method text DEFAULT 'upi',
+  _idempotency_key text DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _quote jsonb;
+  _address jsonb;
+  _order public.orders%ROWTYPE;
+  _demand record;
+  _available numeric;
+  _session public.checkout_sessions%ROWTYPE;
+  _request_hash text;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Please login';
+  END IF;
+
+  SELECT jsonb_build_object(
+    'address_id', a.id,
+    'full_name', a.full_name,
+    'phone', a.phone,
+    'line1', a.line1,
+    'line2', a.line2,
+    'city', a.city,
+    'state', a.state,
+    'pincode', a.pincode,
+    'landmark', a.landmark
+  )
+  INTO _address
+  FROM public.addresses a
+  WHERE a.id = _address_id AND a.user_id = _user_id;
+
+  IF _address IS NULL THEN
+    RAISE EXCEPTION 'Please select a shipping address';
+  END IF;
+
+  -- Repeated submits of the same checkout return the order it already created
+  -- while that order is still waiting for payment; once it has been paid,
+  -- confirmed or cancelled the same key places a new order
+  IF NULLIF(trim(_idempotency_key), '') IS NOT NULL THEN
+    _request_hash := md5(jsonb_build_array(
+      _items, _address_id, upper(trim(COALESCE(_coupon_code, ''))), lower(trim(COALESCE(_payment_method, 'upi')))
+    )::text);
+
+    INSERT INTO public.checkout_sessions (user_id, idempotency_key, request_hash)
+    VALUES (_user_id, trim(_idempotency_key), _request_hash)
+    ON CONFLICT (user_id, idempotency_key) DO NOTHING;
+
+    SELECT * INTO _session
+    FROM public.checkout_sessions
+    WHERE user_id = _user_id AND idempotency_key = trim(_idempotency_key)
+    FOR UPDATE;
+
+    IF _session.request_hash <> _request_hash THEN
+      RAISE EXCEPTION 'Your cart changed during checkout. Please review your order and try again';
+    END IF;
+
+    IF _session.order_id IS NOT NULL THEN
+      SELECT * INTO _order FROM public.orders WHERE id = _session.order_id;
+      IF FOUND AND _order.status = 'pending' AND _order.payment_status IN ('pending', 'failed') THEN
+        RETURN _order;
+      END IF;
+    END IF;
+  END IF;
+
+  -- Serialise orders using the same coupon so usage limits cannot be overrun
+  PERFORM 1 FROM public.coupons
+  WHERE code = upper(trim(_coupon_code))
+  FOR UPDATE;
+
+  _quote := public.quote_order(_items, _coupon_code, _address_id, _payment_method);
+
+  -- Lock every product in the cart (in a stable order to avoid deadlocks) and reserve stock
+  FOR _demand IN
+    SELECT (line->>'product_id')::uuid AS product_id,
+           max(line->>'product_name') AS product_name,
+           sum((line->>'quantity_litres')::numeric) AS quantity
+    FROM jsonb_array_elements(_quote->'lines') AS lines(line)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT stock_quantity - reserved_quantity INTO _available
+    FROM public.products
+    WHERE id = _demand.product_id
+    FOR UPDATE;
+
+    IF _available < _demand.quantity THEN
+      RAISE EXCEPTION 'Only % litres of % available', GREATEST(_available, 0), _demand.product_name;
+    END IF;
+
+    UPDATE public.products
+    SET reserved_quantity = reserved_quantity + _demand.quantity
+    WHERE id = _demand.product_id;
+  END LOOP;
+
+  INSERT INTO public.orders (
+    user_id,
+    order_number,
+    total_amount,
+    discount_amount,
+    shipping_amount,
+    taxable_amount,
+    cgst_amount,
+    sgst_amount,
+    igst_amount,
+    tax_amount,
+    prices_include_tax,
+    payment_method,
+    cod_fee,
+    final_amount,
+    coupon_code,
+    shipping_address,
+    shipping_address_snapshot,
+    status,
+    payment_status,
+    stock_status
+  )
+  VALUES (
+    _user_id,
+    public.generate_order_number(),
+    (_quote->>'subtotal')::numeric,
+    (_quote->>'discount_amount')::numeric,
+    (_quote->>'shipping_amount')::numeric,
+    (_quote->>'taxable_amount')::numeric,
+    (_quote->>'cgst_amount')::numeric,
+    (_quote->>'sgst_amount')::numeric,
+    (_quote->>'igst_amount')::numeric,
+    (_quote->>'tax_amount')::numeric,
+    (_quote->>'prices_include_tax')::boolean,
+    _quote->>'payment_method',
+    (_quote->>'cod_fee')::numeric,
+    (_quote->>'final_amount')::numeric,
+    _quote->>'coupon_code',
+    public.format_address(_address),
+    _address,
+    'pending',
+    'pending',
+    'reserved'
+  )
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (
+    order_id,
+    product_id,
+    product_name,
+    quantity_litres,
+    price_per_litre,
+    total_price,
+    variant_selection,
+    measurement_label,
+    measurement_value,
+    hsn_code,
+    gst_rate,
+    taxable_amount,
+    cgst_amount,
+    sgst_amount,
+    igst_amount
+  )
+  SELECT
+    _order.id,
+    (line->>'product_id')::uuid,
+    line->>'product_name',
+    (line->>'quantity_litres')::numeric,
+    (line->>'price_per_litre')::numeric,
+    (line->>'total_price')::numeric,
+    line->'variant_selection',
+    line->>'measurement_label',
+    line->>'measurement_value',
+    line->>'hsn_code',
+    (line->>'gst_rate')::numeric,
+    (line->>'taxable_amount')::numeric,
+    (line->>'cgst_amount')::numeric,
+    (line->>'sgst_amount')::numeric,
+    (line->>'igst_amount')::numeric
+  FROM jsonb_array_elements(_quote->'lines') AS lines(line);
+
+  IF _quote->>'coupon_id' IS NOT NULL THEN
+    INSERT INTO public.coupon_redemptions (coupon_id, user_id, order_id, discount_amount)
+    VALUES ((_quote->>'coupon_id')::uuid, _user_id, _order.id, (_quote->>'discount_amount')::numeric);
+  END IF;
+
+  IF _session.id IS NOT NULL THEN
+    UPDATE public.checkout_sessions
+    SET order_id = _order.id,
+        completed_at = now()
+    WHERE id = _session.id;
+  END IF;
+
+  RETURN _order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.quote_order(jsonb, text, uuid, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.place_order(jsonb, uuid, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(jsonb, uuid, text, text, text) TO authenticated;
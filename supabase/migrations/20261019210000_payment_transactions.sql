@@ -0,0 +1,213 @@
+-- UPI payment submissions.
+-- After paying, the customer records the UTR (UPI transaction reference), the
+-- amount, their UPI ID and optionally a screenshot stored in the private
+-- payment-proofs bucket. Admins verify or reject each submission from a queue;
+-- the decision updates the order's payment_status and notifies the customer.
+-- A submission whose amount differs from the order total is only verified
+-- when the admin explicitly accepts the difference.
+
+CREATE TABLE public.payment_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  utr text NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0),
+  payer_vpa text,
+  screenshot_path text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'verified', 'rejected')),
+  rejection_reason text,
+  reviewed_by uuid,
+  reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- A UTR identifies one bank transfer, so it can only back one live submission
+CREATE UNIQUE INDEX payment_transactions_utr_key
+ON public.payment_transactions (upper(utr))
+WHERE status <> 'rejected';
+
+CREATE INDEX payment_transactions_order_id_idx ON public.payment_transactions (order_id);
+CREATE INDEX payment_transactions_status_idx ON public.payment_transactions (status, created_at);
+
+ALTER TABLE public.payment_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own payment transactions"
+ON public.payment_transactions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage payment transactions"
+ON public.payment_transactions FOR ALL
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_payment_transactions_updated_at
+BEFORE UPDATE ON public.payment_transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('payment-proofs', 'payment-proofs', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Screenshots live under <user id>/..., so customers only reach their own files
+CREATE POLICY "Users can upload their own payment proofs"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'payment-proofs' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can view their own payment proofs"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'payment-proofs' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Admins can view payment proofs"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'payment-proofs' AND has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.submit_payment_transaction(
+  _order_id uuid,
+  _utr text,
+  _amount numeric,
+  _payer_vpa text DEFAULT NULL,
+  _screenshot_path text DEFAULT NULL
+)
+RETURNS public.payment_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _transaction public.payment_transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND OR _order.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.payment_method <> 'upi' THEN
+    RAISE EXCEPTION 'Order % is not paid by UPI', _order.order_number;
+  END IF;
+
+  IF _order.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Order % has been cancelled', _order.order_number;
+  END IF;
+
+  IF _order.payment_status <> 'pending' THEN
+    RAISE EXCEPTION 'Payment for order % has already been recorded', _order.order_number;
+  END IF;
+
+  _utr := upper(regexp_replace(COALESCE(_utr, ''), '\s', '', 'g'));
+  IF _utr !~ '^[A-Z0-9]{6,35}$' THEN
+    RAISE EXCEPTION 'Enter a valid UTR / transaction ID';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Enter the amount you paid';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payment_transactions
+    WHERE upper(utr) = _utr AND status <> 'rejected'
+  ) THEN
+    RAISE EXCEPTION 'This UTR has already been submitted';
+  END IF;
+
+  IF _screenshot_path IS NOT NULL AND split_part(_screenshot_path, '/', 1) <> auth.uid()::text THEN
+    RAISE EXCEPTION 'Invalid payment screenshot';
+  END IF;
+
+  INSERT INTO public.payment_transactions (order_id, user_id, utr, amount, payer_vpa, screenshot_path)
+  VALUES (_order_id, _order.user_id, _utr, _amount, NULLIF(lower(trim(_payer_vpa)), ''), _screenshot_path)
+  RETURNING * INTO _transaction;
+
+  RETURN _transaction;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_payment_transaction(
+  _transaction_id uuid,
+  _approve boolean,
+  _reason text DEFAULT NULL,
+  _accept_amount_mismatch boolean DEFAULT false
+)
+RETURNS public.payment_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transaction public.payment_transactions%ROWTYPE;
+  _order public.orders%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review payments';
+  END IF;
+
+  SELECT * INTO _transaction FROM public.payment_transactions WHERE id = _transaction_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment submission not found';
+  END IF;
+
+  IF _transaction.status <> 'pending' THEN
+    RAISE EXCEPTION 'This payment has already been %', _transaction.status;
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _transaction.order_id FOR UPDATE;
+
+  IF _approve THEN
+    IF _order.status = 'cancelled' THEN
+      RAISE EXCEPTION 'Order % has been cancelled', _order.order_number;
+    END IF;
+
+    IF _transaction.amount <> _order.final_amount AND NOT _accept_amount_mismatch THEN
+      RAISE EXCEPTION 'The submitted ₹% does not match the ₹% due on order %',
+        _transaction.amount, _order.final_amount, _order.order_number;
+    END IF;
+
+    UPDATE public.payment_transactions
+    SET status = 'verified', reviewed_by = auth.uid(), reviewed_at = now()
+    WHERE id = _transaction_id
+    RETURNING * INTO _transaction;
+
+    IF _order.payment_status = 'pending' THEN
+      UPDATE public.orders
+      SET payment_status = 'paid', payment_reference = _transaction.utr
+      WHERE id = _order.id;
+    END IF;
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (
+      _order.user_id,
+      'Payment received',
+      format('We have verified your payment of ₹%s (UTR %s) for order %s.', _transaction.amount, _transaction.utr, _order.order_number),
+      'payment_verified'
+    );
+  ELSE
+    IF NULLIF(trim(_reason), '') IS NULL THEN
+      RAISE EXCEPTION 'Give a reason for rejecting the payment';
+    END IF;
+
+    UPDATE public.payment_transactions
+    SET status = 'rejected', rejection_reason = trim(_reason), reviewed_by = auth.uid(), reviewed_at = now()
+    WHERE id = _transaction_id
+    RETURNING * INTO _transaction;
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (
+      _order.user_id,
+      'Payment could not be verified',
+      format('We could not verify the payment with UTR %s for order %s: %s', _transaction.utr, _order.order_number, _transaction.rejection_reason),
+      'payment_rejected'
+    );
+  END IF;
+
+  RETURN _transaction;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.submit_payment_transaction(uuid, text, numeric, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.submit_payment_transaction(uuid, text, numeric, text, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.review_payment_transaction(uuid, boolean, text, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_payment_transaction(uuid, boolean, text, boolean) TO authenticated;
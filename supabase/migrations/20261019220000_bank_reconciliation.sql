@@ -0,0 +1,71 @@
+-- Bank statement reconciliation.
+-- Admins import a bank statement in the browser and match its UPI credits to
+-- pending orders. Each confirmed match ([{ order_id, utr, amount }]) goes
+-- through the same verification as a customer submission: an existing pending
+-- submission with that UTR is verified, otherwise one is recorded on the
+-- customer's behalf and verified, which marks the order paid and notifies them.
+
+CREATE OR REPLACE FUNCTION public.record_bank_payments(_payments jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment jsonb;
+  _order public.orders%ROWTYPE;
+  _utr text;
+  _amount numeric;
+  _transaction_id uuid;
+  _recorded integer := 0;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can record bank payments';
+  END IF;
+
+  FOR _payment IN SELECT * FROM jsonb_array_elements(COALESCE(_payments, '[]'::jsonb))
+  LOOP
+    _utr := upper(regexp_replace(COALESCE(_payment->>'utr', ''), '\s', '', 'g'));
+    _amount := (_payment->>'amount')::numeric;
+
+    IF _utr !~ '^[A-Z0-9]{6,35}$' THEN
+      RAISE EXCEPTION 'Invalid UTR %', _payment->>'utr';
+    END IF;
+
+    SELECT * INTO _order FROM public.orders WHERE id = (_payment->>'order_id')::uuid FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Order not found';
+    END IF;
+
+    -- Already settled (e.g. verified from the queue meanwhile) or no longer payable
+    CONTINUE WHEN _order.payment_status <> 'pending' OR _order.status = 'cancelled';
+
+    SELECT id INTO _transaction_id
+    FROM public.payment_transactions
+    WHERE order_id = _order.id AND upper(utr) = _utr AND status = 'pending';
+
+    IF _transaction_id IS NULL THEN
+      IF EXISTS (
+        SELECT 1 FROM public.payment_transactions
+        WHERE upper(utr) = _utr AND status <> 'rejected'
+      ) THEN
+        RAISE EXCEPTION 'UTR % is already recorded against another payment', _utr;
+      END IF;
+
+      INSERT INTO public.payment_transactions (order_id, user_id, utr, amount)
+      VALUES (_order.id, _order.user_id, _utr, _amount)
+      RETURNING id INTO _transaction_id;
+    END IF;
+
+    -- The admin confirmed this credit against the statement, amount included
+    PERFORM public.review_payment_transaction(_transaction_id, true, NULL, true);
+    _recorded := _recorded + 1;
+  END LOOP;
+
+  RETURN _recorded;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_bank_payments(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_bank_payments(jsonb) TO authenticated;
@@ -0,0 +1,114 @@
+-- Store settings.
+-- A single store_settings row holds the merchant details shown across the
+-- storefront: the UPI ID and payee name used for UPI payments, the WhatsApp
+-- number payment confirmations are sent to, contact details, business hours,
+-- company details and the policy text. Each policy is plain text where blank
+-- lines separate sections, the first line of a section is its heading and
+-- lines starting with "- " are list items. The store name and address are
+-- also the seller name and address on invoices and credit notes, replacing
+-- the copies tax_settings kept (the GSTIN and state stay there).
+
+CREATE TABLE public.store_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  store_name text NOT NULL,
+  tagline text,
+  upi_id text NOT NULL CHECK (upi_id ~ '^[A-Za-z0-9._-]+@[A-Za-z0-9]+$'),
+  upi_payee_name text NOT NULL,
+  whatsapp_number text NOT NULL CHECK (whatsapp_number ~ '^[0-9]{10,15}$'),
+  contact_email text,
+  contact_phone text,
+  address text NOT NULL,
+  business_hours text,
+  legal_status text,
+  established text,
+  proprietor text,
+  gst_registration_date text,
+  shipping_policy text,
+  terms_and_conditions text,
+  refund_policy text,
+  privacy_policy text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.store_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view store settings"
+ON public.store_settings FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can manage store settings"
+ON public.store_settings FOR ALL
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_store_settings_updated_at
+BEFORE UPDATE ON public.store_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.store_settings (
+  store_name,
+  tagline,
+  upi_id,
+  upi_payee_name,
+  whatsapp_number,
+  contact_email,
+  contact_phone,
+  address,
+  business_hours,
+  legal_status,
+  established,
+  proprietor,
+  gst_registration_date,
+  shipping_policy,
+  terms_and_conditions,
+  refund_policy,
+  privacy_policy
+) VALUES (
+  'Sri Aarumugan Oil Mills',
+  'Premium manufacturer of cold-pressed sesame oil and quality seeds since 2022. Tradition meets purity.',
+  '7449213304@pthdfc',
+  'MerchantName',
+  '917449213304',
+  'info@sriaarumuganoilmills.com',
+  '+91 74492 13304',
+  E'158Z-2/4, Vijayapuri Road\nEast Pandavarmangalam\nKovilpatti, Thoothukudi\nTamil Nadu - 628501\nIndia',
+  E'Monday - Saturday: Open\nSunday: Closed',
+  'Partnership',
+  '2022',
+  'P.R. Maariappan',
+  '17-08-2021',
+  E'Delivery Areas\nWe deliver across India with special care for our premium cooking oils. Delivery times vary by location and are typically 3-7 business days.\n\n'
+  || E'Shipping Charges\n- Free shipping on orders above ₹500\n- Standard shipping: ₹50 for orders below ₹500\n- Express delivery: ₹100 (1-2 business days)\n\n'
+  || E'Packaging\nAll products are carefully packaged to prevent leakage and maintain quality. We use eco-friendly packaging materials whenever possible.',
+  E'Acceptance of Terms\nBy accessing and using OilMart, you accept and agree to be bound by the terms and provision of this agreement.\n\n'
+  || E'Product Information\nWe strive to provide accurate product descriptions and images. However, we do not warrant that product descriptions or other content is accurate, complete, reliable, or error-free.\n\n'
+  || E'Pricing\nAll prices are subject to change without notice. We reserve the right to modify or discontinue any product at any time without prior notice.\n\n'
+  || E'User Accounts\nYou are responsible for maintaining the confidentiality of your account and password. You agree to accept responsibility for all activities that occur under your account.',
+  E'Order Cancellation\nYou may cancel your order within 24 hours of placement, provided the order has not been shipped. Contact our customer service to initiate cancellation.\n\n'
+  || E'Returns\nWe accept returns within 7 days of delivery for unopened products in original packaging. Return shipping costs are the responsibility of the customer.\n\n'
+  || E'Refunds\n- Refunds will be processed within 5-7 business days\n- Refunds will be issued to the original payment method\n- Processing fees may apply for certain payment methods\n\n'
+  || E'Damaged or Defective Products\nIf you receive a damaged or defective product, please contact us immediately with photos. We will arrange for a replacement or full refund at no cost to you.',
+  E'Information We Collect\nWe collect information you provide directly to us, such as when you create an account, make a purchase, or contact us for support.\n\n'
+  || E'How We Use Your Information\n- Process and fulfill your orders\n- Send you order confirmations and updates\n- Provide customer support\n- Improve our products and services\n- Send promotional communications (with your consent)\n\n'
+  || E'Information Sharing\nWe do not sell, trade, or otherwise transfer your personal information to third parties without your consent, except as described in this policy.\n\n'
+  || E'Data Security\nWe implement appropriate security measures to protect your personal information against unauthorized access, alteration, disclosure, or destruction.\n\n'
+  || E'Your Rights\nYou have the right to access, update, or delete your personal information. You may also opt out of promotional communications at any time.'
+);
+
+CREATE OR REPLACE FUNCTION public.seller_details()
+RETURNS TABLE (seller_name text, seller_address text, seller_gstin text, seller_state text)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT s.store_name, replace(s.address, E'\n', ', '), t.seller_gstin, t.seller_state
+  FROM public.store_settings s
+  CROSS JOIN public.tax_settings t
+  LIMIT 1;
+$$;
+
+ALTER TABLE public.tax_settings
+  DROP COLUMN seller_name,
+  DROP COLUMN seller_address;
@@ -0,0 +1,95 @@
+-- Expiry of unpaid orders.
+-- Orders paid online (UPI or gateway) get a payment_due_at deadline when they
+-- are placed, store_settings.payment_window_minutes after creation. A pg_cron
+-- job runs expire_unpaid_orders every minute: orders still pending and unpaid
+-- past their deadline are cancelled with payment_status 'expired', which
+-- releases their reserved stock (apply_order_stock_transition) and stops their
+-- coupon redemption counting towards the coupon's limits, and the customer is
+-- notified. Orders with a UPI submission awaiting verification are left for
+-- the admin, since the customer may already have paid.
+
+ALTER TABLE public.store_settings
+  ADD COLUMN payment_window_minutes integer NOT NULL DEFAULT 60 CHECK (payment_window_minutes >= 5);
+
+ALTER TABLE public.orders
+  ADD COLUMN payment_due_at timestamptz;
+
+CREATE INDEX orders_payment_due_at_idx ON public.orders (payment_due_at)
+WHERE status = 'pending' AND payment_status = 'pending';
+
+CREATE OR REPLACE FUNCTION public.set_order_payment_due_at()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.payment_method <> 'cod' AND NEW.payment_status = 'pending' THEN
+    NEW.payment_due_at := now() + make_interval(mins => COALESCE(
+      (SELECT payment_window_minutes FROM public.store_settings LIMIT 1),
+      60
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_order_payment_due_at
+BEFORE INSERT ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.set_order_payment_due_at();
+
+-- Orders already awaiting payment get a full window from now
+UPDATE public.orders
+SET payment_due_at = now() + make_interval(mins => (SELECT payment_window_minutes FROM public.store_settings LIMIT 1))
+WHERE payment_method <> 'cod' AND status = 'pending' AND payment_status = 'pending';
+
+CREATE OR REPLACE FUNCTION public.expire_unpaid_orders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _expired integer := 0;
+BEGIN
+  FOR _order IN
+    SELECT *
+    FROM public.orders o
+    WHERE o.status = 'pending'
+      AND o.payment_status = 'pending'
+      AND o.payment_due_at < now()
+      AND NOT EXISTS (
+        SELECT 1 FROM public.payment_transactions t
+        WHERE t.order_id = o.id AND t.status = 'pending'
+      )
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.orders
+    SET status = 'cancelled', payment_status = 'expired'
+    WHERE id = _order.id;
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (
+      _order.user_id,
+      'Order expired',
+      'Order ' || _order.order_number || ' was cancelled because we did not receive payment in time. '
+        || 'Any items you still want can be ordered again.',
+      'order_expired'
+    );
+
+    _expired := _expired + 1;
+  END LOOP;
+
+  RETURN _expired;
+END;
+$$;
+
+-- Only the scheduled job runs this
+REVOKE EXECUTE ON FUNCTION public.expire_unpaid_orders() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule('expire-unpaid-orders', '* * * * *', 'SELECT public.expire_unpaid_orders()');
@@ -0,0 +1,339 @@
+-- Refunds and credit notes.
+-- Admins refund a paid order in one or more steps. Each refund returns some
+-- litres of specific order_items (priced at what the customer actually paid
+-- per litre: the discounted taxable value plus GST) and/or an additional
+-- amount such as shipping, and records how the money went back (gateway, UPI,
+-- bank transfer or cash) with its reference. Every refund is a GST credit note
+-- numbered consecutively within the financial year, e.g. CN/2026-27/00001,
+-- that keeps the seller details and reverses the tax on the refunded lines.
+-- orders.refunded_amount is the running total; the order becomes 'refunded'
+-- once everything is returned, and net_paid_amount is what the store keeps.
+
+ALTER TABLE public.orders
+  ADD COLUMN refunded_amount numeric NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0),
+  ADD COLUMN net_paid_amount numeric GENERATED ALWAYS AS (
+    CASE WHEN payment_status IN ('paid', 'refunded') THEN final_amount - refunded_amount ELSE 0 END
+  ) STORED;
+
+CREATE TABLE public.credit_note_series (
+  financial_year text PRIMARY KEY,
+  last_number integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE public.credit_note_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view credit note series"
+ON public.credit_note_series FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE TABLE public.refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE RESTRICT,
+  amount numeric NOT NULL CHECK (amount > 0),
+  additional_amount numeric NOT NULL DEFAULT 0 CHECK (additional_amount >= 0),
+  reason text NOT NULL,
+  method text NOT NULL CHECK (method IN ('gateway', 'upi', 'bank_transfer', 'cash')),
+  reference text,
+  credit_note_number text NOT NULL UNIQUE,
+  financial_year text NOT NULL,
+  sequence_number integer NOT NULL,
+  invoice_number text,
+  seller_name text NOT NULL,
+  seller_address text NOT NULL,
+  seller_gstin text,
+  seller_state text NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (financial_year, sequence_number)
+);
+
+CREATE INDEX refunds_order_id_idx ON public.refunds (order_id);
+
+CREATE TABLE public.refund_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  refund_id uuid NOT NULL REFERENCES public.refunds(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES public.order_items(id) ON DELETE RESTRICT,
+  product_name text NOT NULL,
+  quantity_litres numeric NOT NULL CHECK (quantity_litres > 0),
+  taxable_amount numeric NOT NULL,
+  cgst_amount numeric NOT NULL DEFAULT 0,
+  sgst_amount numeric NOT NULL DEFAULT 0,
+  igst_amount numeric NOT NULL DEFAULT 0,
+  amount numeric NOT NULL
+);
+
+CREATE INDEX refund_items_order_item_id_idx ON public.refund_items (order_item_id);
+
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.refund_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own refunds"
+ON public.refunds FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = refunds.order_id AND o.user_id = auth.uid()
+));
+
+CREATE POLICY "Admins can view all refunds"
+ON public.refunds FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view their own refund items"
+ON public.refund_items FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.refunds r
+  JOIN public.orders o ON o.id = r.order_id
+  WHERE r.id = refund_items.refund_id AND o.user_id = auth.uid()
+));
+
+CREATE POLICY "Admins can view all refund items"
+ON public.refund_items FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+-- _items is [{ order_item_id, quantity_litres }]; _additional_amount covers
+-- anything not tied to an item, such as shipping or the COD fee.
+CREATE OR REPLACE FUNCTION public.record_refund(
+  _order_id uuid,
+  _items jsonb,
+  _additional_amount numeric,
+  _reason text,
+  _method text,
+  _reference text DEFAULT NULL
+)
+RETURNS public.refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _seller record;
+  _refund public.refunds%ROWTYPE;
+  _item jsonb;
+  _order_item public.order_items%ROWTYPE;
+  _quantity numeric;
+  _already_refunded numeric;
+  _share numeric;
+  _lines jsonb := '[]'::jsonb;
+  _line jsonb;
+  _total numeric := 0;
+  _issued_on date := (now() AT TIME ZONE 'Asia/Kolkata')::date;
+  _financial_year text;
+  _sequence integer;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can record refunds';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.payment_status <> 'paid' THEN
+    RAISE EXCEPTION 'Only paid orders can be refunded';
+  END IF;
+
+  IF NULLIF(trim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Enter a reason for the refund';
+  END IF;
+
+  IF _method IS NULL OR _method NOT IN ('gateway', 'upi', 'bank_transfer', 'cash') THEN
+    RAISE EXCEPTION 'Unsupported refund method %', _method;
+  END IF;
+
+  IF _method = 'gateway' AND _order.payment_method <> 'gateway' THEN
+    RAISE EXCEPTION 'Order % was not paid through the gateway', _order.order_number;
+  END IF;
+
+  IF _method IN ('gateway', 'upi', 'bank_transfer') AND NULLIF(trim(_reference), '') IS NULL THEN
+    RAISE EXCEPTION 'Enter the refund transaction reference';
+  END IF;
+
+  _additional_amount := round(COALESCE(_additional_amount, 0), 2);
+  IF _additional_amount < 0 THEN
+    RAISE EXCEPTION 'Additional amount cannot be negative';
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(COALESCE(_items, '[]'::jsonb))
+  LOOP
+    _quantity := (_item->>'quantity_litres')::numeric;
+    CONTINUE WHEN _quantity IS NULL OR _quantity = 0;
+
+    IF _quantity < 0 THEN
+      RAISE EXCEPTION 'Refund quantity cannot be negative';
+    END IF;
+
+    SELECT * INTO _order_item
+    FROM public.order_items
+    WHERE id = (_item->>'order_item_id')::uuid AND order_id = _order_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item not found on order %', _order.order_number;
+    END IF;
+
+    IF _lines @> jsonb_build_array(jsonb_build_object('order_item_id', _order_item.id)) THEN
+      RAISE EXCEPTION '% is listed more than once', _order_item.product_name;
+    END IF;
+
+    SELECT COALESCE(sum(quantity_litres), 0) INTO _already_refunded
+    FROM public.refund_items
+    WHERE order_item_id = _order_item.id;
+
+    IF _already_refunded + _quantity > _order_item.quantity_litres THEN
+      RAISE EXCEPTION 'Only % L of % can still be refunded',
+        _order_item.quantity_litres - _already_refunded, _order_item.product_name;
+    END IF;
+
+    IF _order_item.taxable_amount = 0 AND _order_item.cgst_amount = 0
+      AND _order_item.sgst_amount = 0 AND _order_item.igst_amount = 0 THEN
+      -- Lines from before GST was recorded have no breakdown: refund their share of the line total, untaxed
+      SELECT jsonb_build_object(
+        'taxable_amount', CASE
+          WHEN _already_refunded + _quantity = _order_item.quantity_litres
+            THEN _order_item.total_price - COALESCE(sum(taxable_amount), 0)
+          ELSE round(_order_item.total_price * _quantity / _order_item.quantity_litres, 2)
+        END,
+        'cgst_amount', 0,
+        'sgst_amount', 0,
+        'igst_amount', 0
+      ) INTO _line
+      FROM public.refund_items
+      WHERE order_item_id = _order_item.id;
+    ELSIF _already_refunded + _quantity = _order_item.quantity_litres THEN
+      -- The last litres take whatever is left of the line, so rounding never over- or under-refunds it
+      SELECT jsonb_build_object(
+        'taxable_amount', _order_item.taxable_amount - COALESCE(sum(taxable_amount), 0),
+        'cgst_amount', _order_item.cgst_amount - COALESCE(sum(cgst_amount), 0),
+        'sgst_amount', _order_item.sgst_amount - COALESCE(sum(sgst_amount), 0),
+        'igst_amount', _order_item.igst_amount - COALESCE(sum(igst_amount), 0)
+      ) INTO _line
+      FROM public.refund_items
+      WHERE order_item_id = _order_item.id;
+    ELSE
+      _share := _quantity / _order_item.quantity_litres;
+      _line := jsonb_build_object(
+        'taxable_amount', round(_order_item.taxable_amount * _share, 2),
+        'cgst_amount', round(_order_item.cgst_amount * _share, 2),
+        'sgst_amount', round(_order_item.sgst_amount * _share, 2),
+        'igst_amount', round(_order_item.igst_amount * _share, 2)
+      );
+    END IF;
+
+    _line := _line || jsonb_build_object(
+      'order_item_id', _order_item.id,
+      'product_name', _order_item.product_name,
+      'quantity_litres', _quantity
+    );
+    _line := _line || jsonb_build_object('amount',
+      (_line->>'taxable_amount')::numeric + (_line->>'cgst_amount')::numeric
+      + (_line->>'sgst_amount')::numeric + (_line->>'igst_amount')::numeric);
+
+    _lines := _lines || _line;
+    _total := _total + (_line->>'amount')::numeric;
+  END LOOP;
+
+  _total := _total + _additional_amount;
+
+  IF _total <= 0 THEN
+    RAISE EXCEPTION 'Select items or enter an amount to refund';
+  END IF;
+
+  IF _order.refunded_amount + _total > _order.final_amount THEN
+    RAISE EXCEPTION 'Refund exceeds the ₹% still refundable on order %',
+      _order.final_amount - _order.refunded_amount, _order.order_number;
+  END IF;
+
+  SELECT * INTO _seller FROM public.seller_details();
+
+  _financial_year := CASE
+    WHEN extract(month FROM _issued_on) >= 4
+      THEN extract(year FROM _issued_on)::int || '-' || lpad(((extract(year FROM _issued_on)::int + 1) % 100)::text, 2, '0')
+    ELSE (extract(year FROM _issued_on)::int - 1) || '-' || lpad((extract(year FROM _issued_on)::int % 100)::text, 2, '0')
+  END;
+
+  INSERT INTO public.credit_note_series (financial_year, last_number)
+  VALUES (_financial_year, 1)
+  ON CONFLICT (financial_year) DO UPDATE SET last_number = credit_note_series.last_number + 1
+  RETURNING last_number INTO _sequence;
+
+  INSERT INTO public.refunds (
+    order_id,
+    amount,
+    additional_amount,
+    reason,
+    method,
+    reference,
+    credit_note_number,
+    financial_year,
+    sequence_number,
+    invoice_number,
+    seller_name,
+    seller_address,
+    seller_gstin,
+    seller_state,
+    created_by
+  )
+  VALUES (
+    _order_id,
+    _total,
+    _additional_amount,
+    trim(_reason),
+    _method,
+    NULLIF(trim(_reference), ''),
+    'CN/' || _financial_year || '/' || lpad(_sequence::text, 5, '0'),
+    _financial_year,
+    _sequence,
+    (SELECT invoice_number FROM public.invoices WHERE order_id = _order_id),
+    _seller.seller_name,
+    _seller.seller_address,
+    _seller.seller_gstin,
+    _seller.seller_state,
+    auth.uid()
+  )
+  RETURNING * INTO _refund;
+
+  INSERT INTO public.refund_items (
+    refund_id,
+    order_item_id,
+    product_name,
+    quantity_litres,
+    taxable_amount,
+    cgst_amount,
+    sgst_amount,
+    igst_amount,
+    amount
+  )
+  SELECT
+    _refund.id,
+    (line->>'order_item_id')::uuid,
+    line->>'product_name',
+    (line->>'quantity_litres')::numeric,
+    (line->>'taxable_amount')::numeric,
+    (line->>'cgst_amount')::numeric,
+    (line->>'sgst_amount')::numeric,
+    (line->>'igst_amount')::numeric,
+    (line->>'amount')::numeric
+  FROM jsonb_array_elements(_lines) AS lines(line);
+
+  UPDATE public.orders
+  SET refunded_amount = refunded_amount + _total,
+      payment_status = CASE WHEN refunded_amount + _total >= final_amount THEN 'refunded' ELSE payment_status END
+  WHERE id = _order_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type)
+  VALUES (
+    _order.user_id,
+    'Refund issued',
+    'We have refunded ₹' || _total || ' for order ' || _order.order_number || '. Credit note '
+      || _refund.credit_note_number || ' is available on your Orders page.',
+    'refund_issued'
+  );
+
+  RETURN _refund;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_refund(uuid, jsonb, numeric, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_refund(uuid, jsonb, numeric, text, text, text) TO authenticated;
@@ -0,0 +1,198 @@
+-- Order status state machine and audit history.
+-- status moves pending -> confirmed -> processing -> shipped -> delivered and
+-- can be cancelled until it ships; payment_status moves pending -> paid ->
+-- refunded, or ends as failed / expired. Prepaid orders are confirmed when
+-- their payment arrives and cannot be confirmed before it. Anything else is
+-- rejected by the orders_status_transition trigger, whoever makes the change.
+-- Every change (and the initial state of new orders) is written to
+-- order_status_history with the user who made it, null for scheduled jobs.
+-- update_order_status lets admins attach a note to the change. A rejected UPI
+-- payment submission leaves payment_status as it was, so it is recorded as a
+-- payment_status entry with the same from and to status and the reason.
+
+CREATE TABLE public.order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  field text NOT NULL CHECK (field IN ('status', 'payment_status')),
+  from_status text,
+  to_status text NOT NULL,
+  note text,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX order_status_history_order_id_idx ON public.order_status_history (order_id, created_at);
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own order status history"
+ON public.order_status_history FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = order_status_history.order_id AND o.user_id = auth.uid()
+));
+
+CREATE POLICY "Admins can view all order status history"
+ON public.order_status_history FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN
+    IF NOT (
+      (OLD.payment_status = 'pending' AND NEW.payment_status IN ('paid', 'failed', 'expired'))
+      OR (OLD.payment_status = 'failed' AND NEW.payment_status IN ('pending', 'paid', 'expired'))
+      OR (OLD.payment_status = 'paid' AND NEW.payment_status = 'refunded')
+    ) THEN
+      RAISE EXCEPTION 'Payment of order % cannot change from % to %',
+        OLD.order_number, OLD.payment_status, NEW.payment_status;
+    END IF;
+
+    IF NEW.payment_status = 'paid' AND OLD.status = 'cancelled' THEN
+      RAISE EXCEPTION 'Order % has been cancelled', OLD.order_number;
+    END IF;
+
+    -- A prepaid order is confirmed as soon as its payment arrives
+    IF NEW.payment_status = 'paid' AND NEW.status = 'pending' THEN
+      NEW.status := 'confirmed';
+    END IF;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('confirmed', 'cancelled'))
+      OR (OLD.status = 'confirmed' AND NEW.status IN ('processing', 'cancelled'))
+      OR (OLD.status = 'processing' AND NEW.status IN ('shipped', 'cancelled'))
+      OR (OLD.status = 'shipped' AND NEW.status = 'delivered')
+    ) THEN
+      RAISE EXCEPTION 'Order % cannot change from % to %', OLD.order_number, OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status = 'confirmed' AND NEW.payment_method <> 'cod' AND NEW.payment_status <> 'paid' THEN
+      RAISE EXCEPTION 'Order % cannot be confirmed before it is paid', OLD.order_number;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_status_transition
+BEFORE UPDATE OF status, payment_status ON public.orders
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status OR OLD.payment_status IS DISTINCT FROM NEW.payment_status)
+EXECUTE FUNCTION public.enforce_order_status_transition();
+
+CREATE OR REPLACE FUNCTION public.record_order_status_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Set by update_order_status for the duration of its transaction
+  _note text := NULLIF(current_setting('app.order_status_note', true), '');
+  _old_status text;
+  _old_payment_status text;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    _old_status := OLD.status;
+    _old_payment_status := OLD.payment_status;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM _old_status THEN
+    INSERT INTO public.order_status_history (order_id, field, from_status, to_status, note, changed_by)
+    VALUES (NEW.id, 'status', _old_status, NEW.status, _note, auth.uid());
+  END IF;
+
+  IF NEW.payment_status IS DISTINCT FROM _old_payment_status THEN
+    INSERT INTO public.order_status_history (order_id, field, from_status, to_status, note, changed_by)
+    VALUES (NEW.id, 'payment_status', _old_payment_status, NEW.payment_status, _note, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_status_history
+AFTER INSERT OR UPDATE OF status, payment_status ON public.orders
+FOR EACH ROW
+EXECUTE FUNCTION public.record_order_status_history();
+
+CREATE OR REPLACE FUNCTION public.record_payment_rejection_history()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.order_status_history (order_id, field, from_status, to_status, note, changed_by)
+  SELECT
+    o.id,
+    'payment_status',
+    o.payment_status,
+    o.payment_status,
+    'Payment with UTR ' || NEW.utr || ' rejected: ' || NEW.rejection_reason,
+    auth.uid()
+  FROM public.orders o
+  WHERE o.id = NEW.order_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER payment_transactions_rejection_history
+AFTER UPDATE OF status ON public.payment_transactions
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status AND NEW.status = 'rejected')
+EXECUTE FUNCTION public.record_payment_rejection_history();
+
+-- Existing orders start their history from their current state
+INSERT INTO public.order_status_history (order_id, field, to_status, note, created_at)
+SELECT id, 'status', status, 'Status when history tracking began', updated_at FROM public.orders
+UNION ALL
+SELECT id, 'payment_status', payment_status, 'Status when history tracking began', updated_at FROM public.orders;
+
+CREATE OR REPLACE FUNCTION public.update_order_status(
+  _order_id uuid,
+  _status text DEFAULT NULL,
+  _payment_status text DEFAULT NULL,
+  _note text DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change order status';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', COALESCE(trim(_note), ''), true);
+
+  UPDATE public.orders
+  SET status = COALESCE(_status, status),
+      payment_status = COALESCE(_payment_status, payment_status)
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  PERFORM set_config('app.order_status_note', '', true);
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_order_status(uuid, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_order_status(uuid, text, text, text) TO authenticated;
@@ -0,0 +1,142 @@
+-- Shipment management.
+-- Admins record a shipment per parcel with its carrier, tracking number and
+-- tracking link. A shipment moves pending -> shipped -> delivered (or is
+-- cancelled before delivery), stamping shipped_at / delivered_at. Shipping
+-- the first parcel moves the order to 'shipped', and the order becomes
+-- 'delivered' once none of its shipments is still on the way; the customer is
+-- notified of both.
+
+ALTER TABLE public.shipments
+  ADD COLUMN tracking_url text CHECK (tracking_url ~ '^https?://'),
+  ADD CONSTRAINT shipments_status_check CHECK (status IN ('pending', 'shipped', 'delivered', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS shipments_order_id_idx ON public.shipments (order_id);
+
+ALTER TABLE public.shipments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own shipments"
+ON public.shipments FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.orders o
+  WHERE o.id = shipments.order_id AND o.user_id = auth.uid()
+));
+
+CREATE POLICY "Admins can manage shipments"
+ON public.shipments FOR ALL
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+DROP TRIGGER IF EXISTS update_shipments_updated_at ON public.shipments;
+
+CREATE TRIGGER update_shipments_updated_at
+BEFORE UPDATE ON public.shipments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.enforce_shipment_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('pending', 'shipped') THEN
+      RAISE EXCEPTION 'New shipments must be pending or shipped';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('shipped', 'cancelled'))
+    OR (OLD.status = 'shipped' AND NEW.status IN ('delivered', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Shipment cannot change from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status IN ('shipped', 'delivered') THEN
+    NEW.shipped_at := COALESCE(NEW.shipped_at, now());
+  END IF;
+
+  IF NEW.status = 'delivered' THEN
+    NEW.delivered_at := COALESCE(NEW.delivered_at, now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER shipments_status_transition
+BEFORE INSERT OR UPDATE OF status ON public.shipments
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_shipment_status_transition();
+
+CREATE OR REPLACE FUNCTION public.sync_order_status_from_shipments()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _old_status text;
+  _description text := COALESCE(NEW.carrier, 'our courier')
+    || COALESCE(', tracking number ' || NEW.tracking_number, '');
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    _old_status := OLD.status;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM _old_status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = NEW.order_id FOR UPDATE;
+
+  IF NEW.status = 'shipped' THEN
+    IF _order.status NOT IN ('confirmed', 'processing', 'shipped') THEN
+      RAISE EXCEPTION 'Order % must be confirmed before it ships', _order.order_number;
+    END IF;
+
+    IF _order.status <> 'shipped' THEN
+      PERFORM set_config('app.order_status_note', 'Shipped via ' || _description, true);
+      IF _order.status = 'confirmed' THEN
+        UPDATE public.orders SET status = 'processing' WHERE id = _order.id;
+      END IF;
+      UPDATE public.orders SET status = 'shipped' WHERE id = _order.id;
+      PERFORM set_config('app.order_status_note', '', true);
+    END IF;
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (
+      _order.user_id,
+      'Order shipped',
+      'Order ' || _order.order_number || ' has been shipped via ' || _description
+        || '. You can track it from your Orders page.',
+      'order_shipped'
+    );
+  ELSIF NEW.status IN ('delivered', 'cancelled')
+    AND _order.status = 'shipped'
+    AND EXISTS (
+      SELECT 1 FROM public.shipments WHERE order_id = _order.id AND status = 'delivered'
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.shipments WHERE order_id = _order.id AND status IN ('pending', 'shipped')
+    )
+  THEN
+    UPDATE public.orders SET status = 'delivered' WHERE id = _order.id;
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (
+      _order.user_id,
+      'Order delivered',
+      'Order ' || _order.order_number || ' has been delivered. Thank you for shopping with us!',
+      'order_delivered'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER shipments_sync_order_status
+AFTER INSERT OR UPDATE OF status ON public.shipments
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_order_status_from_shipments();
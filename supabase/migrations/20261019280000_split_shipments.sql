@@ -0,0 +1,331 @@
+-- Split fulfilment.
+-- Each shipment now lists the order_items and litres packed in it
+-- (shipment_items). A line's litres can be spread over several parcels but
+-- never allocated beyond what was ordered; cancelled parcels free their
+-- allocation for a replacement. Shipments are created through
+-- create_shipment, which inserts the parcel and its lines together, and a
+-- parcel cannot ship without lines. The order becomes 'partially_shipped'
+-- while some of its litres are still to be dispatched and 'shipped' once every
+-- line has left in a parcel; cancelling a parcel that had left moves it back to
+-- 'partially_shipped', and it is 'delivered' only once every line has arrived.
+-- An admin can cancel what is left of a paid, partially shipped order: the
+-- parcels already on their way are kept and only the unshipped litres go back
+-- on the shelf and are queued for refund.
+
+CREATE TABLE public.shipment_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shipment_id uuid NOT NULL REFERENCES public.shipments(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES public.order_items(id) ON DELETE RESTRICT,
+  quantity_litres numeric NOT NULL CHECK (quantity_litres > 0),
+  UNIQUE (shipment_id, order_item_id)
+);
+
+CREATE INDEX shipment_items_order_item_id_idx ON public.shipment_items (order_item_id);
+
+ALTER TABLE public.shipment_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own shipment items"
+ON public.shipment_items FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.shipments s
+  JOIN public.orders o ON o.id = s.order_id
+  WHERE s.id = shipment_items.shipment_id AND o.user_id = auth.uid()
+));
+
+CREATE POLICY "Admins can view all shipment items"
+ON public.shipment_items FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+-- Existing parcels carried the whole order
+INSERT INTO public.shipment_items (shipment_id, order_item_id, quantity_litres)
+SELECT first_shipment.id, i.id, i.quantity_litres
+FROM (
+  SELECT DISTINCT ON (order_id) id, order_id
+  FROM public.shipments
+  WHERE status <> 'cancelled'
+  ORDER BY order_id, created_at
+) first_shipment
+JOIN public.order_items i ON i.order_id = first_shipment.order_id;
+
+-- Litres of each line not yet in a parcel that is on its way or delivered
+CREATE OR REPLACE FUNCTION public.order_unshipped_items(_order_id uuid)
+RETURNS TABLE (order_item_id uuid, product_id uuid, quantity_litres numeric)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT i.id, i.product_id, i.quantity_litres - COALESCE(sum(si.quantity_litres), 0)
+  FROM public.order_items i
+  LEFT JOIN public.shipment_items si ON si.order_item_id = i.id AND EXISTS (
+    SELECT 1 FROM public.shipments s WHERE s.id = si.shipment_id AND s.status IN ('shipped', 'delivered')
+  )
+  WHERE i.order_id = _order_id
+  GROUP BY i.id
+  HAVING i.quantity_litres > COALESCE(sum(si.quantity_litres), 0);
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_order_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.payment_status IS DISTINCT FROM OLD.payment_status THEN
+    IF NOT (
+      (OLD.payment_status = 'pending' AND NEW.payment_status IN ('paid', 'failed', 'expired'))
+      OR (OLD.payment_status = 'failed' AND NEW.payment_status IN ('pending', 'paid', 'expired'))
+      OR (OLD.payment_status = 'paid' AND NEW.payment_status = 'refunded')
+    ) THEN
+      RAISE EXCEPTION 'Payment of order % cannot change from % to %',
+        OLD.order_number, OLD.payment_status, NEW.payment_status;
+    END IF;
+
+    IF NEW.payment_status = 'paid' AND OLD.status = 'cancelled' THEN
+      RAISE EXCEPTION 'Order % has been cancelled', OLD.order_number;
+    END IF;
+
+    -- A prepaid order is confirmed as soon as its payment arrives
+    IF NEW.payment_status = 'paid' AND NEW.status = 'pending' THEN
+      NEW.status := 'confirmed';
+    END IF;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('confirmed', 'cancelled'))
+      OR (OLD.status = 'confirmed' AND NEW.status IN ('processing', 'cancelled'))
+      OR (OLD.status = 'processing' AND NEW.status IN ('partially_shipped', 'shipped', 'cancelled'))
+      OR (OLD.status = 'partially_shipped' AND NEW.status IN ('shipped', 'cancelled'))
+      OR (OLD.status = 'shipped' AND NEW.status IN ('partially_shipped', 'delivered'))
+    ) THEN
+      RAISE EXCEPTION 'Order % cannot change from % to %', OLD.order_number, OLD.status, NEW.status;
+    END IF;
+
+    -- Parcels already on their way are kept, so what is left can only be cancelled once it has been paid for
+    IF OLD.status = 'partially_shipped' AND NEW.status = 'cancelled' AND NEW.payment_status <> 'paid' THEN
+      RAISE EXCEPTION 'Record the payment for order % before cancelling what is left to ship', OLD.order_number;
+    END IF;
+
+    IF NEW.status = 'confirmed' AND NEW.payment_method <> 'cod' AND NEW.payment_status <> 'paid' THEN
+      RAISE EXCEPTION 'Order % cannot be confirmed before it is paid', OLD.order_number;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_shipment_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'pending' THEN
+      RAISE EXCEPTION 'New shipments must start as pending';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status = 'pending' AND NEW.status IN ('shipped', 'cancelled'))
+    OR (OLD.status = 'shipped' AND NEW.status IN ('delivered', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Shipment cannot change from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'shipped' AND NOT EXISTS (
+    SELECT 1 FROM public.shipment_items WHERE shipment_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Add the items in this parcel before shipping it';
+  END IF;
+
+  IF NEW.status IN ('shipped', 'delivered') THEN
+    NEW.shipped_at := COALESCE(NEW.shipped_at, now());
+  END IF;
+
+  IF NEW.status = 'delivered' THEN
+    NEW.delivered_at := COALESCE(NEW.delivered_at, now());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_order_status_from_shipments()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _old_status text;
+  _target_status text;
+  _description text := COALESCE(NEW.carrier, 'our courier')
+    || COALESCE(', tracking number ' || NEW.tracking_number, '');
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    _old_status := OLD.status;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM _old_status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = NEW.order_id FOR UPDATE;
+
+  IF NEW.status = 'shipped' THEN
+    IF _order.status NOT IN ('confirmed', 'processing', 'partially_shipped', 'shipped') THEN
+      RAISE EXCEPTION 'Order % must be confirmed before it ships', _order.order_number;
+    END IF;
+
+    -- Shipped once every line has left in a parcel that is on its way or delivered
+    _target_status := CASE
+      WHEN EXISTS (SELECT 1 FROM public.order_unshipped_items(_order.id)) THEN 'partially_shipped'
+      ELSE 'shipped'
+    END;
+
+    IF _order.status <> _target_status AND _order.status <> 'shipped' THEN
+      PERFORM set_config('app.order_status_note', 'Shipped via ' || _description, true);
+      IF _order.status = 'confirmed' THEN
+        UPDATE public.orders SET status = 'processing' WHERE id = _order.id;
+      END IF;
+      UPDATE public.orders SET status = _target_status WHERE id = _order.id;
+      PERFORM set_config('app.order_status_note', '', true);
+    END IF;
+
+    INSERT INTO public.notifications (user_id, title, message, type)
+    VALUES (
+      _order.user_id,
+      CASE WHEN _target_status = 'shipped' THEN 'Order shipped' ELSE 'Parcel shipped' END,
+      CASE
+        WHEN _target_status = 'shipped' THEN 'Order ' || _order.order_number || ' has been shipped via '
+        ELSE 'Part of order ' || _order.order_number || ' has been shipped via '
+      END || _description || '. You can track it from your Orders page.',
+      'order_shipped'
+    );
+  ELSIF NEW.status IN ('delivered', 'cancelled') AND _order.status IN ('partially_shipped', 'shipped') THEN
+    -- A cancelled parcel leaves its litres to be dispatched again; delivered once every line has arrived
+    _target_status := CASE
+      WHEN EXISTS (SELECT 1 FROM public.order_unshipped_items(_order.id)) THEN 'partially_shipped'
+      WHEN EXISTS (SELECT 1 FROM public.shipments WHERE order_id = _order.id AND status = 'shipped') THEN 'shipped'
+      ELSE 'delivered'
+    END;
+
+    IF _target_status = 'partially_shipped' AND _order.status = 'shipped' THEN
+      PERFORM set_config('app.order_status_note', 'Parcel via ' || _description || ' was cancelled', true);
+      UPDATE public.orders SET status = 'partially_shipped' WHERE id = _order.id;
+      PERFORM set_config('app.order_status_note', '', true);
+    ELSIF _target_status = 'delivered' THEN
+      UPDATE public.orders SET status = 'delivered' WHERE id = _order.id;
+
+      INSERT INTO public.notifications (user_id, title, message, type)
+      VALUES (
+        _order.user_id,
+        'Order delivered',
+        'Order ' || _order.order_number || ' has been delivered. Thank you for shopping with us!',
+        'order_delivered'
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_shipment(
+  _order_id uuid,
+  _items jsonb,
+  _carrier text,
+  _tracking_number text DEFAULT NULL,
+  _tracking_url text DEFAULT NULL,
+  _ship_now boolean DEFAULT true
+)
+RETURNS public.shipments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _shipment public.shipments%ROWTYPE;
+  _item jsonb;
+  _order_item public.order_items%ROWTYPE;
+  _quantity numeric;
+  _allocated numeric;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can create shipments';
+  END IF;
+
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status NOT IN ('confirmed', 'processing', 'partially_shipped', 'shipped') THEN
+    RAISE EXCEPTION 'Order % cannot be shipped while it is %', _order.order_number, _order.status;
+  END IF;
+
+  IF NULLIF(trim(_carrier), '') IS NULL THEN
+    RAISE EXCEPTION 'Enter the carrier name';
+  END IF;
+
+  INSERT INTO public.shipments (order_id, carrier, tracking_number, tracking_url)
+  VALUES (_order_id, trim(_carrier), NULLIF(trim(_tracking_number), ''), NULLIF(trim(_tracking_url), ''))
+  RETURNING * INTO _shipment;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(COALESCE(_items, '[]'::jsonb))
+  LOOP
+    _quantity := (_item->>'quantity_litres')::numeric;
+    CONTINUE WHEN _quantity IS NULL OR _quantity = 0;
+
+    IF _quantity < 0 THEN
+      RAISE EXCEPTION 'Shipment quantity cannot be negative';
+    END IF;
+
+    SELECT * INTO _order_item
+    FROM public.order_items
+    WHERE id = (_item->>'order_item_id')::uuid AND order_id = _order_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item not found on order %', _order.order_number;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.shipment_items WHERE shipment_id = _shipment.id AND order_item_id = _order_item.id
+    ) THEN
+      RAISE EXCEPTION '% is listed more than once', _order_item.product_name;
+    END IF;
+
+    SELECT COALESCE(sum(si.quantity_litres), 0) INTO _allocated
+    FROM public.shipment_items si
+    JOIN public.shipments s ON s.id = si.shipment_id
+    WHERE si.order_item_id = _order_item.id AND s.status <> 'cancelled';
+
+    IF _allocated + _quantity > _order_item.quantity_litres THEN
+      RAISE EXCEPTION 'Only % L of % is left to ship',
+        _order_item.quantity_litres - _allocated, _order_item.product_name;
+    END IF;
+
+    INSERT INTO public.shipment_items (shipment_id, order_item_id, quantity_litres)
+    VALUES (_shipment.id, _order_item.id, _quantity);
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM public.shipment_items WHERE shipment_id = _shipment.id) THEN
+    RAISE EXCEPTION 'Select the items in this parcel';
+  END IF;
+
+  IF _ship_now THEN
+    UPDATE public.shipments SET status = 'shipped' WHERE id = _shipment.id
+    RETURNING * INTO _shipment;
+  END IF;
+
+  RETURN _shipment;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_shipment(uuid, jsonb, text, text, text, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_shipment(uuid, jsonb, text, text, text, boolean) TO authenticated;
@@ -0,0 +1,518 @@
+-- Customer returns (RMA).
+-- Within store_settings.return_window_days of delivery a customer can ask to
+-- return litres of the order's lines, with a reason and optional photos in the
+-- private return-photos bucket. Admins approve or reject the request; once
+-- the goods are back they mark it received, which puts the litres back into
+-- products.stock_quantity unless the goods cannot be resold. On an order whose
+-- stock is still only reserved (Cash on Delivery not yet collected) the
+-- returned litres come out of the reservation instead, and later stock
+-- transitions of the order leave them out. A received
+-- return is refunded through refund_return, which records a regular refund
+-- (and credit note) for the returned lines and links it to the request. When
+-- nothing is left to refund on the order (cash never collected, or already
+-- refunded in full) receiving the goods closes the request instead, and
+-- admins can close a received return without a refund through close_return.
+-- The customer is notified at every step.
+
+ALTER TABLE public.store_settings
+  ADD COLUMN return_window_days integer NOT NULL DEFAULT 7 CHECK (return_window_days >= 0);
+
+CREATE TABLE public.return_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  status text NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'approved', 'rejected', 'received', 'refunded', 'closed')),
+  reason text NOT NULL,
+  photo_paths text[] NOT NULL DEFAULT '{}',
+  admin_note text,
+  restocked boolean NOT NULL DEFAULT false,
+  -- Received while the order's stock was reserved, so its litres no longer belong to that reservation
+  released_from_reservation boolean NOT NULL DEFAULT false,
+  refund_id uuid REFERENCES public.refunds(id) ON DELETE SET NULL,
+  reviewed_by uuid,
+  reviewed_at timestamptz,
+  received_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX return_requests_order_id_idx ON public.return_requests (order_id);
+CREATE INDEX return_requests_status_idx ON public.return_requests (status, created_at);
+
+CREATE TABLE public.return_request_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  return_request_id uuid NOT NULL REFERENCES public.return_requests(id) ON DELETE CASCADE,
+  order_item_id uuid NOT NULL REFERENCES public.order_items(id) ON DELETE RESTRICT,
+  product_name text NOT NULL,
+  quantity_litres numeric NOT NULL CHECK (quantity_litres > 0),
+  UNIQUE (return_request_id, order_item_id)
+);
+
+CREATE INDEX return_request_items_order_item_id_idx ON public.return_request_items (order_item_id);
+
+ALTER TABLE public.return_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.return_request_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own return requests"
+ON public.return_requests FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all return requests"
+ON public.return_requests FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view their own return request items"
+ON public.return_request_items FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.return_requests r
+  WHERE r.id = return_request_items.return_request_id AND r.user_id = auth.uid()
+));
+
+CREATE POLICY "Admins can view all return request items"
+ON public.return_request_items FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_return_requests_updated_at
+BEFORE UPDATE ON public.return_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('return-photos', 'return-photos', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Photos live under <user id>/..., so customers only reach their own files
+CREATE POLICY "Users can upload their own return photos"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'return-photos' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can view their own return photos"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'return-photos' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Admins can view return photos"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'return-photos' AND has_role(auth.uid(), 'admin'));
+
+CREATE OR REPLACE FUNCTION public.request_return(
+  _order_id uuid,
+  _items jsonb,
+  _reason text,
+  _photo_paths text[] DEFAULT '{}'
+)
+RETURNS public.return_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+  _request public.return_requests%ROWTYPE;
+  _item jsonb;
+  _order_item public.order_items%ROWTYPE;
+  _quantity numeric;
+  _already_returned numeric;
+  _delivered_at timestamptz;
+  _window_days integer;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND OR _order.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status <> 'delivered' THEN
+    RAISE EXCEPTION 'Only delivered orders can be returned';
+  END IF;
+
+  SELECT max(created_at) INTO _delivered_at
+  FROM public.order_status_history
+  WHERE order_id = _order_id AND field = 'status' AND to_status = 'delivered';
+
+  SELECT return_window_days INTO _window_days FROM public.store_settings LIMIT 1;
+
+  -- Without a recorded delivery there is nothing to start the window from
+  IF _delivered_at IS NULL THEN
+    RAISE EXCEPTION 'Order % has no recorded delivery date and cannot be returned online', _order.order_number;
+  END IF;
+
+  IF _delivered_at + make_interval(days => COALESCE(_window_days, 7)) < now() THEN
+    RAISE EXCEPTION 'Returns for order % closed % days after delivery', _order.order_number, COALESCE(_window_days, 7);
+  END IF;
+
+  IF NULLIF(trim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Tell us why you are returning the items';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(COALESCE(_photo_paths, '{}')) AS path
+    WHERE split_part(path, '/', 1) <> auth.uid()::text
+  ) THEN
+    RAISE EXCEPTION 'Invalid return photo';
+  END IF;
+
+  INSERT INTO public.return_requests (order_id, user_id, reason, photo_paths)
+  VALUES (_order_id, _order.user_id, trim(_reason), COALESCE(_photo_paths, '{}'))
+  RETURNING * INTO _request;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(COALESCE(_items, '[]'::jsonb))
+  LOOP
+    _quantity := (_item->>'quantity_litres')::numeric;
+    CONTINUE WHEN _quantity IS NULL OR _quantity = 0;
+
+    IF _quantity < 0 THEN
+      RAISE EXCEPTION 'Return quantity cannot be negative';
+    END IF;
+
+    SELECT * INTO _order_item
+    FROM public.order_items
+    WHERE id = (_item->>'order_item_id')::uuid AND order_id = _order_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item not found on order %', _order.order_number;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.return_request_items
+      WHERE return_request_id = _request.id AND order_item_id = _order_item.id
+    ) THEN
+      RAISE EXCEPTION '% is listed more than once', _order_item.product_name;
+    END IF;
+
+    SELECT COALESCE(sum(ri.quantity_litres), 0) INTO _already_returned
+    FROM public.return_request_items ri
+    JOIN public.return_requests r ON r.id = ri.return_request_id
+    WHERE ri.order_item_id = _order_item.id AND r.status <> 'rejected';
+
+    IF _already_returned + _quantity > _order_item.quantity_litres THEN
+      RAISE EXCEPTION 'Only % L of % can still be returned',
+        _order_item.quantity_litres - _already_returned, _order_item.product_name;
+    END IF;
+
+    INSERT INTO public.return_request_items (return_request_id, order_item_id, product_name, quantity_litres)
+    VALUES (_request.id, _order_item.id, _order_item.product_name, _quantity);
+  END LOOP;
+
+  IF NOT EXISTS (SELECT 1 FROM public.return_request_items WHERE return_request_id = _request.id) THEN
+    RAISE EXCEPTION 'Select the items you want to return';
+  END IF;
+
+  RETURN _request;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_return(
+  _return_id uuid,
+  _approve boolean,
+  _note text DEFAULT NULL
+)
+RETURNS public.return_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.return_requests%ROWTYPE;
+  _order_number text;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review returns';
+  END IF;
+
+  SELECT * INTO _request FROM public.return_requests WHERE id = _return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return request not found';
+  END IF;
+
+  IF _request.status <> 'requested' THEN
+    RAISE EXCEPTION 'This return has already been %', _request.status;
+  END IF;
+
+  IF NOT _approve AND NULLIF(trim(_note), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for rejecting the return';
+  END IF;
+
+  UPDATE public.return_requests
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+      admin_note = NULLIF(trim(_note), ''),
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _return_id
+  RETURNING * INTO _request;
+
+  SELECT order_number INTO _order_number FROM public.orders WHERE id = _request.order_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type)
+  VALUES (
+    _request.user_id,
+    CASE WHEN _approve THEN 'Return approved' ELSE 'Return rejected' END,
+    CASE
+      WHEN _approve THEN 'Your return for order ' || _order_number
+        || ' has been approved. Please send the items back to us.' || COALESCE(' ' || _request.admin_note, '')
+      ELSE 'Your return for order ' || _order_number || ' was not approved: ' || _request.admin_note
+    END,
+    CASE WHEN _approve THEN 'return_approved' ELSE 'return_rejected' END
+  );
+
+  RETURN _request;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.receive_return(
+  _return_id uuid,
+  _restock boolean DEFAULT true,
+  _note text DEFAULT NULL
+)
+RETURNS public.return_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.return_requests%ROWTYPE;
+  _stock_status text;
+  _payment_status text;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can receive returns';
+  END IF;
+
+  SELECT * INTO _request FROM public.return_requests WHERE id = _return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return request not found';
+  END IF;
+
+  IF _request.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved returns can be received';
+  END IF;
+
+  SELECT stock_status, payment_status INTO _stock_status, _payment_status
+  FROM public.orders
+  WHERE id = _request.order_id
+  FOR UPDATE;
+
+  IF _stock_status = 'reserved' THEN
+    -- The litres were never deducted: resalable goods just stop being reserved, the rest leave stock now
+    UPDATE public.products p
+    SET reserved_quantity = GREATEST(p.reserved_quantity - i.quantity, 0),
+        stock_quantity = p.stock_quantity - CASE WHEN _restock THEN 0 ELSE i.quantity END
+    FROM (
+      SELECT oi.product_id, sum(ri.quantity_litres) AS quantity
+      FROM public.return_request_items ri
+      JOIN public.order_items oi ON oi.id = ri.order_item_id
+      WHERE ri.return_request_id = _return_id
+      GROUP BY oi.product_id
+    ) i
+    WHERE p.id = i.product_id;
+  ELSIF _stock_status = 'deducted' AND _restock THEN
+    UPDATE public.products p
+    SET stock_quantity = p.stock_quantity + i.quantity
+    FROM (
+      SELECT oi.product_id, sum(ri.quantity_litres) AS quantity
+      FROM public.return_request_items ri
+      JOIN public.order_items oi ON oi.id = ri.order_item_id
+      WHERE ri.return_request_id = _return_id
+      GROUP BY oi.product_id
+    ) i
+    WHERE p.id = i.product_id;
+  END IF;
+
+  UPDATE public.return_requests
+  SET status = CASE WHEN _payment_status = 'paid' THEN 'received' ELSE 'closed' END,
+      restocked = _restock,
+      released_from_reservation = _stock_status = 'reserved',
+      received_at = now(),
+      admin_note = COALESCE(NULLIF(trim(_note), ''), admin_note)
+  WHERE id = _return_id
+  RETURNING * INTO _request;
+
+  INSERT INTO public.notifications (user_id, title, message, type)
+  SELECT
+    _request.user_id,
+    'Return received',
+    'We have received the items you returned from order ' || o.order_number || '. '
+      || CASE
+        WHEN _request.status = 'closed' THEN 'There is nothing to refund on this order, so the return is now closed.'
+        ELSE 'Your refund is on its way.'
+      END,
+    'return_received'
+  FROM public.orders o
+  WHERE o.id = _request.order_id;
+
+  RETURN _request;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refund_return(
+  _return_id uuid,
+  _additional_amount numeric,
+  _method text,
+  _reference text DEFAULT NULL
+)
+RETURNS public.refunds
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.return_requests%ROWTYPE;
+  _refund public.refunds%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can record refunds';
+  END IF;
+
+  SELECT * INTO _request FROM public.return_requests WHERE id = _return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return request not found';
+  END IF;
+
+  IF _request.status <> 'received' THEN
+    RAISE EXCEPTION 'Only received returns can be refunded';
+  END IF;
+
+  IF (SELECT payment_status FROM public.orders WHERE id = _request.order_id) <> 'paid' THEN
+    RAISE EXCEPTION 'There is nothing to refund on this order; close the return instead';
+  END IF;
+
+  _refund := public.record_refund(
+    _request.order_id,
+    (
+      SELECT jsonb_agg(jsonb_build_object('order_item_id', order_item_id, 'quantity_litres', quantity_litres))
+      FROM public.return_request_items
+      WHERE return_request_id = _return_id
+    ),
+    _additional_amount,
+    'Returned: ' || _request.reason,
+    _method,
+    _reference
+  );
+
+  UPDATE public.return_requests
+  SET status = 'refunded', refund_id = _refund.id
+  WHERE id = _return_id;
+
+  RETURN _refund;
+END;
+$$;
+
+-- Ends a received return without a refund, e.g. when the order was refunded in full some other way
+CREATE OR REPLACE FUNCTION public.close_return(_return_id uuid, _note text DEFAULT NULL)
+RETURNS public.return_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.return_requests%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can close returns';
+  END IF;
+
+  SELECT * INTO _request FROM public.return_requests WHERE id = _return_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return request not found';
+  END IF;
+
+  IF _request.status <> 'received' THEN
+    RAISE EXCEPTION 'Only received returns can be closed';
+  END IF;
+
+  UPDATE public.return_requests
+  SET status = 'closed',
+      admin_note = COALESCE(NULLIF(trim(_note), ''), admin_note)
+  WHERE id = _return_id
+  RETURNING * INTO _request;
+
+  INSERT INTO public.notifications (user_id, title, message, type)
+  SELECT
+    _request.user_id,
+    'Return closed',
+    'Your return for order ' || o.order_number || ' has been closed without a further refund.'
+      || COALESCE(' ' || NULLIF(trim(_note), ''), ''),
+    'return_closed'
+  FROM public.orders o
+  WHERE o.id = _request.order_id;
+
+  RETURN _request;
+END;
+$$;
+
+-- Litres of each product an order still holds in stock, leaving out returns
+-- that were taken out of its reservation when received
+CREATE OR REPLACE FUNCTION public.order_stock_quantities(_order_id uuid)
+RETURNS TABLE (product_id uuid, quantity numeric)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT oi.product_id, sum(oi.quantity_litres) - COALESCE(sum(released.quantity), 0)
+  FROM public.order_items oi
+  LEFT JOIN LATERAL (
+    SELECT sum(ri.quantity_litres) AS quantity
+    FROM public.return_request_items ri
+    JOIN public.return_requests r ON r.id = ri.return_request_id
+    WHERE ri.order_item_id = oi.id AND r.released_from_reservation
+  ) released ON true
+  WHERE oi.order_id = _order_id
+  GROUP BY oi.product_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_order_stock_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' OR NEW.payment_status IN ('failed', 'expired') THEN
+    IF OLD.stock_status = 'reserved' THEN
+      UPDATE public.products p
+      SET reserved_quantity = GREATEST(p.reserved_quantity - i.quantity, 0)
+      FROM public.order_stock_quantities(NEW.id) i
+      WHERE p.id = i.product_id;
+
+      NEW.stock_status := 'released';
+    ELSIF OLD.stock_status = 'deducted' AND NEW.status = 'cancelled' THEN
+      -- Paid but not dispatched: the litres not already in a parcel go back on the shelf
+      UPDATE public.products p
+      SET stock_quantity = p.stock_quantity + i.quantity
+      FROM (
+        SELECT u.product_id, sum(u.quantity_litres) AS quantity
+        FROM public.order_unshipped_items(NEW.id) u
+        GROUP BY u.product_id
+      ) i
+      WHERE p.id = i.product_id;
+
+      NEW.stock_status := 'released';
+    END IF;
+  ELSIF NEW.payment_status = 'paid' AND OLD.stock_status = 'reserved' THEN
+    UPDATE public.products p
+    SET stock_quantity = p.stock_quantity - i.quantity,
+        reserved_quantity = GREATEST(p.reserved_quantity - i.quantity, 0)
+    FROM public.order_stock_quantities(NEW.id) i
+    WHERE p.id = i.product_id;
+
+    NEW.stock_status := 'deducted';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_return(uuid, jsonb, text, text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_return(uuid, jsonb, text, text[]) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.review_return(uuid, boolean, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_return(uuid, boolean, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.receive_return(uuid, boolean, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.receive_return(uuid, boolean, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_return(uuid, numeric, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.refund_return(uuid, numeric, text, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.close_return(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.close_return(uuid, text) TO authenticated;
@@ -0,0 +1,151 @@
+-- Customer self-service cancellation.
+-- cancel_order lets customers cancel their own order with a reason until it
+-- ships: the order must still be pending, confirmed or processing, and any
+-- parcel packed but not yet handed to the carrier is cancelled with it.
+-- Cancelling releases reserved stock and the coupon redemption as for any
+-- other cancellation (apply_order_stock_transition, coupon limits). While a
+-- UPI payment submission is still waiting for verification the order cannot
+-- be cancelled, so no payment is left untracked. Whoever cancels a paid order
+-- (customer or admin), it is left 'paid' with what the customer paid queued
+-- as refund_due_amount (only the unshipped litres when an admin cancels the
+-- rest of a partially shipped order); it stays on the admin Orders page's
+-- refund queue until record_refund has paid it back. Orders use full replica identity so the
+-- admin Dashboard's realtime channel can tell a fresh cancellation from later
+-- updates.
+
+ALTER TABLE public.orders
+  ADD COLUMN cancellation_reason text,
+  ADD COLUMN cancelled_by uuid,
+  ADD COLUMN cancelled_at timestamptz,
+  ADD COLUMN refund_due_amount numeric NOT NULL DEFAULT 0 CHECK (refund_due_amount >= 0);
+
+CREATE INDEX orders_refund_due_idx ON public.orders (cancelled_at) WHERE refund_due_amount > 0;
+
+ALTER TABLE public.orders REPLICA IDENTITY FULL;
+
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id uuid, _reason text)
+RETURNS public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO _order FROM public.orders WHERE id = _order_id FOR UPDATE;
+
+  IF NOT FOUND OR _order.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  IF _order.status NOT IN ('pending', 'confirmed', 'processing') OR EXISTS (
+    SELECT 1 FROM public.shipments WHERE order_id = _order_id AND status IN ('shipped', 'delivered')
+  ) THEN
+    RAISE EXCEPTION 'Order % has already been dispatched and can no longer be cancelled', _order.order_number;
+  END IF;
+
+  IF NULLIF(trim(_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Tell us why you are cancelling the order';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.payment_transactions WHERE order_id = _order_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'We are still verifying your payment for order %. Please try again once it has been verified',
+      _order.order_number;
+  END IF;
+
+  UPDATE public.shipments SET status = 'cancelled' WHERE order_id = _order_id AND status = 'pending';
+
+  PERFORM set_config('app.order_status_note', 'Cancelled by customer: ' || trim(_reason), true);
+  UPDATE public.orders
+  SET status = 'cancelled',
+      cancellation_reason = trim(_reason),
+      cancelled_by = auth.uid(),
+      cancelled_at = now()
+  WHERE id = _order_id
+  RETURNING * INTO _order;
+  PERFORM set_config('app.order_status_note', '', true);
+
+  INSERT INTO public.notifications (user_id, title, message, type)
+  VALUES (
+    _order.user_id,
+    'Order cancelled',
+    'Order ' || _order.order_number || ' has been cancelled.'
+      || CASE
+        WHEN _order.refund_due_amount > 0 THEN ' Your refund of ₹' || _order.refund_due_amount
+          || ' will be sent to your original payment method.'
+        ELSE ''
+      END,
+    'order_cancelled'
+  );
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_order(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_order(uuid, text) TO authenticated;
+
+-- Any cancellation of a paid order, by the customer or through update_order_status, queues its refund
+CREATE OR REPLACE FUNCTION public.queue_cancellation_refund()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND NEW.payment_status = 'paid' AND OLD.status = 'partially_shipped' THEN
+    -- Parcels on their way are kept: only the unshipped litres are due, priced as record_refund prices them
+    NEW.refund_due_amount := LEAST(
+      (
+        SELECT COALESCE(sum(CASE
+          WHEN u.quantity_litres = i.quantity_litres THEN
+            CASE
+              WHEN i.taxable_amount = 0 AND i.cgst_amount = 0 AND i.sgst_amount = 0 AND i.igst_amount = 0
+                THEN i.total_price
+              ELSE i.taxable_amount + i.cgst_amount + i.sgst_amount + i.igst_amount
+            END
+          WHEN i.taxable_amount = 0 AND i.cgst_amount = 0 AND i.sgst_amount = 0 AND i.igst_amount = 0
+            THEN round(i.total_price * u.quantity_litres / i.quantity_litres, 2)
+          ELSE round(i.taxable_amount * u.quantity_litres / i.quantity_litres, 2)
+            + round(i.cgst_amount * u.quantity_litres / i.quantity_litres, 2)
+            + round(i.sgst_amount * u.quantity_litres / i.quantity_litres, 2)
+            + round(i.igst_amount * u.quantity_litres / i.quantity_litres, 2)
+        END), 0)
+        FROM public.order_unshipped_items(NEW.id) u
+        JOIN public.order_items i ON i.id = u.order_item_id
+      ),
+      NEW.final_amount - NEW.refunded_amount
+    );
+  ELSIF NEW.status = 'cancelled' AND NEW.payment_status = 'paid' THEN
+    NEW.refund_due_amount := NEW.final_amount - NEW.refunded_amount;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER orders_queue_cancellation_refund
+BEFORE UPDATE OF status ON public.orders
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.queue_cancellation_refund();
+
+-- Refunds recorded against the order (always through record_refund) settle what is due
+CREATE OR REPLACE FUNCTION public.settle_refund_due()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.orders
+  SET refund_due_amount = GREATEST(refund_due_amount - NEW.amount, 0)
+  WHERE id = NEW.order_id AND refund_due_amount > 0;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refunds_settle_refund_due
+AFTER INSERT ON public.refunds
+FOR EACH ROW
+EXECUTE FUNCTION public.settle_refund_due();
@@ -0,0 +1,322 @@
+-- Recurring subscription orders.
+-- A customer subscribes to a set of cart lines (from the cart or a past order)
+-- delivered to one of their addresses every N weeks or months. A pg_cron job
+-- runs run_due_subscriptions every hour: each active subscription whose
+-- next_run_on has arrived is placed through place_order as the subscriber, so
+-- prices, stock reservation, shipping and tax work exactly as at checkout, and
+-- next_run_on moves to the following delivery. Online payments stay open for
+-- three days instead of the usual payment window and the customer is sent a
+-- payment request; COD orders are simply confirmed by the store as usual. A
+-- delivery that cannot be placed (out of stock, address deleted, ...) is
+-- skipped, recorded in last_error and the customer is told why. Customers can
+-- skip the next delivery, pause, resume or cancel; admins can do the same on
+-- their behalf.
+
+CREATE TABLE public.subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  address_id uuid REFERENCES public.addresses(id) ON DELETE SET NULL,
+  payment_method text NOT NULL DEFAULT 'upi' CHECK (payment_method IN ('upi', 'cod', 'gateway')),
+  interval_unit text NOT NULL CHECK (interval_unit IN ('week', 'month')),
+  interval_count integer NOT NULL CHECK (interval_count BETWEEN 1 AND 52),
+  next_run_on date NOT NULL,
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'cancelled')),
+  source_order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  last_order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  last_run_at timestamptz,
+  last_error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX subscriptions_user_id_idx ON public.subscriptions (user_id);
+CREATE INDEX subscriptions_next_run_on_idx ON public.subscriptions (next_run_on) WHERE status = 'active';
+
+CREATE TABLE public.subscription_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  subscription_id uuid NOT NULL REFERENCES public.subscriptions(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  quantity_litres numeric NOT NULL CHECK (quantity_litres > 0),
+  variant_selection jsonb,
+  measurement_label text,
+  measurement_value text
+);
+
+CREATE INDEX subscription_items_subscription_id_idx ON public.subscription_items (subscription_id);
+
+ALTER TABLE public.orders
+  ADD COLUMN subscription_id uuid REFERENCES public.subscriptions(id) ON DELETE SET NULL;
+
+CREATE INDEX orders_subscription_id_idx ON public.orders (subscription_id) WHERE subscription_id IS NOT NULL;
+
+ALTER TABLE public.subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.subscription_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own subscriptions"
+ON public.subscriptions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all subscriptions"
+ON public.subscriptions FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view their own subscription items"
+ON public.subscription_items FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.subscriptions s
+  WHERE s.id = subscription_items.subscription_id AND s.user_id = auth.uid()
+));
+
+CREATE POLICY "Admins can view all subscription items"
+ON public.subscription_items FOR SELECT
+USING (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_subscriptions_updated_at
+BEFORE UPDATE ON public.subscriptions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The first delivery date after _from that is not in the past
+CREATE OR REPLACE FUNCTION public.next_subscription_run(_from date, _interval_unit text, _interval_count integer)
+RETURNS date
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _step interval := CASE
+    WHEN _interval_unit = 'week' THEN make_interval(weeks => _interval_count)
+    ELSE make_interval(months => _interval_count)
+  END;
+  _next date := (_from + _step)::date;
+BEGIN
+  WHILE _next < current_date LOOP
+    _next := (_next + _step)::date;
+  END LOOP;
+
+  RETURN _next;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_subscription(
+  _items jsonb,
+  _address_id uuid,
+  _payment_method text,
+  _interval_unit text,
+  _interval_count integer,
+  _start_on date,
+  _source_order_id uuid DEFAULT NULL
+)
+RETURNS public.subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _subscription public.subscriptions%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Please login';
+  END IF;
+
+  IF _interval_unit NOT IN ('week', 'month') OR _interval_count IS NULL OR _interval_count NOT BETWEEN 1 AND 52 THEN
+    RAISE EXCEPTION 'Choose how often to deliver';
+  END IF;
+
+  IF _start_on IS NULL OR _start_on < current_date THEN
+    RAISE EXCEPTION 'The first delivery cannot be in the past';
+  END IF;
+
+  IF _source_order_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.orders WHERE id = _source_order_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Order not found';
+  END IF;
+
+  -- Checks the products, options, address and payment method as checkout would
+  PERFORM public.quote_order(_items, NULL, _address_id, _payment_method);
+
+  INSERT INTO public.subscriptions (
+    user_id, address_id, payment_method, interval_unit, interval_count, next_run_on, source_order_id
+  )
+  VALUES (
+    auth.uid(), _address_id, lower(trim(_payment_method)), _interval_unit, _interval_count, _start_on, _source_order_id
+  )
+  RETURNING * INTO _subscription;
+
+  INSERT INTO public.subscription_items (
+    subscription_id, product_id, quantity_litres, variant_selection, measurement_label, measurement_value
+  )
+  SELECT
+    _subscription.id,
+    (item->>'product_id')::uuid,
+    (item->>'quantity_litres')::numeric,
+    NULLIF(item->'variant_selection', 'null'::jsonb),
+    item->>'measurement_label',
+    item->>'measurement_value'
+  FROM jsonb_array_elements(_items) AS items(item);
+
+  RETURN _subscription;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_subscription(_subscription_id uuid, _action text)
+RETURNS public.subscriptions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _subscription public.subscriptions%ROWTYPE;
+BEGIN
+  SELECT * INTO _subscription FROM public.subscriptions WHERE id = _subscription_id FOR UPDATE;
+
+  IF NOT FOUND OR (_subscription.user_id <> auth.uid() AND NOT has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'Subscription not found';
+  END IF;
+
+  IF _subscription.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This subscription has been cancelled';
+  END IF;
+
+  IF _action = 'skip' THEN
+    IF _subscription.status <> 'active' THEN
+      RAISE EXCEPTION 'Only active subscriptions have a delivery to skip';
+    END IF;
+    UPDATE public.subscriptions
+    SET next_run_on = public.next_subscription_run(next_run_on, interval_unit, interval_count)
+    WHERE id = _subscription_id
+    RETURNING * INTO _subscription;
+  ELSIF _action = 'pause' AND _subscription.status = 'active' THEN
+    UPDATE public.subscriptions SET status = 'paused' WHERE id = _subscription_id RETURNING * INTO _subscription;
+  ELSIF _action = 'resume' AND _subscription.status = 'paused' THEN
+    -- Deliveries missed while paused are not made up
+    UPDATE public.subscriptions
+    SET status = 'active',
+        next_run_on = CASE
+          WHEN next_run_on >= current_date THEN next_run_on
+          ELSE public.next_subscription_run(next_run_on, interval_unit, interval_count)
+        END
+    WHERE id = _subscription_id
+    RETURNING * INTO _subscription;
+  ELSIF _action = 'cancel' THEN
+    UPDATE public.subscriptions SET status = 'cancelled' WHERE id = _subscription_id RETURNING * INTO _subscription;
+  ELSIF _action IN ('pause', 'resume') THEN
+    RAISE EXCEPTION 'This subscription is already %', _subscription.status;
+  ELSE
+    RAISE EXCEPTION 'Unknown subscription action %', _action;
+  END IF;
+
+  RETURN _subscription;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.run_due_subscriptions()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _subscription public.subscriptions%ROWTYPE;
+  _order public.orders%ROWTYPE;
+  _placed integer := 0;
+BEGIN
+  FOR _subscription IN
+    SELECT *
+    FROM public.subscriptions
+    WHERE status = 'active' AND next_run_on <= current_date
+    ORDER BY next_run_on
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    BEGIN
+      -- place_order works on behalf of the signed-in user, so act as the subscriber
+      PERFORM set_config(
+        'request.jwt.claims',
+        jsonb_build_object('sub', _subscription.user_id, 'role', 'authenticated')::text,
+        true
+      );
+      PERFORM set_config('app.order_status_note', 'Subscription delivery', true);
+
+      _order := public.place_order(
+        (
+          SELECT jsonb_agg(jsonb_build_object(
+            'product_id', product_id,
+            'quantity_litres', quantity_litres,
+            'variant_selection', variant_selection,
+            'measurement_label', measurement_label,
+            'measurement_value', measurement_value
+          ))
+          FROM public.subscription_items
+          WHERE subscription_id = _subscription.id
+        ),
+        _subscription.address_id,
+        NULL,
+        _subscription.payment_method,
+        -- One order per delivery date, however often the job runs
+        'subscription-' || _subscription.id || '-' || _subscription.next_run_on
+      );
+
+      UPDATE public.orders
+      SET subscription_id = _subscription.id,
+          payment_due_at = CASE WHEN payment_due_at IS NOT NULL THEN now() + interval '3 days' END
+      WHERE id = _order.id
+      RETURNING * INTO _order;
+
+      UPDATE public.subscriptions
+      SET last_order_id = _order.id,
+          last_run_at = now(),
+          last_error = NULL,
+          next_run_on = public.next_subscription_run(next_run_on, interval_unit, interval_count)
+      WHERE id = _subscription.id;
+
+      INSERT INTO public.notifications (user_id, title, message, type)
+      VALUES (
+        _subscription.user_id,
+        CASE WHEN _order.payment_due_at IS NOT NULL THEN 'Subscription payment due' ELSE 'Subscription order placed' END,
+        'Your subscription order ' || _order.order_number || ' for ₹' || _order.final_amount || ' has been placed.'
+          || CASE
+            WHEN _order.payment_due_at IS NOT NULL THEN ' Please pay by '
+              || to_char(_order.payment_due_at AT TIME ZONE 'Asia/Kolkata', 'DD Mon YYYY')
+              || ' from your Orders page so we can dispatch it.'
+            ELSE ' Pay in cash when it is delivered.'
+          END,
+        'subscription_order'
+      );
+
+      _placed := _placed + 1;
+    EXCEPTION WHEN OTHERS THEN
+      UPDATE public.subscriptions
+      SET last_run_at = now(),
+          last_error = SQLERRM,
+          next_run_on = public.next_subscription_run(next_run_on, interval_unit, interval_count)
+      WHERE id = _subscription.id;
+
+      INSERT INTO public.notifications (user_id, title, message, type)
+      VALUES (
+        _subscription.user_id,
+        'Subscription delivery skipped',
+        'We could not place your subscription order due on '
+          || to_char(_subscription.next_run_on, 'DD Mon YYYY') || ': ' || SQLERRM
+          || '. Check your subscription from the Subscriptions page.',
+        'subscription_failed'
+      );
+    END;
+  END LOOP;
+
+  PERFORM set_config('request.jwt.claims', '', true);
+  PERFORM set_config('app.order_status_note', '', true);
+
+  RETURN _placed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_subscription(jsonb, uuid, text, text, integer, date, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_subscription(jsonb, uuid, text, text, integer, date, uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.update_subscription(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.update_subscription(uuid, text) TO authenticated;
+
+-- Only the scheduled job runs this
+REVOKE EXECUTE ON FUNCTION public.run_due_subscriptions() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('run-due-subscriptions', '0 * * * *', 'SELECT public.run_due_subscriptions()');